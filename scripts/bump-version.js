@@ -7,7 +7,7 @@ import { spawnSync } from "node:child_process";
 const repoRoot = path.resolve(path.dirname(new URL(import.meta.url).pathname), "..");
 const packageJsonPath = path.join(repoRoot, "package.json");
 const packageLockPath = path.join(repoRoot, "package-lock.json");
-const srcIndexPath = path.join(repoRoot, "src", "index.ts");
+const constantsPath = path.join(repoRoot, "src", "constants.ts");
 
 const target = process.argv[2];
 
@@ -34,17 +34,17 @@ function readJson(filePath) {
 run("npm", ["version", "--allow-same-version", "--no-git-tag-version", target]);
 
 const packageJson = readJson(packageJsonPath);
-const srcIndex = fs.readFileSync(srcIndexPath, "utf8");
-const currentVersionPattern = /version:\s*"[^"]+"/;
+const constants = fs.readFileSync(constantsPath, "utf8");
+const currentVersionPattern = /VERSION:\s*"[^"]+"/;
 
-if (!currentVersionPattern.test(srcIndex)) {
-  console.error(`Could not find server version in ${srcIndexPath}`);
+if (!currentVersionPattern.test(constants)) {
+  console.error(`Could not find server version in ${constantsPath}`);
   process.exit(1);
 }
 
 fs.writeFileSync(
-  srcIndexPath,
-  srcIndex.replace(currentVersionPattern, `version: "${packageJson.version}"`),
+  constantsPath,
+  constants.replace(currentVersionPattern, `VERSION: "${packageJson.version}"`),
 );
 
 run("npm", ["install", "--package-lock-only"]);
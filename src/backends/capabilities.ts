@@ -0,0 +1,143 @@
+/**
+ * Capability helpers - derive tool schemas, validation and defaults from
+ * BackendCapabilities instead of hard-coding per-backend behavior in tools.
+ */
+
+import { BackendCapabilities, BackendType, ReasoningEffort, SandboxMode } from './types.js';
+import { getAllBackends } from './registry.js';
+
+/** Backend options a caller can request that not every backend honors */
+export interface RequestedBackendOptions {
+  sandbox?: boolean;
+  sandboxMode?: SandboxMode;
+  reasoningEffort?: ReasoningEffort;
+  allowedTools?: string[];
+}
+
+/** What the default model is being chosen for */
+export type ModelPurpose = 'general' | 'review';
+
+const ALL_SANDBOX_MODES: [SandboxMode, ...SandboxMode[]] = ['read-only', 'workspace-write', 'danger-full-access'];
+const ALL_REASONING_EFFORTS: [ReasoningEffort, ...ReasoningEffort[]] = ['low', 'medium', 'high', 'xhigh'];
+
+/**
+ * Names of registered backends whose capabilities match the predicate
+ */
+export function getBackendsSupporting(predicate: (capabilities: BackendCapabilities) => boolean): BackendType[] {
+  return getAllBackends()
+    .filter(backend => predicate(backend.getCapabilities()))
+    .map(backend => backend.name);
+}
+
+function supportedBy(predicate: (capabilities: BackendCapabilities) => boolean): string {
+  const names = getBackendsSupporting(predicate);
+  return names.length > 0 ? names.join(', ') : 'no registered backend';
+}
+
+/**
+ * Rejects options the selected backend cannot honor
+ * @throws Error naming the option, the backend and which backends do support it
+ */
+export function validateBackendOptions(
+  backendName: BackendType,
+  capabilities: BackendCapabilities,
+  options: RequestedBackendOptions
+): void {
+  const { sandbox, sandboxMode, reasoningEffort, allowedTools } = options;
+
+  if (reasoningEffort && !capabilities.reasoningEffort.includes(reasoningEffort)) {
+    throw new Error(
+      capabilities.reasoningEffort.length > 0
+        ? `reasoningEffort '${reasoningEffort}' is not supported by the '${backendName}' backend. Supported levels: ${capabilities.reasoningEffort.join(', ')}`
+        : `reasoningEffort is not supported by the '${backendName}' backend. Supported by: ${supportedBy(c => c.reasoningEffort.length > 0)}`
+    );
+  }
+
+  if (sandboxMode && !capabilities.sandboxModes.includes(sandboxMode)) {
+    throw new Error(
+      capabilities.sandboxModes.length > 0
+        ? `sandboxMode '${sandboxMode}' is not supported by the '${backendName}' backend. Supported modes: ${capabilities.sandboxModes.join(', ')}`
+        : `sandboxMode is not supported by the '${backendName}' backend. Supported by: ${supportedBy(c => c.sandboxModes.length > 0)}`
+    );
+  }
+
+  if (sandbox && !capabilities.sandbox) {
+    throw new Error(
+      `sandbox is not supported by the '${backendName}' backend. Supported by: ${supportedBy(c => c.sandbox)}`
+    );
+  }
+
+  if (allowedTools && allowedTools.length > 0 && !capabilities.allowedTools) {
+    throw new Error(
+      `allowedTools is not supported by the '${backendName}' backend. Supported by: ${supportedBy(c => c.allowedTools)}`
+    );
+  }
+}
+
+/**
+ * Resolves the model to pass to the backend when the caller did not pick one.
+ * Only purpose-specific defaults are applied here; otherwise the backend keeps
+ * its own default (which also lets resumed sessions keep their model).
+ */
+export function resolveModel(
+  capabilities: BackendCapabilities,
+  requestedModel: string | undefined,
+  purpose: ModelPurpose = 'general'
+): string | undefined {
+  if (requestedModel) {
+    return requestedModel;
+  }
+  return purpose === 'review' ? capabilities.defaultReviewModel : undefined;
+}
+
+/**
+ * Sandbox modes accepted by at least one registered backend (for z.enum)
+ */
+export function getSupportedSandboxModes(): [SandboxMode, ...SandboxMode[]] {
+  const supported = new Set(getAllBackends().flatMap(backend => backend.getCapabilities().sandboxModes));
+  const modes = ALL_SANDBOX_MODES.filter(mode => supported.has(mode));
+  return modes.length > 0 ? (modes as [SandboxMode, ...SandboxMode[]]) : ALL_SANDBOX_MODES;
+}
+
+/**
+ * Reasoning effort levels accepted by at least one registered backend (for z.enum)
+ */
+export function getSupportedReasoningEfforts(): [ReasoningEffort, ...ReasoningEffort[]] {
+  const supported = new Set(getAllBackends().flatMap(backend => backend.getCapabilities().reasoningEffort));
+  const levels = ALL_REASONING_EFFORTS.filter(level => supported.has(level));
+  return levels.length > 0 ? (levels as [ReasoningEffort, ...ReasoningEffort[]]) : ALL_REASONING_EFFORTS;
+}
+
+// Tool parameter descriptions, generated so new backends show up automatically
+
+export function describeModelOption(purpose: ModelPurpose = 'general'): string {
+  const perBackend = getAllBackends()
+    .map(backend => {
+      const capabilities = backend.getCapabilities();
+      const defaultModel = resolveModel(capabilities, undefined, purpose) ?? capabilities.defaultModel;
+      const models = backend.getModels().map(model => (model === defaultModel ? `'${model}' (default)` : `'${model}'`));
+      return models.length > 0 ? `${backend.name}: ${models.join(', ')}` : `${backend.name}: CLI default`;
+    });
+  return `Model override. ${perBackend.join('. ')}`;
+}
+
+export function describeReasoningEffortOption(): string {
+  return `Reasoning effort level: ${getSupportedReasoningEfforts().map(level => `'${level}'`).join(', ')}. ` +
+    `Supported by: ${supportedBy(c => c.reasoningEffort.length > 0)}. Use 'high'/'xhigh' for complex tasks.`;
+}
+
+export function describeSandboxOption(): string {
+  return `Enable sandboxing. Supported by: ${supportedBy(c => c.sandbox)}. ` +
+    `For backends with sandbox policies (${supportedBy(c => c.sandboxModes.length > 0)}): false => read-only (default), true => workspace-write. ` +
+    'Ignored if sandboxMode is set.';
+}
+
+export function describeSandboxModeOption(): string {
+  return `Sandbox policy override (takes precedence over sandbox). Supported by: ${supportedBy(c => c.sandboxModes.length > 0)}. ` +
+    "Use 'danger-full-access' only with explicit opt-in.";
+}
+
+export function describeAllowedToolsOption(): string {
+  return "Tools that the AI can auto-approve without confirmation (e.g., ['run_shell_command'] for git commands). " +
+    `Supported by: ${supportedBy(c => c.allowedTools)}. Use sparingly for security.`;
+}
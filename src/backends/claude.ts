@@ -0,0 +1,356 @@
+/**
+ * Claude Backend - Executes prompts via Anthropic's Claude Code CLI
+ *
+ * Uses `claude -p` (print mode) for non-interactive execution.
+ * Supports native session resume via the session_id from stream-json output.
+ * @file references are inlined before sending, matching the Codex backend.
+ */
+
+import { spawn } from 'child_process';
+import { BackendExecutor, BackendConfig, BackendType, BackendResult, BackendCapabilities, TokenUsage } from './types.js';
+import { Logger } from '../utils/logger.js';
+import { CLAUDE_CLI, CLAUDE_OUTPUT, CLAUDE_MODELS, CONTEXT_WINDOWS } from '../constants.js';
+import { getAllowedEnv } from '../utils/envAllowlist.js';
+import { bindAbortSignal, createAbortError, killProcessTree, processGroupOptions } from '../utils/cancellation.js';
+import { startWatchdog, resolveTimeouts, TimeoutLimits } from '../utils/timeoutManager.js';
+import { getChangeModeInstructionsCondensed } from '../utils/changeModeInstructions.js';
+import { inlineFileRefs } from '../utils/fileRefInliner.js';
+import { createUsage, estimateUsage } from '../utils/tokenUsage.js';
+
+/** Parsed result from Claude stream-json output */
+interface ClaudeJsonResult {
+  response: string;
+  sessionId?: string;
+  model?: string;
+  isError?: boolean;
+  usage?: TokenUsage;
+}
+
+export class ClaudeBackend implements BackendExecutor {
+  name: BackendType = 'claude';
+
+  async execute(
+    prompt: string,
+    config: BackendConfig,
+    onProgress?: (output: string) => void
+  ): Promise<BackendResult> {
+    // Security: Validate model name to prevent argument injection
+    if (config.model && config.model.startsWith('-')) {
+      throw new Error(`Invalid model name: model cannot start with '-'`);
+    }
+    if (config.claudeSessionId && config.claudeSessionId.startsWith('-')) {
+      throw new Error(`Invalid claude session id: session id cannot start with '-'`);
+    }
+
+    const processedPrompt = await inlineFileRefs(prompt, config.cwd);
+
+    // Apply changeMode instructions if enabled
+    const finalPrompt = config.changeMode
+      ? getChangeModeInstructionsCondensed(processedPrompt)
+      : processedPrompt;
+
+    // Build args - use --resume if we have an existing session id
+    const args = this.buildArgs(config);
+
+    const result = await this.executeCommand(args, finalPrompt, onProgress, config.cwd, config.signal, config.timeouts);
+
+    if (result.isError) {
+      throw new Error(`Claude command reported an error: ${result.response || 'Unknown error'}`);
+    }
+
+    return {
+      response: result.response,
+      backend: this.name,
+      model: result.model ?? config.model ?? (config.claudeSessionId ? undefined : CLAUDE_MODELS.DEFAULT),
+      claudeSessionId: result.sessionId,
+      usage: result.usage ?? estimateUsage(finalPrompt, result.response),
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const checker = process.platform === 'win32' ? 'where' : 'which';
+      const child = spawn(checker, [CLAUDE_CLI.COMMAND]);
+      child.on('close', (code) => resolve(code === 0));
+      child.on('error', () => resolve(false));
+    });
+  }
+
+  getModels(): string[] {
+    return [
+      CLAUDE_MODELS.SONNET,
+      CLAUDE_MODELS.OPUS,
+      CLAUDE_MODELS.HAIKU,
+    ];
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return {
+      fileRefs: false,
+      sandbox: true,
+      sandboxModes: ['read-only', 'workspace-write', 'danger-full-access'],
+      reasoningEffort: [],
+      allowedTools: true,
+      nativeResume: true,
+      jsonOutput: true,
+      maxContextTokens: CONTEXT_WINDOWS.CLAUDE,
+      defaultModel: CLAUDE_MODELS.DEFAULT,
+    };
+  }
+
+  supportsFileRefs(): boolean {
+    return false; // @file references are inlined before the prompt is sent
+  }
+
+  getFileRefSyntax(): string {
+    return '';
+  }
+
+  private buildArgs(config: BackendConfig): string[] {
+    const args: string[] = [CLAUDE_CLI.FLAGS.PRINT];
+
+    // On resume, keep the session's model unless the user explicitly overrides `model`.
+    const modelToUse = config.model ?? (config.claudeSessionId ? undefined : CLAUDE_MODELS.DEFAULT);
+    if (modelToUse) {
+      args.push(CLAUDE_CLI.FLAGS.MODEL, modelToUse);
+    }
+
+    if (config.claudeSessionId) {
+      args.push(CLAUDE_CLI.FLAGS.RESUME, config.claudeSessionId);
+    }
+
+    // Map sandbox settings onto Claude permission modes.
+    // read-only keeps the default mode, where print mode cannot approve edits.
+    const sandboxMode = config.sandboxMode ?? (config.sandbox ? 'workspace-write' : 'read-only');
+    if (sandboxMode === 'workspace-write') {
+      args.push(CLAUDE_CLI.FLAGS.PERMISSION_MODE, CLAUDE_CLI.PERMISSION_MODES.ACCEPT_EDITS);
+    } else if (sandboxMode === 'danger-full-access') {
+      Logger.warn('⚠️ SECURITY: Claude permission checks bypassed (bypassPermissions)');
+      args.push(CLAUDE_CLI.FLAGS.PERMISSION_MODE, CLAUDE_CLI.PERMISSION_MODES.BYPASS);
+    }
+
+    if (config.allowedTools && config.allowedTools.length > 0) {
+      args.push(CLAUDE_CLI.FLAGS.ALLOWED_TOOLS, ...config.allowedTools);
+    }
+
+    // stream-json gives us incremental progress plus the session_id
+    args.push(
+      CLAUDE_CLI.FLAGS.OUTPUT_FORMAT,
+      CLAUDE_CLI.OUTPUT_FORMATS.STREAM_JSON,
+      CLAUDE_CLI.FLAGS.VERBOSE
+    );
+
+    return args;
+  }
+
+  /**
+   * Extracts text blocks from an assistant message event
+   */
+  private extractAssistantText(event: any): string {
+    const content = event?.message?.content;
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (!Array.isArray(content)) {
+      return '';
+    }
+    return content
+      .filter((part: any) => part?.type === 'text' && typeof part.text === 'string')
+      .map((part: any) => part.text)
+      .join('');
+  }
+
+  /**
+   * Parse stream-json output from Claude CLI
+   * Extracts session_id and model from the init event and the final answer from the result event
+   */
+  private parseJsonOutput(jsonlOutput: string): ClaudeJsonResult {
+    const allLines = jsonlOutput.trim().split('\n');
+
+    // Defensive line limit to prevent DoS via massive JSONL output
+    const lines = allLines.slice(0, CLAUDE_OUTPUT.MAX_JSONL_LINES);
+    if (allLines.length >= CLAUDE_OUTPUT.MAX_JSONL_LINES) {
+      Logger.warn(`Truncated stream-json output to ${CLAUDE_OUTPUT.MAX_JSONL_LINES} lines`);
+    }
+
+    let sessionId: string | undefined;
+    let model: string | undefined;
+    let finalResult: string | undefined;
+    let isError = false;
+    let usage: TokenUsage | undefined;
+    const assistantChunks: string[] = [];
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const event = JSON.parse(line);
+
+        if (typeof event.session_id === 'string' && !sessionId) {
+          sessionId = event.session_id;
+          Logger.debug(`Claude session: ${sessionId}`);
+        }
+
+        if (event.type === 'system' && event.subtype === 'init' && typeof event.model === 'string') {
+          model = event.model;
+        }
+
+        if (event.type === 'assistant') {
+          const text = this.extractAssistantText(event);
+          if (text) {
+            assistantChunks.push(text);
+          }
+        }
+
+        // The result event carries the final answer (and is_error on failures)
+        if (event.type === 'result') {
+          if (typeof event.result === 'string') {
+            finalResult = event.result;
+          }
+          isError = event.is_error === true || (typeof event.subtype === 'string' && event.subtype.startsWith('error'));
+          if (event.usage) {
+            // Cached input is billed separately but still part of the prompt
+            usage = createUsage({
+              promptTokens: (event.usage.input_tokens ?? 0)
+                + (event.usage.cache_creation_input_tokens ?? 0)
+                + (event.usage.cache_read_input_tokens ?? 0),
+              completionTokens: event.usage.output_tokens ?? 0,
+              costUsd: typeof event.total_cost_usd === 'number' ? event.total_cost_usd : undefined,
+            });
+          }
+        }
+      } catch {
+        // Not all lines may be valid JSON, skip them
+        Logger.debug(`Skipping non-JSON line: ${line.substring(0, 50)}...`);
+      }
+    }
+
+    const response = (finalResult ?? assistantChunks.join('\n')).trim();
+
+    if (!response && !isError) {
+      Logger.warn('No structured response found in Claude stream-json output, using raw output');
+      return { response: jsonlOutput, sessionId, model, usage };
+    }
+
+    return { response, sessionId, model, isError, usage };
+  }
+
+  private executeCommand(
+    args: string[],
+    prompt: string,
+    onProgress?: (output: string) => void,
+    cwd?: string,
+    signal?: AbortSignal,
+    timeouts?: TimeoutLimits
+  ): Promise<ClaudeJsonResult> {
+    return new Promise((resolve, reject) => {
+      const startTime = Date.now();
+      Logger.commandExecution(CLAUDE_CLI.COMMAND, args, startTime);
+
+      const childProcess = spawn(CLAUDE_CLI.COMMAND, args, {
+        env: getAllowedEnv(),
+        shell: false,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        cwd: cwd || process.cwd(),
+        ...processGroupOptions(), // Lets cancellation kill the whole process tree
+      });
+
+      // Write prompt to stdin (avoids argv length limits and shell quoting issues)
+      childProcess.stdin.write(prompt);
+      childProcess.stdin.end();
+
+      let stdout = '';
+      let stderr = '';
+      let pendingLine = '';
+      let isResolved = false;
+      let outputSizeExceeded = false;
+
+      const releaseAbort = bindAbortSignal(childProcess, signal, () => {
+        if (!isResolved) {
+          isResolved = true;
+          reject(createAbortError('Claude command cancelled'));
+        }
+      });
+
+      const watchdog = startWatchdog(resolveTimeouts(this.name, timeouts), {
+        label: 'Claude',
+        getPartialOutput: () => stdout || stderr,
+        onTimeout: (error) => {
+          killProcessTree(childProcess);
+          if (!isResolved) {
+            isResolved = true;
+            reject(error);
+          }
+        },
+      });
+
+      childProcess.stdout.on('data', (data) => {
+        watchdog.touch();
+        // Security: Prevent memory exhaustion from massive output
+        if (outputSizeExceeded) return;
+
+        const chunk = data.toString();
+        if (stdout.length + chunk.length > CLAUDE_OUTPUT.MAX_OUTPUT_SIZE) {
+          Logger.warn(`Output exceeds ${CLAUDE_OUTPUT.MAX_OUTPUT_SIZE / 1024 / 1024}MB limit, killing process`);
+          outputSizeExceeded = true;
+          killProcessTree(childProcess);
+          return;
+        }
+
+        stdout += chunk;
+
+        // Report assistant text as progress; events may span chunk boundaries
+        if (onProgress) {
+          const newLines = (pendingLine + chunk).split('\n');
+          pendingLine = newLines.pop() ?? '';
+          for (const line of newLines) {
+            if (!line.trim()) continue;
+            try {
+              const event = JSON.parse(line);
+              if (event.type === 'assistant') {
+                const text = this.extractAssistantText(event);
+                if (text) {
+                  onProgress(text);
+                }
+              }
+            } catch {
+              // Skip non-JSON lines
+            }
+          }
+        }
+      });
+
+      childProcess.stderr.on('data', (data) => {
+        watchdog.touch();
+        stderr += data.toString();
+      });
+
+      childProcess.on('error', (error) => {
+        releaseAbort();
+        watchdog.clear();
+        if (!isResolved) {
+          isResolved = true;
+          Logger.error('Process error:', error);
+          reject(new Error(`Failed to spawn claude command: ${error.message}`));
+        }
+      });
+
+      childProcess.on('close', (code) => {
+        releaseAbort();
+        watchdog.clear();
+        if (!isResolved) {
+          isResolved = true;
+          if (code === 0) {
+            Logger.commandComplete(startTime, code, stdout.length);
+            resolve(this.parseJsonOutput(stdout));
+          } else {
+            Logger.commandComplete(startTime, code);
+            Logger.error(`Claude failed with exit code ${code}`);
+            const errorMessage = stderr.trim() || 'Unknown error';
+            reject(new Error(`Claude command failed with exit code ${code}: ${errorMessage}`));
+          }
+        }
+      });
+    });
+  }
+}
@@ -7,19 +7,22 @@
  */
 
 import { spawn } from 'child_process';
-import * as fs from 'fs/promises';
-import { constants as fsConstants } from 'fs';
-import * as path from 'path';
-import { BackendExecutor, BackendConfig, BackendType, BackendResult } from './types.js';
+import { BackendExecutor, BackendConfig, BackendType, BackendResult, BackendCapabilities, TokenUsage } from './types.js';
 import { Logger } from '../utils/logger.js';
-import { CODEX_CLI, CODEX_FILE_REF, CODEX_OUTPUT, CODEX_MODELS, ERROR_MESSAGES } from '../constants.js';
+import { CODEX_CLI, CODEX_OUTPUT, CODEX_MODELS, CONTEXT_WINDOWS } from '../constants.js';
 import { getAllowedEnv } from '../utils/envAllowlist.js';
+import { bindAbortSignal, createAbortError, killProcessTree, processGroupOptions } from '../utils/cancellation.js';
+import { startWatchdog, resolveTimeouts, TimeoutLimits } from '../utils/timeoutManager.js';
 import { getChangeModeInstructionsCondensed } from '../utils/changeModeInstructions.js';
+import { inlineFileRefs } from '../utils/fileRefInliner.js';
+import { createUsage, estimateUsage, sumUsage } from '../utils/tokenUsage.js';
 
 /** Parsed result from Codex JSON output */
 interface CodexJsonResult {
   response: string;
   threadId?: string;
+  /** Summed over all turn.completed events */
+  usage?: TokenUsage;
 }
 
 export class CodexBackend implements BackendExecutor {
@@ -50,13 +53,14 @@ export class CodexBackend implements BackendExecutor {
     const args = this.buildArgs(config);
 
     // Execute and parse JSON output
-    const result = await this.executeCommand(args, finalPrompt, onProgress, config.cwd);
+    const result = await this.executeCommand(args, finalPrompt, onProgress, config.cwd, config.signal, config.timeouts);
 
     return {
       response: result.response,
       backend: this.name,
       model: config.model ?? (config.codexThreadId ? undefined : CODEX_MODELS.DEFAULT),
       codexThreadId: result.threadId,
+      usage: result.usage ?? estimateUsage(finalPrompt, result.response),
     };
   }
 
@@ -79,6 +83,20 @@ export class CodexBackend implements BackendExecutor {
     ];
   }
 
+  getCapabilities(): BackendCapabilities {
+    return {
+      fileRefs: false,
+      sandbox: true,
+      sandboxModes: Object.values(CODEX_CLI.SANDBOX_MODES),
+      reasoningEffort: Object.values(CODEX_CLI.REASONING_EFFORT),
+      allowedTools: false,
+      nativeResume: true,
+      jsonOutput: true,
+      maxContextTokens: CONTEXT_WINDOWS.CODEX,
+      defaultModel: CODEX_MODELS.DEFAULT,
+    };
+  }
+
   supportsFileRefs(): boolean {
     return false; // Codex reads files directly, doesn't use @ syntax
   }
@@ -141,202 +159,12 @@ export class CodexBackend implements BackendExecutor {
     return args;
   }
 
-  /**
-   * Validate that a resolved path is within the allowed workspace
-   * Prevents path traversal attacks including Windows drive letter escapes
-   */
-  private isPathWithinWorkspace(resolvedPath: string, workingDir: string): boolean {
-    const normalizedPath = path.normalize(resolvedPath);
-    const normalizedWorkDir = path.normalize(workingDir);
-    const relative = path.relative(normalizedWorkDir, normalizedPath);
-
-    // Check: empty string (workspace root) is allowed, doesn't escape via '..', not absolute (handles Windows drive letters)
-    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
-  }
-
   /**
    * Translate @file references to inline content
    * Codex doesn't support @ syntax, so we read files and include their content
-   * Handles paths with dots, slashes, dashes, underscores, and relative paths like @../src/file.ts
-   * Includes path traversal protection to prevent reading files outside workspace
    */
   private async translateFileRefs(prompt: string, cwd?: string): Promise<string> {
-    const workingDir = cwd || process.cwd();
-    const lexicalWorkDir = path.resolve(workingDir);
-    const canonicalWorkDir = await fs.realpath(workingDir).catch(() => lexicalWorkDir);
-    // Match @file references - handles:
-    // - Relative paths: @../src/file.ts, @./file.ts
-    // - Absolute paths: @/home/user/file.ts
-    // - Paths with special chars: @src/file-name.test.ts
-    // Stops at whitespace or another @ symbol
-    const fileRefs = prompt.match(/@(?:\.\.?\/)?[^\s@]+/g) || [];
-
-    if (fileRefs.length === 0) {
-      return prompt;
-    }
-
-    let translated = prompt;
-    const missingFiles: string[] = [];
-    const deniedFiles: string[] = [];
-
-    // Max file size: 10MB to prevent memory exhaustion
-    let totalInlinedBytes = 0;
-    const alreadyProcessedRefs = new Set<string>();
-    const alreadyProcessedTargets = new Map<string, string>();
-
-    for (const ref of fileRefs) {
-      const filePath = ref.substring(1); // Remove @ prefix
-
-      // Avoid re-reading/re-inlining the same @reference multiple times.
-      // Replace duplicates with a small pointer to the first inlined instance.
-      if (alreadyProcessedRefs.has(ref)) {
-        translated = translated.replace(
-          ref,
-          `\n--- Duplicate @reference: ${filePath} (see earlier in prompt) ---\n`
-        );
-        continue;
-      }
-      alreadyProcessedRefs.add(ref);
-
-      const absolutePath = path.isAbsolute(filePath)
-        ? filePath
-        : path.join(workingDir, filePath);
-
-      // Resolve for basic path normalization (does not follow symlinks)
-      const resolvedPath = path.resolve(absolutePath);
-
-      // Security check: Ensure path is within workspace
-      if (!this.isPathWithinWorkspace(resolvedPath, lexicalWorkDir)) {
-        deniedFiles.push(filePath);
-        Logger.warn(`Path traversal blocked for @reference: ${filePath} (resolved to ${resolvedPath})`);
-        translated = translated.replace(ref, `${ERROR_MESSAGES.ACCESS_DENIED_OUTSIDE_WORKSPACE} (${filePath})`);
-        continue;
-      }
-
-      try {
-        try {
-          await fs.access(absolutePath, fsConstants.F_OK);
-        } catch {
-          // Extra security: if file doesn't exist and path contains .., deny access.
-          // This prevents potential TOCTOU attacks where file is created after check.
-          if (filePath.includes('..')) {
-            deniedFiles.push(filePath);
-            Logger.warn(`Path traversal blocked for non-existent path with ..: ${filePath}`);
-            translated = translated.replace(ref, ERROR_MESSAGES.ACCESS_DENIED_PATH_TRAVERSAL);
-            continue;
-          }
-
-          missingFiles.push(filePath);
-          Logger.warn(`File not found for @reference: ${filePath}`);
-          translated = translated.replace(ref, `${ERROR_MESSAGES.FILE_NOT_FOUND}: ${filePath}`);
-          continue;
-        }
-
-        // Canonicalize to prevent parent-directory symlink traversal (e.g., workspace/subdir -> /etc)
-        const canonicalTargetPath = await fs.realpath(absolutePath);
-        const isSymlinkedPath =
-          path.normalize(canonicalTargetPath) !== path.normalize(path.resolve(absolutePath));
-
-        if (!this.isPathWithinWorkspace(canonicalTargetPath, canonicalWorkDir)) {
-          deniedFiles.push(filePath);
-          Logger.warn(
-            `Symlink traversal blocked for @reference: ${filePath} (realpath: ${canonicalTargetPath})`
-          );
-          translated = translated.replace(
-            ref,
-            `${isSymlinkedPath ? ERROR_MESSAGES.ACCESS_DENIED_SYMLINK_OUTSIDE_WORKSPACE : ERROR_MESSAGES.ACCESS_DENIED_OUTSIDE_WORKSPACE} (${filePath})`
-          );
-          continue;
-        }
-
-        if (alreadyProcessedTargets.has(canonicalTargetPath)) {
-          translated = translated.replace(
-            ref,
-            `\n--- Duplicate @reference: ${filePath} (see earlier in prompt) ---\n`
-          );
-          continue;
-        }
-
-        const stat = await fs.stat(canonicalTargetPath);
-
-        if (stat.isDirectory()) {
-          // For directories, list files but don't inline all content (bounded)
-          const fileNames: string[] = [];
-          let truncated = false;
-          const dir = await fs.opendir(canonicalTargetPath);
-          try {
-            while (true) {
-              const dirent = await dir.read();
-              if (!dirent) break;
-
-              if (fileNames.length < CODEX_FILE_REF.MAX_DIR_ENTRIES) {
-                fileNames.push(dirent.name);
-                continue;
-              }
-
-              truncated = true;
-              break;
-            }
-          } finally {
-            await dir.close();
-          }
-
-          const suffix = truncated ? `, ... (showing first ${CODEX_FILE_REF.MAX_DIR_ENTRIES})` : '';
-          const directoryListing = `\n--- Directory: ${filePath} ---\nFiles: ${fileNames.join(', ')}${suffix}\n--- end directory ---\n`;
-
-          const listingBytes = Buffer.byteLength(directoryListing, 'utf8');
-          if (totalInlinedBytes + listingBytes > CODEX_FILE_REF.MAX_TOTAL_BYTES) {
-            Logger.warn(`Inline limit reached while listing directory: ${filePath}`);
-            translated = translated.replace(ref, `${ERROR_MESSAGES.INLINE_LIMIT_REACHED}: ${filePath}`);
-            continue;
-          }
-
-          totalInlinedBytes += listingBytes;
-          alreadyProcessedTargets.set(canonicalTargetPath, directoryListing);
-          translated = translated.replace(ref, directoryListing);
-          continue;
-        }
-
-        // Check file size before reading
-        if (stat.size > CODEX_FILE_REF.MAX_FILE_BYTES) {
-          Logger.warn(
-            `File too large for @reference: ${filePath} (${(stat.size / 1024 / 1024).toFixed(2)}MB > 10MB limit)`
-          );
-          translated = translated.replace(
-            ref,
-            `${ERROR_MESSAGES.FILE_TOO_LARGE}: ${filePath} (${(stat.size / 1024 / 1024).toFixed(2)}MB exceeds 10MB limit)`
-          );
-          continue;
-        }
-
-        if (totalInlinedBytes + stat.size > CODEX_FILE_REF.MAX_TOTAL_BYTES) {
-          Logger.warn(`Inline limit reached; skipping file: ${filePath} (${stat.size} bytes)`);
-          translated = translated.replace(ref, `${ERROR_MESSAGES.INLINE_LIMIT_REACHED}: ${filePath}`);
-          continue;
-        }
-
-        const content = await fs.readFile(canonicalTargetPath, 'utf-8');
-        const fileBlock = `\n--- File: ${filePath} ---\n${content}\n--- end file: ${filePath} ---\n`;
-        totalInlinedBytes += stat.size;
-
-        alreadyProcessedTargets.set(canonicalTargetPath, fileBlock);
-        translated = translated.replace(ref, fileBlock);
-      } catch (error) {
-        const errMsg = error instanceof Error ? error.message : String(error);
-        Logger.error(`Error reading file ${filePath}: ${errMsg}`);
-        translated = translated.replace(ref, `${ERROR_MESSAGES.ERROR_READING_FILE}: ${filePath}`);
-      }
-    }
-
-    // Log warnings for security and missing files
-    if (deniedFiles.length > 0) {
-      Logger.warn(`Security: Blocked access to ${deniedFiles.length} file(s) outside workspace`);
-    }
-    if (missingFiles.length > 0) {
-      Logger.warn(`Missing file references: ${missingFiles.join(', ')}`);
-    }
-
-    return translated;
+    return inlineFileRefs(prompt, cwd);
   }
 
   private applyChangeModeInstructions(prompt: string): string {
@@ -358,6 +186,7 @@ export class CodexBackend implements BackendExecutor {
 
     let threadId: string | undefined;
     const responseChunks: string[] = [];
+    const turnUsages: TokenUsage[] = [];
 
     for (const line of lines) {
       if (!line.trim()) continue;
@@ -396,6 +225,16 @@ export class CodexBackend implements BackendExecutor {
           }
         }
 
+        // turn.completed carries the token usage of the turn
+        // Example: {"type":"turn.completed","usage":{"input_tokens":1200,"cached_input_tokens":800,"output_tokens":350}}
+        if (event.type === 'turn.completed' && event.usage) {
+          turnUsages.push(createUsage({
+            promptTokens: event.usage.input_tokens ?? 0,
+            completionTokens: event.usage.output_tokens ?? 0,
+            reasoningTokens: event.usage.reasoning_output_tokens,
+          }));
+        }
+
         // Also check for message content in turn.completed
         if (event.type === 'turn.completed' && event.output) {
           if (typeof event.output === 'string') {
@@ -426,6 +265,7 @@ export class CodexBackend implements BackendExecutor {
 
     // Join all response chunks
     const response = responseChunks.join('\n').trim();
+    const usage = sumUsage(turnUsages);
 
     // If no response extracted from events, use raw output minus JSON structure
     if (!response) {
@@ -437,19 +277,21 @@ export class CodexBackend implements BackendExecutor {
           const match = m.match(/"text"\s*:\s*"([^"]+)"/);
           return match ? match[1] : '';
         }).filter(Boolean);
-        return { response: extractedTexts.join('\n'), threadId };
+        return { response: extractedTexts.join('\n'), threadId, usage };
       }
-      return { response: jsonlOutput, threadId };
+      return { response: jsonlOutput, threadId, usage };
     }
 
-    return { response, threadId };
+    return { response, threadId, usage };
   }
 
   private executeCommand(
     args: string[],
     prompt: string,
     onProgress?: (output: string) => void,
-    cwd?: string
+    cwd?: string,
+    signal?: AbortSignal,
+    timeouts?: TimeoutLimits
   ): Promise<CodexJsonResult> {
     return new Promise((resolve, reject) => {
       const startTime = Date.now();
@@ -460,6 +302,7 @@ export class CodexBackend implements BackendExecutor {
         shell: false,
         stdio: ['pipe', 'pipe', 'pipe'],
         cwd: cwd || process.cwd(),
+        ...processGroupOptions(), // Lets cancellation kill the whole process tree
       });
 
       // Write prompt to stdin
@@ -471,7 +314,27 @@ export class CodexBackend implements BackendExecutor {
       let isResolved = false;
       let outputSizeExceeded = false;
 
+      const releaseAbort = bindAbortSignal(childProcess, signal, () => {
+        if (!isResolved) {
+          isResolved = true;
+          reject(createAbortError('Codex command cancelled'));
+        }
+      });
+
+      const watchdog = startWatchdog(resolveTimeouts(this.name, timeouts), {
+        label: 'Codex',
+        getPartialOutput: () => stdout || stderr,
+        onTimeout: (error) => {
+          killProcessTree(childProcess);
+          if (!isResolved) {
+            isResolved = true;
+            reject(error);
+          }
+        },
+      });
+
       childProcess.stdout.on('data', (data) => {
+        watchdog.touch();
         // Security: Prevent memory exhaustion from massive output
         if (outputSizeExceeded) return;
 
@@ -479,7 +342,7 @@ export class CodexBackend implements BackendExecutor {
         if (stdout.length + chunk.length > CODEX_OUTPUT.MAX_OUTPUT_SIZE) {
           Logger.warn(`Output exceeds ${CODEX_OUTPUT.MAX_OUTPUT_SIZE / 1024 / 1024}MB limit, killing process`);
           outputSizeExceeded = true;
-          childProcess.kill('SIGTERM');
+          killProcessTree(childProcess);
           return;
         }
 
@@ -504,10 +367,13 @@ export class CodexBackend implements BackendExecutor {
       });
 
       childProcess.stderr.on('data', (data) => {
+        watchdog.touch();
         stderr += data.toString();
       });
 
       childProcess.on('error', (error) => {
+        releaseAbort();
+        watchdog.clear();
         if (!isResolved) {
           isResolved = true;
           Logger.error('Process error:', error);
@@ -516,6 +382,8 @@ export class CodexBackend implements BackendExecutor {
       });
 
       childProcess.on('close', (code) => {
+        releaseAbort();
+        watchdog.clear();
         if (!isResolved) {
           isResolved = true;
           if (code === 0) {
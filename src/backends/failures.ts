@@ -0,0 +1,46 @@
+/**
+ * Backend failure classification
+ *
+ * Backends surface failures as plain Errors with the CLI's stderr (or HTTP
+ * status) in the message. This maps them onto a small set of kinds so callers
+ * can decide whether falling back to another backend/model makes sense.
+ */
+
+import { BackendFailureKind } from './types.js';
+import { ExecutionTimeoutError } from '../utils/timeoutManager.js';
+
+export const BACKEND_FAILURE_KINDS: [BackendFailureKind, ...BackendFailureKind[]] = [
+  'quota',
+  'auth',
+  'binary-missing',
+  'timeout',
+  'exit',
+];
+
+// Checked in order: a missing binary or quota error also carries an exit code
+const FAILURE_PATTERNS: Array<[BackendFailureKind, RegExp]> = [
+  ['binary-missing', /ENOENT|is not available|Failed to spawn|command not found|ECONNREFUSED|Failed to reach/i],
+  ['quota', /quota|RESOURCE_EXHAUSTED|rate.?limit|too many requests|HTTP 429|usage limit/i],
+  ['auth', /unauthori[sz]ed|unauthenticated|authentication|not logged in|please log ?in|invalid api key|missing api key|api key not (set|found|valid)|credentials|HTTP 40[13]/i],
+  ['timeout', /timed out|timeout|ETIMEDOUT|deadline exceeded/i],
+  ['exit', /exit code|command failed|reported an error|output limit|HTTP \d{3}/i],
+];
+
+/**
+ * Classifies a backend error
+ * @returns The failure kind, or undefined for errors that are not backend failures
+ *          (e.g. invalid arguments rejected before anything was spawned)
+ */
+export function classifyBackendFailure(error: unknown): BackendFailureKind | undefined {
+  // The message embeds partial output, which may itself match other patterns
+  if (error instanceof ExecutionTimeoutError) {
+    return 'timeout';
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  for (const [kind, pattern] of FAILURE_PATTERNS) {
+    if (pattern.test(message)) {
+      return kind;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,200 @@
+/**
+ * Fallback Executor - Retries a failed request along a configured chain
+ *
+ * Wraps the requested backend; when an attempt fails with a failure kind listed
+ * in the configured triggers, the next step of the chain is tried. Steps may
+ * name another model of the same backend or a different backend entirely, e.g.
+ * gemini-3.1-pro → gemini-3-flash → codex gpt-5.4-mini.
+ */
+
+import {
+  BackendExecutor,
+  BackendConfig,
+  BackendType,
+  BackendResult,
+  BackendCapabilities,
+  BackendFailureKind,
+  FallbackAttempt
+} from './types.js';
+import { classifyBackendFailure } from './failures.js';
+import { Logger } from '../utils/logger.js';
+import { isAbortError } from '../utils/cancellation.js';
+
+/** A step of a fallback chain (the requested backend is always the first attempt) */
+export interface FallbackCandidate {
+  backend: BackendExecutor;
+  model?: string;
+}
+
+/**
+ * Formats a backend/model pair for progress messages, e.g. "codex (gpt-5.4-mini)"
+ */
+export function describeAttempt(attempt: { backend: BackendType; model?: string }): string {
+  return attempt.model ? `${attempt.backend} (${attempt.model})` : attempt.backend;
+}
+
+/**
+ * Formats a recorded fallback path, e.g. "gemini (gemini-3.1-pro) ✗ quota → codex (gpt-5.4-mini) ✓"
+ */
+export function formatFallbackPath(path: FallbackAttempt[]): string {
+  return path
+    .map(attempt => `${describeAttempt(attempt)} ${attempt.failure ? `✗ ${attempt.failure}` : '✓'}`)
+    .join(' → ');
+}
+
+export class FallbackExecutor implements BackendExecutor {
+  name: BackendType;
+
+  /**
+   * @param primary The requested backend
+   * @param steps Candidates tried, in order, after the primary attempt fails
+   * @param triggers Failure kinds that move on to the next step
+   * @param primaryAvailable False when the primary backend's availability check failed
+   */
+  constructor(
+    private readonly primary: BackendExecutor,
+    private readonly steps: FallbackCandidate[],
+    private readonly triggers: BackendFailureKind[],
+    private readonly primaryAvailable = true
+  ) {
+    this.name = primary.name;
+  }
+
+  async execute(
+    prompt: string,
+    config: BackendConfig,
+    onProgress?: (output: string) => void
+  ): Promise<BackendResult> {
+    const candidates = this.buildCandidates(config.model);
+    const attempts: FallbackAttempt[] = [];
+
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index];
+      const attempt = {
+        backend: candidate.backend.name,
+        model: candidate.model ?? candidate.backend.getCapabilities().defaultModel,
+      };
+
+      try {
+        if (index === 0 ? !this.primaryAvailable : !(await candidate.backend.isAvailable())) {
+          throw new Error(`Backend '${candidate.backend.name}' is not available`);
+        }
+
+        const attemptConfig = index === 0 ? config : this.buildStepConfig(candidate, config);
+        // Steps start a fresh CLI session, so they need the history the resumed session held
+        const attemptPrompt = index === 0 ? prompt : config.replayPrompt ?? prompt;
+        const result = await candidate.backend.execute(attemptPrompt, attemptConfig, onProgress);
+
+        if (attempts.length === 0) {
+          return result;
+        }
+
+        attempts.push({ backend: result.backend, model: result.model ?? attempt.model });
+        Logger.warn(`Fallback path: ${formatFallbackPath(attempts)}`);
+        onProgress?.(`✅ Fallback succeeded with ${describeAttempt(attempt)}`);
+        return { ...result, fallbackPath: attempts };
+      } catch (error) {
+        // A cancelled request must not start the next step
+        if (isAbortError(error)) {
+          throw error;
+        }
+
+        const message = error instanceof Error ? error.message : String(error);
+        const failure = classifyBackendFailure(error);
+        const next = candidates[index + 1];
+
+        if (!failure || !this.triggers.includes(failure) || !next) {
+          if (attempts.length === 0) {
+            throw error;
+          }
+          attempts.push({ ...attempt, failure, error: message });
+          throw new Error(`All fallbacks failed (${formatFallbackPath(attempts)}): ${message}`);
+        }
+
+        attempts.push({ ...attempt, failure, error: message });
+        const nextAttempt = {
+          backend: next.backend.name,
+          model: next.model ?? next.backend.getCapabilities().defaultModel,
+        };
+        Logger.warn(`${describeAttempt(attempt)} failed (${failure}): ${message}. Falling back to ${describeAttempt(nextAttempt)}.`);
+        onProgress?.(`⚠️ ${describeAttempt(attempt)} failed (${failure}), falling back to ${describeAttempt(nextAttempt)}...`);
+      }
+    }
+
+    // Unreachable: the loop either returns or throws on the last candidate
+    throw new Error('Fallback chain is empty');
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.primaryAvailable || this.steps.length > 0;
+  }
+
+  getModels(): string[] {
+    return this.primary.getModels();
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return this.primary.getCapabilities();
+  }
+
+  supportsFileRefs(): boolean {
+    return this.primary.supportsFileRefs();
+  }
+
+  getFileRefSyntax(): string {
+    return this.primary.getFileRefSyntax();
+  }
+
+  /**
+   * Primary attempt first, then the chain, skipping steps that repeat an
+   * earlier backend/model pair (e.g. a Flash step when Flash was requested)
+   */
+  private buildCandidates(requestedModel?: string): FallbackCandidate[] {
+    const effectiveModel = (candidate: FallbackCandidate) =>
+      candidate.model ?? candidate.backend.getCapabilities().defaultModel;
+
+    const candidates: FallbackCandidate[] = [{ backend: this.primary, model: requestedModel }];
+    for (const step of this.steps) {
+      const isDuplicate = candidates.some(existing =>
+        existing.backend.name === step.backend.name && effectiveModel(existing) === effectiveModel(step)
+      );
+      if (!isDuplicate) {
+        candidates.push(step);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Adapts the caller's config to a fallback step: swaps the model, drops the native
+   * resume handles (the step starts a fresh CLI session) and drops options the step's
+   * backend cannot honor
+   * The boolean `sandbox` flag means isolation for Gemini but workspace-write for backends
+   * with sandbox policies (Codex, Claude), so another backend with policies gets an explicit
+   * read-only policy unless the caller chose one it supports.
+   */
+  private buildStepConfig(candidate: FallbackCandidate, config: BackendConfig): BackendConfig {
+    const capabilities = candidate.backend.getCapabilities();
+    const sameBackend = candidate.backend.name === this.primary.name;
+    const requestedMode = config.sandboxMode && capabilities.sandboxModes.includes(config.sandboxMode)
+      ? config.sandboxMode
+      : undefined;
+    const usesPolicies = !sameBackend && capabilities.sandboxModes.length > 0;
+    return {
+      ...config,
+      geminiSessionId: undefined,
+      codexThreadId: undefined,
+      claudeSessionId: undefined,
+      cliSessionIds: undefined,
+      replayPrompt: undefined,
+      provider: candidate.backend.name,
+      model: candidate.model,
+      sandbox: capabilities.sandbox && !usesPolicies ? config.sandbox : false,
+      sandboxMode: usesPolicies ? requestedMode ?? 'read-only' : requestedMode,
+      reasoningEffort: config.reasoningEffort && capabilities.reasoningEffort.includes(config.reasoningEffort)
+        ? config.reasoningEffort
+        : undefined,
+      allowedTools: capabilities.allowedTools ? config.allowedTools : undefined,
+    };
+  }
+}
@@ -1,19 +1,44 @@
 /**
  * Gemini Backend - Executes prompts via Google's Gemini CLI
+ *
+ * Requests stream-json output, which carries the served model, the answer,
+ * tool calls and token stats, plus the session_id used for native resume.
  */
 
 import { spawn } from 'child_process';
-import { BackendExecutor, BackendConfig, BackendType, BackendResult } from './types.js';
+import {
+  BackendExecutor,
+  BackendConfig,
+  BackendType,
+  BackendResult,
+  BackendCapabilities,
+  TokenUsage,
+  ToolCallRecord
+} from './types.js';
 import { Logger } from '../utils/logger.js';
 import {
-  ERROR_MESSAGES,
-  STATUS_MESSAGES,
   MODELS,
   CLI,
-  GEMINI_MODEL_ALIASES
+  CONTEXT_WINDOWS,
+  GEMINI_MODEL_ALIASES,
+  GEMINI_OUTPUT
 } from '../constants.js';
 import { getAllowedEnv } from '../utils/envAllowlist.js';
+import { bindAbortSignal, createAbortError, killProcessTree, processGroupOptions } from '../utils/cancellation.js';
+import { startWatchdog, resolveTimeouts, TimeoutLimits } from '../utils/timeoutManager.js';
 import { getChangeModeInstructions } from '../utils/changeModeInstructions.js';
+import { createUsage, estimateUsage } from '../utils/tokenUsage.js';
+
+/** Parsed result from Gemini stream-json (or json) output */
+interface GeminiJsonResult {
+  response: string;
+  sessionId?: string;
+  model?: string;
+  usage?: TokenUsage;
+  toolCalls: ToolCallRecord[];
+  /** Set when the result event reports a failure */
+  error?: string;
+}
 
 export class GeminiBackend implements BackendExecutor {
   name: BackendType = 'gemini';
@@ -39,57 +64,35 @@ export class GeminiBackend implements BackendExecutor {
     if (config.model && config.model.startsWith('-')) {
       throw new Error(`Invalid model name: model cannot start with '-'`);
     }
+    if (config.geminiSessionId && config.geminiSessionId.startsWith('-')) {
+      throw new Error(`Invalid gemini session id: session id cannot start with '-'`);
+    }
 
     let processedPrompt = prompt;
     const model = this.resolveModel(config.model);
-    const primaryModel = model;
-    let usedModel = model;
 
     // Apply changeMode instructions if enabled
     if (config.changeMode) {
       processedPrompt = this.applyChangeModeInstructions(prompt);
     }
 
+    // Quota fallback (e.g. to Flash) is handled by the configurable chain in fallback.ts
     const args = this.buildArgs(processedPrompt, { ...config, model });
+    const result = await this.executeCommand(args, onProgress, config.cwd, config.signal, config.timeouts);
 
-    try {
-      const response = await this.executeCommand(args, onProgress, config.cwd);
-      return {
-        response,
-        backend: this.name,
-        model: usedModel,
-      };
-    } catch (error) {
-      // Handle quota exceeded with fallback to Flash model
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes(ERROR_MESSAGES.QUOTA_EXCEEDED) && model !== MODELS.FLASH) {
-        Logger.warn(`${ERROR_MESSAGES.QUOTA_EXCEEDED}. Falling back to ${MODELS.FLASH}.`);
-        onProgress?.(STATUS_MESSAGES.FLASH_RETRY);
-
-        const fallbackConfig = { ...config, model: MODELS.FLASH };
-        const fallbackArgs = this.buildArgs(processedPrompt, fallbackConfig);
-        usedModel = MODELS.FLASH;
-
-        try {
-          const response = await this.executeCommand(fallbackArgs, onProgress, config.cwd);
-          Logger.warn(`Successfully executed with ${MODELS.FLASH} fallback.`);
-          onProgress?.(STATUS_MESSAGES.FLASH_SUCCESS);
-          return {
-            response,
-            backend: this.name,
-            model: usedModel,
-          };
-        } catch (fallbackError) {
-          const fallbackErrorMessage = fallbackError instanceof Error
-            ? fallbackError.message
-            : String(fallbackError);
-          throw new Error(
-            `${primaryModel} quota exceeded, ${MODELS.FLASH} fallback also failed: ${fallbackErrorMessage}`
-          );
-        }
-      }
-      throw error;
+    if (result.error) {
+      throw new Error(`Gemini command reported an error: ${result.error}`);
     }
+
+    return {
+      response: result.response,
+      backend: this.name,
+      // The CLI reports the model it actually served (aliases resolved)
+      model: result.model ?? model,
+      geminiSessionId: result.sessionId,
+      usage: result.usage ?? estimateUsage(processedPrompt, result.response),
+      ...(result.toolCalls.length > 0 ? { toolCalls: result.toolCalls } : {}),
+    };
   }
 
   async isAvailable(): Promise<boolean> {
@@ -110,6 +113,21 @@ export class GeminiBackend implements BackendExecutor {
     ];
   }
 
+  getCapabilities(): BackendCapabilities {
+    return {
+      fileRefs: true,
+      sandbox: true,
+      sandboxModes: [], // Only the boolean -s flag
+      reasoningEffort: [],
+      allowedTools: true,
+      nativeResume: true,
+      jsonOutput: true,
+      maxContextTokens: CONTEXT_WINDOWS.GEMINI,
+      defaultModel: MODELS.PRO_3,
+      defaultReviewModel: MODELS.FLASH,
+    };
+  }
+
   supportsFileRefs(): boolean {
     return true;
   }
@@ -119,12 +137,17 @@ export class GeminiBackend implements BackendExecutor {
   }
 
   private buildArgs(prompt: string, config: BackendConfig): string[] {
-    const args: string[] = [];
+    const args: string[] = [CLI.FLAGS.OUTPUT_FORMAT, CLI.OUTPUT_FORMATS.STREAM_JSON];
 
     if (config.model) {
       args.push(CLI.FLAGS.MODEL, config.model);
     }
 
+    // Resume the CLI's saved session (sessions are stored per project directory)
+    if (config.geminiSessionId) {
+      args.push(CLI.FLAGS.RESUME, config.geminiSessionId);
+    }
+
     if (config.sandbox) {
       args.push(CLI.FLAGS.SANDBOX);
     }
@@ -151,11 +174,166 @@ export class GeminiBackend implements BackendExecutor {
     return getChangeModeInstructions(processedPrompt);
   }
 
+  /**
+   * Parse stream-json output from Gemini CLI
+   * Extracts the model from the init event, the answer from assistant messages,
+   * tool calls from tool_use/tool_result and token stats from the result event.
+   * Also accepts the single-object `--output-format json` shape.
+   */
+  private parseJsonOutput(output: string): GeminiJsonResult {
+    const trimmed = output.trim();
+    const toolCalls: ToolCallRecord[] = [];
+
+    // `--output-format json`: one object with response and stats
+    if (trimmed.startsWith('{') && !trimmed.includes('\n{')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        if (typeof parsed.response === 'string' || parsed.error) {
+          const stats = this.parseStats(parsed.stats);
+          return {
+            response: (parsed.response ?? '').trim(),
+            sessionId: typeof parsed.session_id === 'string' ? parsed.session_id : undefined,
+            model: stats.model,
+            usage: stats.usage,
+            toolCalls,
+            error: parsed.error ? (parsed.error.message ?? String(parsed.error)) : undefined,
+          };
+        }
+      } catch {
+        // Not a single object - fall through to JSONL parsing
+      }
+    }
+
+    const allLines = trimmed.split('\n');
+
+    // Defensive line limit to prevent DoS via massive JSONL output
+    const lines = allLines.slice(0, GEMINI_OUTPUT.MAX_JSONL_LINES);
+    if (allLines.length >= GEMINI_OUTPUT.MAX_JSONL_LINES) {
+      Logger.warn(`Truncated stream-json output to ${GEMINI_OUTPUT.MAX_JSONL_LINES} lines`);
+    }
+
+    let sessionId: string | undefined;
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
+    let error: string | undefined;
+    let sawEvent = false;
+    const responseChunks: string[] = [];
+    const toolCallsById = new Map<string, ToolCallRecord>();
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const event = JSON.parse(line);
+        sawEvent = true;
+
+        if (event.type === 'init') {
+          if (typeof event.session_id === 'string') {
+            sessionId = event.session_id;
+            Logger.debug(`Gemini session: ${sessionId}`);
+          }
+          if (typeof event.model === 'string') {
+            model = event.model;
+          }
+        }
+
+        // Assistant text arrives as deltas; non-delta messages are separate paragraphs
+        if (event.type === 'message' && event.role === 'assistant' && typeof event.content === 'string') {
+          if (event.delta && responseChunks.length > 0) {
+            responseChunks[responseChunks.length - 1] += event.content;
+          } else {
+            responseChunks.push(event.content);
+          }
+        }
+
+        if (event.type === 'tool_use' && typeof event.tool_name === 'string') {
+          const call: ToolCallRecord = { name: event.tool_name, id: event.tool_id, args: event.parameters };
+          toolCalls.push(call);
+          if (event.tool_id) {
+            toolCallsById.set(event.tool_id, call);
+          }
+        }
+
+        if (event.type === 'tool_result' && event.tool_id) {
+          const call = toolCallsById.get(event.tool_id);
+          if (call) {
+            call.status = event.status === 'error' ? 'error' : 'success';
+            if (event.error?.message) {
+              call.error = event.error.message;
+            }
+          }
+        }
+
+        // The result event carries the stats (and the failure, if any)
+        if (event.type === 'result') {
+          const stats = this.parseStats(event.stats);
+          usage = stats.usage ?? usage;
+          model = model ?? stats.model;
+          if (event.status === 'error') {
+            error = event.error?.message ?? 'Unknown error';
+          }
+        }
+      } catch {
+        // Not all lines may be valid JSON, skip them
+        Logger.debug(`Skipping non-JSON line: ${line.substring(0, 50)}...`);
+      }
+    }
+
+    // Older CLIs without structured output print plain text
+    if (!sawEvent) {
+      Logger.warn('No structured events found in Gemini output, using raw output');
+      return { response: trimmed, toolCalls };
+    }
+
+    return { response: responseChunks.join('\n').trim(), sessionId, model, usage, toolCalls, error };
+  }
+
+  /**
+   * Reads token stats in either shape the CLI emits:
+   * stream-json `{ input_tokens, output_tokens }` or json `{ models: { <model>: { tokens: {...} } } }`
+   */
+  private parseStats(stats: any): { usage?: TokenUsage; model?: string } {
+    if (!stats || typeof stats !== 'object') {
+      return {};
+    }
+
+    if (typeof stats.input_tokens === 'number' || typeof stats.output_tokens === 'number') {
+      return {
+        usage: createUsage({
+          promptTokens: stats.input_tokens ?? 0,
+          completionTokens: stats.output_tokens ?? 0,
+          reasoningTokens: stats.thoughts_tokens,
+        }),
+      };
+    }
+
+    const models = stats.models && typeof stats.models === 'object' ? Object.entries<any>(stats.models) : [];
+    if (models.length === 0) {
+      return {};
+    }
+
+    // Several entries appear when the CLI routed part of the work to another model
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let reasoningTokens = 0;
+    for (const [, modelStats] of models) {
+      promptTokens += modelStats?.tokens?.prompt ?? 0;
+      completionTokens += (modelStats?.tokens?.candidates ?? 0) + (modelStats?.tokens?.thoughts ?? 0);
+      reasoningTokens += modelStats?.tokens?.thoughts ?? 0;
+    }
+    return {
+      usage: createUsage({ promptTokens, completionTokens, reasoningTokens }),
+      model: models[0][0],
+    };
+  }
+
   private executeCommand(
     args: string[],
     onProgress?: (output: string) => void,
-    cwd?: string
-  ): Promise<string> {
+    cwd?: string,
+    signal?: AbortSignal,
+    timeouts?: TimeoutLimits
+  ): Promise<GeminiJsonResult> {
     return new Promise((resolve, reject) => {
       const startTime = Date.now();
       Logger.commandExecution(CLI.COMMANDS.GEMINI, args, startTime);
@@ -165,24 +343,71 @@ export class GeminiBackend implements BackendExecutor {
         shell: false,
         stdio: ['ignore', 'pipe', 'pipe'],
         cwd: cwd || process.cwd(),
+        ...processGroupOptions(), // Lets cancellation kill the whole process tree
       });
 
       let stdout = '';
       let stderr = '';
       let isResolved = false;
-      let lastReportedLength = 0;
+      let outputSizeExceeded = false;
+      let pendingLine = '';
+
+      const releaseAbort = bindAbortSignal(childProcess, signal, () => {
+        if (!isResolved) {
+          isResolved = true;
+          reject(createAbortError('Gemini command cancelled'));
+        }
+      });
+
+      const watchdog = startWatchdog(resolveTimeouts(this.name, timeouts), {
+        label: 'Gemini',
+        getPartialOutput: () => stdout || stderr,
+        onTimeout: (error) => {
+          killProcessTree(childProcess);
+          if (!isResolved) {
+            isResolved = true;
+            reject(error);
+          }
+        },
+      });
 
       childProcess.stdout.on('data', (data) => {
-        stdout += data.toString();
+        watchdog.touch();
+        // Security: Prevent memory exhaustion from massive output
+        if (outputSizeExceeded) return;
 
-        if (onProgress && stdout.length > lastReportedLength) {
-          const newContent = stdout.substring(lastReportedLength);
-          lastReportedLength = stdout.length;
-          onProgress(newContent);
+        const chunk = data.toString();
+        if (stdout.length + chunk.length > GEMINI_OUTPUT.MAX_OUTPUT_SIZE) {
+          Logger.warn(`Output exceeds ${GEMINI_OUTPUT.MAX_OUTPUT_SIZE / 1024 / 1024}MB limit, killing process`);
+          outputSizeExceeded = true;
+          killProcessTree(childProcess);
+          return;
+        }
+
+        stdout += chunk;
+
+        // Report assistant text and tool calls as progress
+        if (onProgress) {
+          const lines = (pendingLine + chunk).split('\n');
+          pendingLine = lines.pop() ?? '';
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+              const event = JSON.parse(line);
+              if (event.type === 'message' && event.role === 'assistant' && event.content) {
+                onProgress(event.content);
+              } else if (event.type === 'tool_use' && event.tool_name) {
+                onProgress(`🔧 ${event.tool_name}`);
+              }
+            } catch {
+              // Skip non-JSON lines
+            }
+          }
         }
       });
 
       childProcess.stderr.on('data', (data) => {
+        watchdog.touch();
         stderr += data.toString();
         if (stderr.includes('RESOURCE_EXHAUSTED')) {
           const modelMatch = stderr.match(/Quota exceeded for quota metric '([^']+)'/);
@@ -192,6 +417,8 @@ export class GeminiBackend implements BackendExecutor {
       });
 
       childProcess.on('error', (error) => {
+        releaseAbort();
+        watchdog.clear();
         if (!isResolved) {
           isResolved = true;
           Logger.error('Process error:', error);
@@ -200,11 +427,13 @@ export class GeminiBackend implements BackendExecutor {
       });
 
       childProcess.on('close', (code) => {
+        releaseAbort();
+        watchdog.clear();
         if (!isResolved) {
           isResolved = true;
           if (code === 0) {
             Logger.commandComplete(startTime, code, stdout.length);
-            resolve(stdout.trim());
+            resolve(this.parseJsonOutput(stdout));
           } else {
             Logger.commandComplete(startTime, code);
             Logger.error(`Failed with exit code ${code}`);
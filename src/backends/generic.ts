@@ -0,0 +1,405 @@
+/**
+ * Generic CLI Backend - Executes prompts via any LLM CLI described in config
+ *
+ * Instead of writing a class per CLI, a backend is declared in the server
+ * config (see serverConfig.ts): binary, model flag, how the prompt is passed,
+ * how to read the response and how to extract/resume a session id.
+ */
+
+import { spawn } from 'child_process';
+import { z } from 'zod';
+import { BackendExecutor, BackendConfig, BackendType, BackendResult, BackendCapabilities } from './types.js';
+import { Logger } from '../utils/logger.js';
+import { GENERIC_CLI, CONTEXT_WINDOWS } from '../constants.js';
+import { getAllowedEnv } from '../utils/envAllowlist.js';
+import { bindAbortSignal, createAbortError, killProcessTree, processGroupOptions } from '../utils/cancellation.js';
+import { startWatchdog, resolveTimeouts, TimeoutLimits } from '../utils/timeoutManager.js';
+import { getChangeModeInstructionsCondensed } from '../utils/changeModeInstructions.js';
+import { inlineFileRefs } from '../utils/fileRefInliner.js';
+import { estimateUsage } from '../utils/tokenUsage.js';
+
+/**
+ * Declarative description of a generic CLI backend
+ */
+export const genericBackendDefinitionSchema = z.object({
+  /** Backend name used in the tools' `backend` parameter */
+  name: z.string().regex(/^[a-z][a-z0-9-]{0,31}$/, 'must be lowercase letters, digits or hyphens'),
+  /** Binary to spawn (resolved via PATH) */
+  command: z.string().min(1),
+  /** Extra arguments always passed before the generated ones */
+  args: z.array(z.string()).default([]),
+  /** Flag used to select a model, e.g. "--model" */
+  modelFlag: z.string().optional(),
+  /** Model used when the caller does not pass one */
+  defaultModel: z.string().optional(),
+  /** Models advertised to callers */
+  models: z.array(z.string()).default([]),
+  prompt: z
+    .object({
+      /** Send the prompt on stdin, or as the value of `flag` */
+      mode: z.enum(['stdin', 'flag']),
+      flag: z.string().optional(),
+      /** Pass `flag=<prompt>` as one argument, for CLIs that accept that form */
+      joinFlag: z.boolean().default(false),
+    })
+    .refine(p => p.mode === 'stdin' || !!p.flag, { message: "prompt.flag is required when mode is 'flag'" })
+    .default({ mode: 'stdin' }),
+  output: z
+    .object({
+      /** Plain text stdout, or one JSON event per line */
+      format: z.enum(['text', 'jsonl']),
+      /** Dot path to the response text inside each JSONL event, e.g. "item.text" */
+      responsePath: z.string().optional(),
+      /** Only read responses from events whose `type` equals this value */
+      eventType: z.string().optional(),
+    })
+    .refine(o => o.format === 'text' || !!o.responsePath, { message: "output.responsePath is required for 'jsonl'" })
+    .default({ format: 'text' }),
+  session: z
+    .object({
+      /** Dot path to the session id inside a JSONL event, e.g. "session_id" */
+      idPath: z.string().optional(),
+      /** Regex with one capture group, applied to stdout and stderr */
+      idPattern: z.string().optional(),
+      /** Flag used to resume a session, e.g. "--resume" */
+      resumeFlag: z.string(),
+    })
+    .refine(s => !!s.idPath || !!s.idPattern, { message: 'session needs idPath or idPattern' })
+    .optional(),
+  /** Whether the CLI understands @file references natively */
+  fileRefs: z.enum(['native', 'inline']).default('inline'),
+  /** Context window of the CLI's models, in tokens */
+  maxContextTokens: z.number().int().positive().default(CONTEXT_WINDOWS.GENERIC),
+  /** Shown when the binary is missing */
+  installHint: z.string().optional(),
+});
+
+export type GenericBackendDefinition = z.infer<typeof genericBackendDefinitionSchema>;
+
+/** Parsed result from a generic CLI run */
+interface GenericCliResult {
+  response: string;
+  sessionId?: string;
+}
+
+/**
+ * Reads a dot-separated path (e.g. "item.content.0.text") from a parsed JSON value
+ */
+export function readJsonPath(value: unknown, jsonPath: string): unknown {
+  let current: any = value;
+  for (const segment of jsonPath.split('.')) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+export class GenericCliBackend implements BackendExecutor {
+  name: BackendType;
+
+  constructor(private readonly definition: GenericBackendDefinition) {
+    this.name = definition.name;
+  }
+
+  async execute(
+    prompt: string,
+    config: BackendConfig,
+    onProgress?: (output: string) => void
+  ): Promise<BackendResult> {
+    // Security: Validate model name to prevent argument injection
+    if (config.model && config.model.startsWith('-')) {
+      throw new Error(`Invalid model name: model cannot start with '-'`);
+    }
+    const resumeId = config.cliSessionIds?.[this.name];
+    if (resumeId && resumeId.startsWith('-')) {
+      throw new Error(`Invalid ${this.name} session id: session id cannot start with '-'`);
+    }
+
+    const processedPrompt = this.definition.fileRefs === 'native'
+      ? prompt
+      : await inlineFileRefs(prompt, config.cwd);
+
+    // Apply changeMode instructions if enabled
+    const finalPrompt = config.changeMode
+      ? getChangeModeInstructionsCondensed(processedPrompt)
+      : processedPrompt;
+
+    const args = this.buildArgs(finalPrompt, config);
+    const stdinPrompt = this.definition.prompt.mode === 'stdin' ? finalPrompt : undefined;
+    const result = await this.executeCommand(args, stdinPrompt, onProgress, config.cwd, config.signal, config.timeouts);
+
+    return {
+      response: result.response,
+      backend: this.name,
+      model: config.model || this.definition.defaultModel,
+      ...(result.sessionId ? { cliSessionIds: { [this.name]: result.sessionId } } : {}),
+      usage: estimateUsage(finalPrompt, result.response),
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const checker = process.platform === 'win32' ? 'where' : 'which';
+      const child = spawn(checker, [this.definition.command]);
+      child.on('close', (code) => resolve(code === 0));
+      child.on('error', () => resolve(false));
+    });
+  }
+
+  getModels(): string[] {
+    const { defaultModel, models } = this.definition;
+    return defaultModel ? [...new Set([defaultModel, ...models])] : [...models];
+  }
+
+  getCapabilities(): BackendCapabilities {
+    const { definition } = this;
+    return {
+      fileRefs: definition.fileRefs === 'native',
+      sandbox: false,
+      sandboxModes: [],
+      reasoningEffort: [],
+      allowedTools: false,
+      nativeResume: !!definition.session,
+      jsonOutput: definition.output.format === 'jsonl',
+      maxContextTokens: definition.maxContextTokens,
+      defaultModel: definition.defaultModel,
+    };
+  }
+
+  supportsFileRefs(): boolean {
+    return this.definition.fileRefs === 'native';
+  }
+
+  getFileRefSyntax(): string {
+    return this.definition.fileRefs === 'native' ? '@' : '';
+  }
+
+  /**
+   * Setup hint shown when the binary is missing
+   */
+  getInstallHint(): string {
+    return this.definition.installHint ?? `Please install '${this.definition.command}' and make sure it is on PATH.`;
+  }
+
+  private buildArgs(prompt: string, config: BackendConfig): string[] {
+    const { definition } = this;
+    const args = [...definition.args];
+
+    const model = config.model || definition.defaultModel;
+    if (model && definition.modelFlag) {
+      args.push(definition.modelFlag, model);
+    }
+
+    const resumeId = config.cliSessionIds?.[this.name];
+    if (resumeId && definition.session) {
+      args.push(definition.session.resumeFlag, resumeId);
+    }
+
+    if (definition.prompt.mode === 'flag') {
+      const { flag, joinFlag } = definition.prompt;
+      if (joinFlag) {
+        args.push(`${flag}=${prompt}`);
+      } else if (prompt.startsWith('-')) {
+        // Security: a separate value starting with '-' would be read as another option
+        throw new Error(
+          `Invalid prompt: a prompt passed with ${flag} cannot start with '-' ` +
+          `(set prompt.joinFlag if ${definition.command} accepts ${flag}=<value>)`
+        );
+      } else {
+        args.push(flag!, prompt);
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Extracts the response text and session id from raw CLI output
+   */
+  private parseOutput(stdout: string, stderr: string): GenericCliResult {
+    const { output, session } = this.definition;
+    let sessionId: string | undefined;
+    let response = stdout.trim();
+
+    if (output.format === 'jsonl') {
+      const allLines = stdout.trim().split('\n');
+      const lines = allLines.slice(0, GENERIC_CLI.MAX_JSONL_LINES);
+      if (allLines.length > GENERIC_CLI.MAX_JSONL_LINES) {
+        Logger.warn(`Truncated JSONL output to ${GENERIC_CLI.MAX_JSONL_LINES} lines`);
+      }
+
+      const chunks: string[] = [];
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const event = JSON.parse(line);
+          if (!sessionId && session?.idPath) {
+            const id = readJsonPath(event, session.idPath);
+            if (typeof id === 'string' && id.length > 0) {
+              sessionId = id;
+            }
+          }
+          const text = this.readResponseText(event);
+          if (text) {
+            chunks.push(text);
+          }
+        } catch {
+          Logger.debug(`Skipping non-JSON line: ${line.substring(0, 50)}...`);
+        }
+      }
+
+      if (chunks.length > 0) {
+        response = chunks.join('\n').trim();
+      } else {
+        Logger.warn(`No response found at '${output.responsePath}' in ${this.name} output, using raw output`);
+      }
+    }
+
+    if (!sessionId && session?.idPattern) {
+      try {
+        const match = new RegExp(session.idPattern).exec(`${stdout}\n${stderr}`);
+        if (match?.[1]) {
+          sessionId = match[1];
+        }
+      } catch (error) {
+        Logger.warn(`Invalid session idPattern for ${this.name}: ${error}`);
+      }
+    }
+
+    return { response, sessionId };
+  }
+
+  private readResponseText(event: any): string | undefined {
+    const { output } = this.definition;
+    if (output.eventType && event?.type !== output.eventType) {
+      return undefined;
+    }
+    const text = readJsonPath(event, output.responsePath!);
+    return typeof text === 'string' && text.length > 0 ? text : undefined;
+  }
+
+  private executeCommand(
+    args: string[],
+    stdinPrompt: string | undefined,
+    onProgress?: (output: string) => void,
+    cwd?: string,
+    signal?: AbortSignal,
+    timeouts?: TimeoutLimits
+  ): Promise<GenericCliResult> {
+    return new Promise((resolve, reject) => {
+      const { command, output } = this.definition;
+      const startTime = Date.now();
+      Logger.commandExecution(command, args, startTime);
+
+      const childProcess = spawn(command, args, {
+        env: getAllowedEnv(),
+        shell: false,
+        stdio: [stdinPrompt !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+        cwd: cwd || process.cwd(),
+        ...processGroupOptions(), // Lets cancellation kill the whole process tree
+      });
+
+      if (stdinPrompt !== undefined) {
+        childProcess.stdin!.write(stdinPrompt);
+        childProcess.stdin!.end();
+      }
+
+      let stdout = '';
+      let stderr = '';
+      let pendingLine = '';
+      let isResolved = false;
+      let outputSizeExceeded = false;
+
+      const releaseAbort = bindAbortSignal(childProcess, signal, () => {
+        if (!isResolved) {
+          isResolved = true;
+          reject(createAbortError(`${command} command cancelled`));
+        }
+      });
+
+      const watchdog = startWatchdog(resolveTimeouts(this.name, timeouts), {
+        label: command,
+        getPartialOutput: () => stdout || stderr,
+        onTimeout: (error) => {
+          killProcessTree(childProcess);
+          if (!isResolved) {
+            isResolved = true;
+            reject(error);
+          }
+        },
+      });
+
+      childProcess.stdout!.on('data', (data) => {
+        watchdog.touch();
+        // Security: Prevent memory exhaustion from massive output
+        if (outputSizeExceeded) return;
+
+        const chunk = data.toString();
+        if (stdout.length + chunk.length > GENERIC_CLI.MAX_OUTPUT_SIZE) {
+          Logger.warn(`Output exceeds ${GENERIC_CLI.MAX_OUTPUT_SIZE / 1024 / 1024}MB limit, killing process`);
+          outputSizeExceeded = true;
+          killProcessTree(childProcess);
+          return;
+        }
+
+        stdout += chunk;
+
+        if (!onProgress) return;
+
+        if (output.format === 'text') {
+          onProgress(chunk);
+          return;
+        }
+
+        // JSONL: report response text from complete events
+        const lines = (pendingLine + chunk).split('\n');
+        pendingLine = lines.pop() ?? '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          try {
+            const text = this.readResponseText(JSON.parse(line));
+            if (text) {
+              onProgress(text);
+            }
+          } catch {
+            // Skip non-JSON lines
+          }
+        }
+      });
+
+      childProcess.stderr!.on('data', (data) => {
+        watchdog.touch();
+        stderr += data.toString();
+      });
+
+      childProcess.on('error', (error) => {
+        releaseAbort();
+        watchdog.clear();
+        if (!isResolved) {
+          isResolved = true;
+          Logger.error('Process error:', error);
+          reject(new Error(`Failed to spawn ${command} command: ${error.message}`));
+        }
+      });
+
+      childProcess.on('close', (code) => {
+        releaseAbort();
+        watchdog.clear();
+        if (!isResolved) {
+          isResolved = true;
+          if (code === 0) {
+            Logger.commandComplete(startTime, code, stdout.length);
+            resolve(this.parseOutput(stdout, stderr));
+          } else {
+            Logger.commandComplete(startTime, code);
+            Logger.error(`${command} failed with exit code ${code}`);
+            const errorMessage = stderr.trim() || 'Unknown error';
+            reject(new Error(`${command} command failed with exit code ${code}: ${errorMessage}`));
+          }
+        }
+      });
+    });
+  }
+}
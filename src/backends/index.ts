@@ -1,19 +1,61 @@
 /**
- * Backends module - Dual-backend support for Gemini and Codex CLI
+ * Backends module - Multi-backend support for Gemini, Codex, Claude Code CLI
+ * and local OpenAI-compatible servers
  */
 
 // Types
-export type { BackendType, BackendConfig, BackendExecutor, BackendResult } from './types.js';
+export type {
+  BackendType,
+  BuiltinBackendType,
+  BackendConfig,
+  BackendExecutor,
+  BackendResult,
+  BackendCapabilities,
+  SandboxMode,
+  ReasoningEffort,
+  BackendFailureKind,
+  FallbackAttempt,
+  TokenUsage,
+  ToolCallRecord,
+  NativeSessionHandles
+} from './types.js';
 
 // Implementations
 export { GeminiBackend } from './gemini.js';
 export { CodexBackend } from './codex.js';
+export { ClaudeBackend } from './claude.js';
+export { OpenAICompatibleBackend } from './openaiCompatible.js';
+export { GenericCliBackend } from './generic.js';
+export { FallbackExecutor, formatFallbackPath } from './fallback.js';
+export { PooledExecutor } from './pooled.js';
+export { classifyBackendFailure } from './failures.js';
+export type { GenericBackendDefinition } from './generic.js';
 
 // Registry
 export {
   getBackend,
   getBackendSync,
+  getBackendNames,
+  getBackendCapabilities,
   isBackendAvailable,
   getAllBackends,
   getAvailableBackends
 } from './registry.js';
+
+// Capability-derived validation and defaults
+export {
+  validateBackendOptions,
+  resolveModel,
+  getBackendsSupporting
+} from './capabilities.js';
+export type { RequestedBackendOptions, ModelPurpose } from './capabilities.js';
+
+// Native session resume helpers
+export {
+  pickSessionHandles,
+  storeSessionHandles,
+  describeSessionHandles,
+  getResumeHandle,
+  isResumeFailure,
+  executeWithResume
+} from './sessionHandles.js';
@@ -0,0 +1,348 @@
+/**
+ * Local Backend - Talks to an OpenAI-compatible /v1/chat/completions endpoint
+ *
+ * Works with Ollama, llama.cpp server, vLLM and similar servers, so the bridge
+ * can run on air-gapped machines against a local model. No CLI is spawned.
+ * Configured via LLM_CLI_BRIDGE_LOCAL_BASE_URL / _MODEL / _API_KEY.
+ * @file references are inlined before sending, matching the Codex backend.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { BackendExecutor, BackendConfig, BackendType, BackendResult, BackendCapabilities, TokenUsage } from './types.js';
+import { Logger } from '../utils/logger.js';
+import { LOCAL_LLM, CONTEXT_WINDOWS } from '../constants.js';
+import { getChangeModeInstructionsCondensed } from '../utils/changeModeInstructions.js';
+import { inlineFileRefs } from '../utils/fileRefInliner.js';
+import { createAbortError } from '../utils/cancellation.js';
+import { createUsage, estimateUsage } from '../utils/tokenUsage.js';
+import { ExecutionTimeoutError, startWatchdog, resolveTimeouts, TimeoutLimits } from '../utils/timeoutManager.js';
+
+/** Connection settings for an OpenAI-compatible server */
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  defaultModel: string;
+  apiKey?: string;
+  /** Context window of the served model, in tokens */
+  maxContextTokens?: number;
+}
+
+/** Parsed result from a streamed chat completion */
+interface ChatCompletionResult {
+  response: string;
+  model?: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Reads connection settings from the environment
+ */
+export function getLocalSettingsFromEnv(): OpenAICompatibleSettings {
+  return {
+    baseUrl: process.env[LOCAL_LLM.ENV.BASE_URL] || LOCAL_LLM.DEFAULTS.BASE_URL,
+    defaultModel: process.env[LOCAL_LLM.ENV.MODEL] || LOCAL_LLM.DEFAULTS.MODEL,
+    apiKey: process.env[LOCAL_LLM.ENV.API_KEY] || undefined,
+    maxContextTokens: parseInt(process.env[LOCAL_LLM.ENV.CONTEXT_TOKENS] || '', 10) || undefined,
+  };
+}
+
+export class OpenAICompatibleBackend implements BackendExecutor {
+  name: BackendType = 'local';
+
+  /** Models reported by the server's /models endpoint (refreshed by isAvailable) */
+  private discoveredModels: string[] = [];
+
+  constructor(private readonly settings: OpenAICompatibleSettings = getLocalSettingsFromEnv()) {}
+
+  async execute(
+    prompt: string,
+    config: BackendConfig,
+    onProgress?: (output: string) => void
+  ): Promise<BackendResult> {
+    const processedPrompt = await inlineFileRefs(prompt, config.cwd);
+
+    // Apply changeMode instructions if enabled
+    const finalPrompt = config.changeMode
+      ? getChangeModeInstructionsCondensed(processedPrompt)
+      : processedPrompt;
+
+    const requestedModel = config.model || this.settings.defaultModel;
+    const body = JSON.stringify({
+      model: requestedModel,
+      messages: [{ role: 'user', content: finalPrompt }],
+      stream: true,
+      // Asks for a final chunk with token usage (ignored by servers that do not support it)
+      stream_options: { include_usage: true },
+    });
+
+    const result = await this.streamChatCompletion(body, onProgress, config.signal, config.timeouts);
+
+    return {
+      response: result.response,
+      backend: this.name,
+      // Report the model the server says it used (may resolve aliases/tags)
+      model: result.model || requestedModel,
+      usage: result.usage ?? estimateUsage(finalPrompt, result.response),
+    };
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const raw = await this.request('GET', LOCAL_LLM.PATHS.MODELS, undefined, LOCAL_LLM.AVAILABILITY_TIMEOUT);
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed?.data)) {
+        this.discoveredModels = parsed.data
+          .map((entry: any) => entry?.id)
+          .filter((id: unknown): id is string => typeof id === 'string');
+      }
+      return true;
+    } catch (error) {
+      Logger.debug(`Local backend unavailable at ${this.settings.baseUrl}: ${error}`);
+      return false;
+    }
+  }
+
+  getModels(): string[] {
+    return [...new Set([this.settings.defaultModel, ...this.discoveredModels])];
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return {
+      fileRefs: false,
+      sandbox: false, // Plain chat completion; the model cannot touch the filesystem
+      sandboxModes: [],
+      reasoningEffort: [],
+      allowedTools: false,
+      nativeResume: false,
+      jsonOutput: true,
+      maxContextTokens: this.settings.maxContextTokens ?? CONTEXT_WINDOWS.LOCAL,
+      defaultModel: this.settings.defaultModel,
+    };
+  }
+
+  supportsFileRefs(): boolean {
+    return false; // @file references are inlined before the prompt is sent
+  }
+
+  getFileRefSyntax(): string {
+    return '';
+  }
+
+  /**
+   * Builds the full URL for an API path, preserving any base path (e.g. /v1)
+   */
+  private buildUrl(apiPath: string): URL {
+    const base = this.settings.baseUrl.replace(/\/+$/, '');
+    return new URL(`${base}${apiPath}`);
+  }
+
+  private buildHeaders(body?: string): Record<string, string> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      headers['Content-Length'] = String(Buffer.byteLength(body));
+    }
+    if (this.settings.apiKey) {
+      headers.Authorization = `Bearer ${this.settings.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * Parses Server-Sent Events lines from a streamed chat completion
+   * @returns The text deltas and model reported in the given lines
+   */
+  private parseStreamLines(lines: string[]): { deltas: string[]; model?: string; usage?: TokenUsage; done: boolean } {
+    const deltas: string[] = [];
+    let model: string | undefined;
+    let usage: TokenUsage | undefined;
+    let done = false;
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
+      if (!line.startsWith('data:')) continue;
+
+      const payload = line.slice('data:'.length).trim();
+      if (payload === '[DONE]') {
+        done = true;
+        continue;
+      }
+
+      try {
+        const event = JSON.parse(payload);
+        if (typeof event.model === 'string') {
+          model = event.model;
+        }
+        if (event.usage) {
+          usage = createUsage({
+            promptTokens: event.usage.prompt_tokens ?? 0,
+            completionTokens: event.usage.completion_tokens ?? 0,
+            reasoningTokens: event.usage.completion_tokens_details?.reasoning_tokens,
+          });
+        }
+        const delta = event.choices?.[0]?.delta?.content ?? event.choices?.[0]?.message?.content;
+        if (typeof delta === 'string' && delta.length > 0) {
+          deltas.push(delta);
+        }
+      } catch {
+        Logger.debug(`Skipping non-JSON SSE line: ${line.substring(0, 50)}...`);
+      }
+    }
+
+    return { deltas, model, usage, done };
+  }
+
+  private streamChatCompletion(
+    body: string,
+    onProgress?: (output: string) => void,
+    signal?: AbortSignal,
+    timeouts?: TimeoutLimits
+  ): Promise<ChatCompletionResult> {
+    return new Promise((resolve, reject) => {
+      const url = this.buildUrl(LOCAL_LLM.PATHS.CHAT_COMPLETIONS);
+      const transport = url.protocol === 'https:' ? https : http;
+      const startTime = Date.now();
+      Logger.commandExecution('POST', [url.toString()], startTime);
+
+      let responseText = '';
+      let timeoutError: ExecutionTimeoutError | undefined;
+      let outputSizeExceeded = false;
+
+      // Cancellation and timeouts take precedence over the socket error they cause
+      const rejectWith = (error: Error) => {
+        watchdog.clear();
+        if (timeoutError) {
+          reject(timeoutError);
+        } else if (signal?.aborted) {
+          reject(createAbortError('Local model request cancelled'));
+        } else {
+          reject(error);
+        }
+      };
+
+      const req = transport.request(url, { method: 'POST', headers: this.buildHeaders(body), signal }, (res) => {
+        const status = res.statusCode ?? 0;
+        let errorBody = '';
+        let pending = '';
+        let model: string | undefined;
+        let usage: TokenUsage | undefined;
+        let isResolved = false;
+
+        if (status < 200 || status >= 300) {
+          res.on('data', (data) => { errorBody += data.toString(); });
+          res.on('end', () => {
+            Logger.commandComplete(startTime, status);
+            rejectWith(new Error(`Local model request failed with HTTP ${status}: ${errorBody.trim() || 'Unknown error'}`));
+          });
+          return;
+        }
+
+        const finish = () => {
+          if (isResolved) return;
+          isResolved = true;
+          if (timeoutError || signal?.aborted) {
+            rejectWith(createAbortError());
+            return;
+          }
+          watchdog.clear();
+          // Flush a trailing event without a newline
+          const tail = this.parseStreamLines([pending]);
+          responseText += tail.deltas.join('');
+          model = tail.model ?? model;
+          usage = tail.usage ?? usage;
+          Logger.commandComplete(startTime, 0, responseText.length);
+          resolve({ response: responseText.trim(), model, usage });
+        };
+
+        res.on('data', (data) => {
+          watchdog.touch();
+          const lines = (pending + data.toString()).split('\n');
+          pending = lines.pop() ?? '';
+
+          const parsed = this.parseStreamLines(lines);
+          model = parsed.model ?? model;
+          usage = parsed.usage ?? usage;
+          for (const delta of parsed.deltas) {
+            if (responseText.length + delta.length > LOCAL_LLM.MAX_OUTPUT_SIZE) {
+              // A cut-off answer must not pass for a complete one
+              const limit = `${LOCAL_LLM.MAX_OUTPUT_SIZE / 1024 / 1024}MB`;
+              Logger.warn(`Output exceeds ${limit} limit, aborting request`);
+              outputSizeExceeded = true;
+              isResolved = true;
+              rejectWith(new Error(`Local model response exceeded the ${limit} output limit`));
+              req.destroy();
+              return;
+            }
+            responseText += delta;
+            onProgress?.(delta);
+          }
+          if (parsed.done) {
+            finish();
+          }
+        });
+
+        res.on('end', finish);
+        res.on('error', (error) => {
+          if (!isResolved) {
+            isResolved = true;
+            rejectWith(new Error(`Local model stream failed: ${error.message}`));
+          }
+        });
+      });
+
+      const watchdog = startWatchdog(resolveTimeouts(this.name, timeouts), {
+        label: 'Local model',
+        getPartialOutput: () => responseText,
+        onTimeout: (error) => {
+          timeoutError = error;
+          req.destroy(error);
+        },
+      });
+
+      req.on('error', (error) => {
+        if (outputSizeExceeded) {
+          return;
+        }
+        if (!timeoutError && !signal?.aborted) {
+          Logger.error('Local model request error:', error);
+        }
+        rejectWith(new Error(`Failed to reach local model server at ${this.settings.baseUrl}: ${error.message}`));
+      });
+
+      req.write(body);
+      req.end();
+    });
+  }
+
+  /**
+   * Performs a simple non-streaming request and returns the response body
+   */
+  private request(method: string, apiPath: string, body?: string, timeoutMs?: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const url = this.buildUrl(apiPath);
+      const transport = url.protocol === 'https:' ? https : http;
+
+      const req = transport.request(url, { method, headers: this.buildHeaders(body) }, (res) => {
+        let data = '';
+        res.on('data', (chunk) => { data += chunk.toString(); });
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve(data);
+          } else {
+            reject(new Error(`HTTP ${status}: ${data.trim()}`));
+          }
+        });
+      });
+
+      if (timeoutMs) {
+        req.setTimeout(timeoutMs, () => req.destroy(new Error(`Request timed out after ${timeoutMs}ms`)));
+      }
+      req.on('error', reject);
+      if (body !== undefined) {
+        req.write(body);
+      }
+      req.end();
+    });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Pooled Executor - Runs a backend inside its concurrency pool
+ *
+ * Every execution (including fallback steps) waits for a slot in the pool of
+ * the backend that actually runs, so parallel requests queue instead of
+ * spawning unbounded CLI processes. Successful executions are added to the
+ * daily token totals of that backend.
+ */
+
+import {
+  BackendExecutor,
+  BackendConfig,
+  BackendType,
+  BackendResult,
+  BackendCapabilities
+} from './types.js';
+import { getConcurrencyPool, formatQueueStatus } from '../utils/concurrencyPool.js';
+import { recordDailyUsage } from '../utils/tokenUsage.js';
+
+export class PooledExecutor implements BackendExecutor {
+  name: BackendType;
+
+  constructor(private readonly inner: BackendExecutor) {
+    this.name = inner.name;
+  }
+
+  async execute(
+    prompt: string,
+    config: BackendConfig,
+    onProgress?: (output: string) => void
+  ): Promise<BackendResult> {
+    const queuedAt = Date.now();
+    let wasQueued = false;
+
+    const release = await getConcurrencyPool(this.name).acquire({
+      signal: config.signal,
+      onQueueUpdate: (status) => {
+        wasQueued = true;
+        onProgress?.(formatQueueStatus(status));
+      },
+    });
+
+    try {
+      if (wasQueued) {
+        onProgress?.(`▶️ Starting ${this.name} after ${Math.round((Date.now() - queuedAt) / 1000)}s in queue`);
+      }
+      const result = await this.inner.execute(prompt, config, onProgress);
+      await recordDailyUsage(result.backend, result.usage);
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  getModels(): string[] {
+    return this.inner.getModels();
+  }
+
+  getCapabilities(): BackendCapabilities {
+    return this.inner.getCapabilities();
+  }
+
+  supportsFileRefs(): boolean {
+    return this.inner.supportsFileRefs();
+  }
+
+  getFileRefSyntax(): string {
+    return this.inner.getFileRefSyntax();
+  }
+}
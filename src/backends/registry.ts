@@ -1,52 +1,125 @@
 /**
  * Backend Registry - Manages available AI backends
  *
- * Defaults to Gemini. User must explicitly pass 'codex' to use Codex backend.
+ * Defaults to Gemini. User must explicitly pass 'codex', 'claude', 'local' or
+ * a config-defined generic backend name to use another backend.
  */
 
-import { BackendExecutor, BackendType } from './types.js';
+import { BackendExecutor, BackendType, BuiltinBackendType, BackendCapabilities } from './types.js';
 import { GeminiBackend } from './gemini.js';
 import { CodexBackend } from './codex.js';
+import { ClaudeBackend } from './claude.js';
+import { OpenAICompatibleBackend } from './openaiCompatible.js';
+import { GenericCliBackend } from './generic.js';
+import { FallbackExecutor, FallbackCandidate } from './fallback.js';
+import { PooledExecutor } from './pooled.js';
 import { Logger } from '../utils/logger.js';
+import { getServerConfig } from '../utils/serverConfig.js';
+import { configureTimeouts } from '../utils/timeoutManager.js';
+import { configureConcurrency } from '../utils/concurrencyPool.js';
+import { configureBudgets } from '../utils/budgetGuard.js';
+import { LOCAL_LLM } from '../constants.js';
 
 // Initialize backends
 const geminiBackend = new GeminiBackend();
 const codexBackend = new CodexBackend();
+const claudeBackend = new ClaudeBackend();
+const localBackend = new OpenAICompatibleBackend();
 
 const backends = new Map<BackendType, BackendExecutor>([
   ['gemini', geminiBackend],
   ['codex', codexBackend],
+  ['claude', claudeBackend],
+  ['local', localBackend],
 ]);
 
+// Setup instructions shown when a backend is not available
+const SETUP_HINTS: Map<BackendType, string> = new Map(Object.entries({
+  gemini: 'Please install the gemini CLI first.\nInstall Gemini CLI: https://github.com/google-gemini/gemini-cli',
+  codex: 'Please install the codex CLI first.\nInstall Codex CLI: npm install -g @openai/codex',
+  claude: 'Please install the claude CLI first.\nInstall Claude Code CLI: npm install -g @anthropic-ai/claude-code',
+  local:
+    'Please start an OpenAI-compatible server first (e.g. `ollama serve`).\n' +
+    `Set ${LOCAL_LLM.ENV.BASE_URL} if it is not listening on ${LOCAL_LLM.DEFAULTS.BASE_URL}`,
+} satisfies Record<BuiltinBackendType, string>));
+
+// Per-backend/per-tool execution limits and budgets from the server config
+configureTimeouts(getServerConfig().timeouts);
+configureConcurrency(getServerConfig().concurrency);
+configureBudgets(getServerConfig().budgets);
+
+// Register generic CLI backends declared in the server config
+for (const definition of getServerConfig().backends) {
+  if (backends.has(definition.name)) {
+    Logger.warn(`Skipping configured backend '${definition.name}': name is already registered`);
+    continue;
+  }
+  const genericBackend = new GenericCliBackend(definition);
+  backends.set(definition.name, genericBackend);
+  SETUP_HINTS.set(definition.name, genericBackend.getInstallHint());
+  Logger.debug(`Registered generic CLI backend: ${definition.name} (${definition.command})`);
+}
+
+/**
+ * Get the names of all registered backends (default backend first).
+ * Used to build the `backend` enum in tool schemas.
+ */
+export function getBackendNames(): [BackendType, ...BackendType[]] {
+  return Array.from(backends.keys()) as [BackendType, ...BackendType[]];
+}
+
+/**
+ * Resolves the configured fallback steps for a backend, skipping unknown names
+ */
+function getFallbackCandidates(backendName: BackendType): FallbackCandidate[] {
+  const steps = getServerConfig().fallback.chains[backendName] ?? [];
+  const candidates: FallbackCandidate[] = [];
+  for (const step of steps) {
+    const backend = backends.get(step.backend);
+    if (!backend) {
+      Logger.warn(`Ignoring fallback step for '${backendName}': unknown backend '${step.backend}'`);
+      continue;
+    }
+    candidates.push({ backend: new PooledExecutor(backend), model: step.model });
+  }
+  return candidates;
+}
+
 /**
  * Get the requested backend. Defaults to Gemini if not specified.
- * User must explicitly choose 'codex' to use Codex backend.
+ * User must explicitly choose another backend (e.g. 'codex', 'claude', 'local').
+ * Executions wait for a slot in the backend's concurrency pool. When the
+ * server config declares a fallback chain for the backend, the returned
+ * executor retries failed requests along that chain.
  *
- * @param preference The backend to use ('gemini' or 'codex'). Defaults to 'gemini'.
+ * @param preference The backend to use ('gemini', 'codex', 'claude', 'local' or a configured name). Defaults to 'gemini'.
  * @returns The backend executor instance
- * @throws Error if the requested backend is not available
+ * @throws Error if the requested backend is not available (and no fallback applies)
  */
 export async function getBackend(preference?: BackendType): Promise<BackendExecutor> {
   const backendName: BackendType = preference || 'gemini'; // Default to Gemini
   const backend = backends.get(backendName);
 
   if (!backend) {
-    throw new Error(`Unknown backend: '${backendName}'. Available backends: gemini, codex`);
+    throw new Error(`Unknown backend: '${backendName}'. Available backends: ${getBackendNames().join(', ')}`);
   }
 
+  const { triggers } = getServerConfig().fallback;
+  const fallbackCandidates = getFallbackCandidates(backendName);
   const isAvailable = await backend.isAvailable();
-  if (!isAvailable) {
+  if (!isAvailable && (fallbackCandidates.length === 0 || !triggers.includes('binary-missing'))) {
     throw new Error(
       `Backend '${backendName}' is not available. ` +
-      `Please install the ${backendName} CLI first.\n` +
-      (backendName === 'gemini'
-        ? 'Install Gemini CLI: https://github.com/google-gemini/gemini-cli'
-        : 'Install Codex CLI: npm install -g @openai/codex')
+      SETUP_HINTS.get(backendName)
     );
   }
 
   Logger.debug(`Using backend: ${backendName}`);
-  return backend;
+  const pooledBackend = new PooledExecutor(backend);
+  if (fallbackCandidates.length === 0) {
+    return pooledBackend;
+  }
+  return new FallbackExecutor(pooledBackend, fallbackCandidates, triggers, isAvailable);
 }
 
 /**
@@ -64,6 +137,14 @@ export function getBackendSync(preference?: BackendType): BackendExecutor {
   return backend;
 }
 
+/**
+ * Get a backend's capability descriptor without checking availability.
+ * Tools use this to validate options and pick defaults before spawning anything.
+ */
+export function getBackendCapabilities(preference?: BackendType): BackendCapabilities {
+  return getBackendSync(preference).getCapabilities();
+}
+
 /**
  * Check if a specific backend is available
  */
@@ -0,0 +1,158 @@
+/**
+ * Native session handle helpers
+ *
+ * Tools keep one resume handle per backend on their session data. These helpers
+ * move handles between sessions, BackendConfig and BackendResult so tools don't
+ * need to know which backend produced which handle.
+ */
+
+import { NativeSessionHandles, BackendExecutor, BackendConfig, BackendResult } from './types.js';
+import { Logger } from '../utils/logger.js';
+
+type SingleHandleKey = Exclude<keyof NativeSessionHandles, 'cliSessionIds'>;
+
+const HANDLE_LABELS: Record<SingleHandleKey, string> = {
+  geminiSessionId: 'Gemini session',
+  codexThreadId: 'Codex thread',
+  claudeSessionId: 'Claude session',
+};
+
+// Built-in backend → the handle it resumes from (generic backends use cliSessionIds)
+const RESUME_HANDLE_KEYS: Record<string, SingleHandleKey> = {
+  gemini: 'geminiSessionId',
+  codex: 'codexThreadId',
+  claude: 'claudeSessionId',
+};
+
+// CLI errors meaning the stored handle no longer exists (expired, deleted, other project dir)
+const RESUME_FAILURE_PATTERN =
+  /(session|thread|conversation)\b.*\b(not found|does not exist|no longer exists|expired)|no (saved )?sessions? found|(could not|failed to|unable to) resume/i;
+
+const HANDLE_KEYS = Object.keys(HANDLE_LABELS) as SingleHandleKey[];
+
+/**
+ * Picks the stored resume handles from a session (or any object carrying them)
+ * @param source Session data, or null/undefined when no session is active
+ * @returns Handles to spread into BackendConfig
+ */
+export function pickSessionHandles(source?: NativeSessionHandles | null): NativeSessionHandles {
+  const handles: NativeSessionHandles = {};
+  if (!source) {
+    return handles;
+  }
+
+  for (const key of HANDLE_KEYS) {
+    if (source[key]) {
+      handles[key] = source[key];
+    }
+  }
+  if (source.cliSessionIds && Object.keys(source.cliSessionIds).length > 0) {
+    handles.cliSessionIds = { ...source.cliSessionIds };
+  }
+  return handles;
+}
+
+/**
+ * Stores any non-empty handles from a backend result on the target session
+ * @param target Session data to update
+ * @param handles Handles returned by the backend
+ */
+export function storeSessionHandles(target: NativeSessionHandles, handles?: NativeSessionHandles): void {
+  if (!handles) {
+    return;
+  }
+
+  for (const key of HANDLE_KEYS) {
+    const value = handles[key];
+    if (value && value.length > 0) {
+      target[key] = value;
+    }
+  }
+
+  // Generic CLI backends: merge per-backend ids
+  for (const [backendName, value] of Object.entries(handles.cliSessionIds ?? {})) {
+    if (value && value.length > 0) {
+      target.cliSessionIds = { ...target.cliSessionIds, [backendName]: value };
+    }
+  }
+}
+
+/**
+ * Formats progress lines for handles returned by a backend
+ * e.g. "🔗 Codex thread: 019c3757..."
+ */
+export function describeSessionHandles(handles?: NativeSessionHandles): string[] {
+  if (!handles) {
+    return [];
+  }
+
+  const lines = HANDLE_KEYS
+    .filter(key => handles[key] && handles[key]!.length > 0)
+    .map(key => `🔗 ${HANDLE_LABELS[key]}: ${handles[key]!.slice(0, 8)}...`);
+
+  for (const [backendName, value] of Object.entries(handles.cliSessionIds ?? {})) {
+    if (value && value.length > 0) {
+      lines.push(`🔗 ${backendName} session: ${value.slice(0, 8)}...`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * The handle a backend would resume from, if the source holds one
+ */
+export function getResumeHandle(source: NativeSessionHandles | null | undefined, backendName: string): string | undefined {
+  if (!source) {
+    return undefined;
+  }
+  const key = RESUME_HANDLE_KEYS[backendName];
+  return key ? source[key] : source.cliSessionIds?.[backendName];
+}
+
+/**
+ * Whether an error means the CLI could not find the session it was asked to resume
+ */
+export function isResumeFailure(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return RESUME_FAILURE_PATTERN.test(message);
+}
+
+/**
+ * Copy of a config without the backend's resume handle (starts a fresh CLI session)
+ */
+function withoutResumeHandle(config: BackendConfig, backendName: string): BackendConfig {
+  const key = RESUME_HANDLE_KEYS[backendName];
+  if (key) {
+    return { ...config, [key]: undefined };
+  }
+  const { [backendName]: _dropped, ...otherIds } = config.cliSessionIds ?? {};
+  return { ...config, cliSessionIds: otherIds };
+}
+
+/**
+ * Executes a request, resuming the backend's native session when a handle is
+ * available. If the CLI no longer knows the handle, retries once in a fresh
+ * session with the history replayed into the prompt. Fallback steps never
+ * resume, so they get the replayed prompt through `replayPrompt`.
+ * @param buildPrompt Returns the prompt; `replayHistory` is false while resuming natively
+ */
+export async function executeWithResume(
+  backend: BackendExecutor,
+  config: BackendConfig,
+  buildPrompt: (replayHistory: boolean) => string,
+  onProgress?: (output: string) => void
+): Promise<BackendResult> {
+  const isResuming = !!getResumeHandle(config, backend.name);
+  try {
+    const resumeConfig = isResuming ? { ...config, replayPrompt: buildPrompt(true) } : config;
+    return await backend.execute(buildPrompt(!isResuming), resumeConfig, onProgress);
+  } catch (error) {
+    if (!isResuming || !isResumeFailure(error)) {
+      throw error;
+    }
+    Logger.warn(`${backend.name} could not resume its session, replaying history: ${error instanceof Error ? error.message : String(error)}`);
+    onProgress?.(`⚠️ ${backend.name} session is gone, replaying history in a new session...`);
+    return backend.execute(buildPrompt(true), withoutResumeHandle(config, backend.name), onProgress);
+  }
+}
@@ -1,28 +1,91 @@
 /**
- * Backend abstraction layer types for dual-backend support (Gemini + Codex)
+ * Backend abstraction layer types for multi-backend support (Gemini, Codex, Claude, local HTTP)
  */
 
-export type BackendType = 'gemini' | 'codex';
+import type { TimeoutLimits } from '../utils/timeoutManager.js';
 
-export interface BackendConfig {
+export type BuiltinBackendType = 'gemini' | 'codex' | 'claude' | 'local';
+
+/**
+ * Backend identifier - a built-in backend or a generic CLI backend declared in
+ * the server config (see generic.ts)
+ */
+export type BackendType = BuiltinBackendType | (string & {});
+
+/**
+ * Native session resume handles.
+ * Backends that support native resume return their handle in BackendResult;
+ * tools persist it on the session and pass it back via BackendConfig.
+ */
+export interface NativeSessionHandles {
+  /** Gemini CLI session ID - resumes via `gemini --resume <sessionId>` */
+  geminiSessionId?: string;
+  /** Codex thread ID - resumes via `codex exec resume <threadId>` */
+  codexThreadId?: string;
+  /** Claude Code session ID - resumes via `claude -p --resume <sessionId>` */
+  claudeSessionId?: string;
+  /** Session IDs for config-defined generic CLI backends, keyed by backend name */
+  cliSessionIds?: Record<string, string>;
+}
+
+export type SandboxMode = 'read-only' | 'workspace-write' | 'danger-full-access';
+
+export type ReasoningEffort = 'low' | 'medium' | 'high' | 'xhigh';
+
+/**
+ * Structured description of what a backend supports.
+ * Tool schemas, argument validation and defaults are derived from this
+ * instead of branching on backend identity.
+ */
+export interface BackendCapabilities {
+  /** Understands @file references natively (otherwise they are inlined) */
+  fileRefs: boolean;
+  /** Honors the boolean `sandbox` flag */
+  sandbox: boolean;
+  /** Sandbox policies accepted via `sandboxMode` (empty if unsupported) */
+  sandboxModes: SandboxMode[];
+  /** Reasoning effort levels accepted via `reasoningEffort` (empty if unsupported) */
+  reasoningEffort: ReasoningEffort[];
+  /** Honors `allowedTools` auto-approval */
+  allowedTools: boolean;
+  /** Resumes sessions natively via a handle in NativeSessionHandles */
+  nativeResume: boolean;
+  /** Produces structured JSON output that is parsed for the response */
+  jsonOutput: boolean;
+  /** Approximate context window in tokens */
+  maxContextTokens: number;
+  /** Model used when none is requested (undefined = the CLI's own default) */
+  defaultModel?: string;
+  /** Faster/cheaper model preferred for review-code when none is requested */
+  defaultReviewModel?: string;
+}
+
+export interface BackendConfig extends NativeSessionHandles {
   provider: BackendType;
   model?: string;
   sandbox?: boolean;
   /**
-   * Sandbox mode for backends that support granular policies (Codex).
+   * Sandbox mode for backends that support granular policies (Codex, Claude).
    * If not provided, the backend chooses a safe default.
    */
-  sandboxMode?: 'read-only' | 'workspace-write' | 'danger-full-access';
+  sandboxMode?: SandboxMode;
   changeMode?: boolean;
   allowedTools?: string[];
   cwd?: string;
   // Codex-specific options
   approvalMode?: 'untrusted' | 'on-failure' | 'on-request' | 'never';
   fullAuto?: boolean;
-  // Codex native session resume - if provided, uses `codex exec resume <threadId>`
-  codexThreadId?: string;
-  // Reasoning effort level (Codex only): low, medium (default), high, xhigh
-  reasoningEffort?: 'low' | 'medium' | 'high' | 'xhigh';
+  // Reasoning effort level (see BackendCapabilities.reasoningEffort)
+  reasoningEffort?: ReasoningEffort;
+  /** Aborts the request (MCP cancellation); backends kill their child process tree */
+  signal?: AbortSignal;
+  /** Tool-level execution limits; combined with the backend's configured limits */
+  timeouts?: TimeoutLimits;
+  /**
+   * The prompt with the conversation history replayed, set while resuming a native session;
+   * fallback steps start a fresh CLI session and send this instead
+   */
+  replayPrompt?: string;
 }
 
 export interface BackendExecutor {
@@ -49,10 +112,15 @@ export interface BackendExecutor {
   isAvailable(): Promise<boolean>;
 
   /**
-   * Get the list of supported models for this backend
+   * Get the list of supported models for this backend (default model first)
    */
   getModels(): string[];
 
+  /**
+   * Describe what this backend supports
+   */
+  getCapabilities(): BackendCapabilities;
+
   /**
    * Whether this backend supports @file reference syntax
    */
@@ -64,13 +132,60 @@ export interface BackendExecutor {
   getFileRefSyntax(): string;
 }
 
-export interface BackendResult {
+/**
+ * Classified reason a backend attempt failed (used to decide on fallback)
+ */
+export type BackendFailureKind = 'quota' | 'auth' | 'binary-missing' | 'timeout' | 'exit';
+
+/**
+ * One attempt in a fallback chain, in the order it was tried
+ */
+export interface FallbackAttempt {
+  backend: BackendType;
+  model?: string;
+  /** Why this attempt failed (absent for the attempt that succeeded) */
+  failure?: BackendFailureKind;
+  /** Error message of the failed attempt */
+  error?: string;
+}
+
+/**
+ * Token counts for one execution (or a sum of several)
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Reasoning tokens, when the CLI reports them separately (included in completionTokens) */
+  reasoningTokens?: number;
+  totalTokens: number;
+  /** Cost in USD, when the CLI reports it */
+  costUsd?: number;
+  /** True when the counts were estimated from text length instead of reported by the CLI */
+  estimated: boolean;
+}
+
+/**
+ * A tool call made by the CLI's agent while answering (e.g. read_file)
+ */
+export interface ToolCallRecord {
+  name: string;
+  id?: string;
+  args?: Record<string, unknown>;
+  status?: 'success' | 'error';
+  error?: string;
+}
+
+export interface BackendResult extends NativeSessionHandles {
   /** The AI's response text */
   response: string;
   /** Which backend processed the request */
   backend: BackendType;
   /** Model used (if specified) */
   model?: string;
-  /** Codex thread ID for native session resume (only set by Codex backend) */
-  codexThreadId?: string;
+  /** Attempts made when the request fell back to other backends/models */
+  fallbackPath?: FallbackAttempt[];
+  /** Token counts reported by the CLI, or estimated */
+  usage?: TokenUsage;
+  /** Tool calls made by the CLI, for backends with structured output */
+  toolCalls?: ToolCallRecord[];
 }
@@ -1,5 +1,11 @@
 
 
+// Server identity (the version is kept in sync with package.json by scripts/bump-version.js)
+export const SERVER_INFO = {
+  NAME: "llm-cli-bridge",
+  VERSION: "3.1.1",
+} as const;
+
 // Logging
 export const LOG_PREFIX = "[GMCPT]";
 
@@ -71,6 +77,25 @@ export const PROTOCOL = {
   KEEPALIVE_INTERVAL: 25000, // 25 seconds
 } as const;
 
+// Execution timeouts (overridable per backend/tool in the server config; 0 disables)
+export const EXECUTION_TIMEOUTS = {
+  WALL_CLOCK_MS: 30 * 60 * 1000, // 30 minutes per backend execution
+  IDLE_MS: 10 * 60 * 1000, // 10 minutes without any output
+  KILL_GRACE_MS: 5000, // SIGTERM → SIGKILL
+  PARTIAL_OUTPUT_CHARS: 2000, // Tail of the output included in the error
+} as const;
+
+// Concurrency limits per backend (overridable in the server config)
+export const CONCURRENCY = {
+  MAX_CONCURRENT: 2, // Executions running at once
+  MAX_QUEUED: 20, // Requests waiting for a slot before new ones are rejected
+} as const;
+
+// ask consensus mode
+export const CONSENSUS = {
+  MAX_PARTICIPANTS: 5, // Backends/models asked in parallel
+} as const;
+
 
 // CLI Constants
 export const CLI = {
@@ -86,6 +111,12 @@ export const CLI = {
     PROMPT: "-p",
     HELP: "-help",
     ALLOWED_TOOLS: "--allowed-tools",
+    OUTPUT_FORMAT: "--output-format",
+    RESUME: "--resume",
+  },
+  OUTPUT_FORMATS: {
+    JSON: "json",
+    STREAM_JSON: "stream-json", // JSONL events: init, message, tool_use, tool_result, error, result
   },
   // Default values
   DEFAULTS: {
@@ -95,10 +126,26 @@ export const CLI = {
   },
 } as const;
 
+export const GEMINI_OUTPUT = {
+  MAX_OUTPUT_SIZE: 10 * 1024 * 1024, // 10MB max output to prevent memory exhaustion
+  MAX_JSONL_LINES: 10000, // Maximum stream-json lines to parse
+} as const;
+
+// Approximate context windows (tokens) advertised in backend capabilities
+export const CONTEXT_WINDOWS = {
+  GEMINI: 1_000_000,
+  CODEX: 400_000,
+  CLAUDE: 200_000,
+  LOCAL: 32_768, // Conservative; override with LLM_CLI_BRIDGE_LOCAL_CONTEXT_TOKENS
+  GENERIC: 128_000, // Override per backend with maxContextTokens in the server config
+} as const;
+
 // Backend Constants
 export const BACKENDS = {
   GEMINI: 'gemini',  // Default backend
   CODEX: 'codex',
+  CLAUDE: 'claude',
+  LOCAL: 'local',
 } as const;
 
 // Codex CLI Constants
@@ -158,6 +205,81 @@ export const CODEX_MODELS = {
   DEFAULT: 'gpt-5.4',
 } as const;
 
+// Claude Code CLI Constants
+export const CLAUDE_CLI = {
+  COMMAND: 'claude',
+  FLAGS: {
+    PRINT: '-p',
+    MODEL: '--model',
+    RESUME: '--resume',
+    OUTPUT_FORMAT: '--output-format',
+    VERBOSE: '--verbose', // Required by the CLI for stream-json in print mode
+    PERMISSION_MODE: '--permission-mode',
+    ALLOWED_TOOLS: '--allowedTools',
+  },
+  OUTPUT_FORMATS: {
+    STREAM_JSON: 'stream-json',
+  },
+  PERMISSION_MODES: {
+    DEFAULT: 'default',
+    ACCEPT_EDITS: 'acceptEdits',
+    BYPASS: 'bypassPermissions',
+  },
+} as const;
+
+export const CLAUDE_OUTPUT = {
+  MAX_OUTPUT_SIZE: 10 * 1024 * 1024, // 10MB max output to prevent memory exhaustion
+  MAX_JSONL_LINES: 10000, // Maximum stream-json lines to parse
+} as const;
+
+// Claude Models (CLI aliases always resolve to the latest release of each family)
+export const CLAUDE_MODELS = {
+  SONNET: 'sonnet',                    // Balanced default
+  OPUS: 'opus',                        // Most capable, slower
+  HAIKU: 'haiku',                      // Fastest/cheapest
+  // Default (used when no model is specified)
+  DEFAULT: 'sonnet',
+} as const;
+
+// Local OpenAI-compatible HTTP backend (Ollama, llama.cpp server, vLLM, ...)
+export const LOCAL_LLM = {
+  ENV: {
+    BASE_URL: 'LLM_CLI_BRIDGE_LOCAL_BASE_URL',
+    MODEL: 'LLM_CLI_BRIDGE_LOCAL_MODEL',
+    API_KEY: 'LLM_CLI_BRIDGE_LOCAL_API_KEY',
+    CONTEXT_TOKENS: 'LLM_CLI_BRIDGE_LOCAL_CONTEXT_TOKENS',
+  },
+  DEFAULTS: {
+    BASE_URL: 'http://localhost:11434/v1', // Ollama's OpenAI-compatible endpoint
+    MODEL: 'llama3.1',
+  },
+  PATHS: {
+    CHAT_COMPLETIONS: '/chat/completions',
+    MODELS: '/models',
+  },
+  AVAILABILITY_TIMEOUT: 3000, // 3 seconds for the /models probe
+  MAX_OUTPUT_SIZE: 10 * 1024 * 1024, // 10MB max response to prevent memory exhaustion
+} as const;
+
+// Config-driven generic CLI backends
+export const GENERIC_CLI = {
+  MAX_OUTPUT_SIZE: 10 * 1024 * 1024, // 10MB max output to prevent memory exhaustion
+  MAX_JSONL_LINES: 10000, // Maximum JSONL lines to parse
+} as const;
+
+// Server configuration file (generic backends and other server-wide settings)
+export const SERVER_CONFIG = {
+  ENV_PATH: 'LLM_CLI_BRIDGE_CONFIG', // Overrides the default location
+  DEFAULT_PATH: '.ai-cli-mcp/config.json', // Relative to the user's home
+} as const;
+
+// Token accounting
+export const USAGE = {
+  LEDGER_PATH: '.ai-cli-mcp/usage.json', // Daily totals, relative to the user's home
+  CHARS_PER_TOKEN: 4, // Rough estimate for backends that do not report usage
+  RETENTION_DAYS: 31, // Days kept in the ledger
+} as const;
+
 // Shared Session Management Constants
 export const SESSION = {
   BASE_DIR: '.ai-cli-mcp/sessions', // Base directory in user's home
@@ -233,6 +355,24 @@ export const REVIEW = {
     CHANGES_ONLY: 'changes-only',
     FOCUSED: 'focused',
   },
+  // Diff-scoped reviews
+  DIFF_CONTEXT_LINES: 10, // Unchanged lines sent around each hunk
+  BATCH_CONTEXT_SHARE: 0.5, // Share of the backend's context window one batch of changes may fill
+  MAX_FILES_PER_BATCH: 8, // Files per batch, so large reviews are not answered shallowly
+  MAX_PARALLEL_BATCHES: 3, // Batches of one round sent at once
+  ANCHOR_CONTEXT_LINES: 3, // Lines around a comment's code stored in its fingerprint
+  // Suppression baseline
+  BASELINE_FILE: '.review-baseline.json', // Repo-local file, relative to the review's working directory
+  MAX_PROMPT_SUPPRESSIONS: 50, // Suppressions listed in the review prompt
+  // Rule packs
+  RULES_DIR: '.review-rules', // Repo-local directory of rule pack JSON files
+  // Fix verification
+  VERIFICATION_CONTEXT_LINES: 15, // Current code shown around an accepted comment's lines
+  VERIFICATION_MAX_FILE_LINES: 400, // Current code shown for a comment without lines
+  // Review payload export
+  PAYLOAD_DIR: '.review-payloads', // Default output directory, relative to the working directory
+  GITHUB_PAYLOAD_FILE: 'github-review.json',
+  GITLAB_PAYLOAD_FILE: 'gitlab-discussions.json',
   // Formatting
   MAX_HISTORY_ROUNDS: 3, // How many previous rounds to include in context
   SEVERITY_EMOJI: {
@@ -243,6 +383,15 @@ export const REVIEW = {
   } as const,
 } as const;
 
+// SARIF export of review findings
+export const SARIF = {
+  SCHEMA: 'https://json.schemastore.org/sarif-2.1.0.json',
+  INFORMATION_URI: 'https://github.com/maxanatsko/llm-cli-bridge',
+  RULE_PREFIX: 'llm-review', // Rule ids: llm-review/{severity}
+  FINGERPRINT_KEY: 'reviewFinding/v1', // Same fingerprint as the suppression baseline
+  SRCROOT: '%SRCROOT%',
+} as const;
+
 
 // (merged PromptArguments and ToolArguments)
 export interface ToolArguments {
@@ -255,7 +404,7 @@ export interface ToolArguments {
   message?: string; // For Ping tool -- Un-used.
 
   // --> Backend selection (defaults to gemini)
-  backend?: 'gemini' | 'codex';
+  backend?: string; // Built-in backend or a config-defined generic CLI backend
 
   // --> shared session parameters (ask, brainstorm, review-code)
   session?: string; // Session ID for conversation continuity
@@ -276,8 +425,9 @@ export interface ToolArguments {
   files?: string[]; // Specific files to review
   sessionId?: string; // Explicit session ID override (review-code uses this OR git-based)
   forceNewSession?: boolean; // Force create new session
-  reviewType?: string; // Type of review (security, performance, etc.)
+  reviewType?: string | string[]; // Type of review (security, performance, etc.) or rule pack names
   severity?: string; // Filter by severity level
+  diff?: string; // Review only changes: base ref, base..head, 'staged' or 'working-tree'
   commentDecisions?: Array<{
     commentId: string;
     decision: string;
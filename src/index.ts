@@ -17,7 +17,9 @@ import {
   CallToolResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { Logger } from "./utils/logger.js";
-import { PROTOCOL, ToolArguments } from "./constants.js";
+import { isAbortError } from "./utils/cancellation.js";
+import { isQueueStatusMessage } from "./utils/concurrencyPool.js";
+import { PROTOCOL, SERVER_INFO, ToolArguments } from "./constants.js";
 
 import { 
   getToolDefinitions, 
@@ -29,8 +31,8 @@ import {
 
 const server = new Server(
   {
-    name: "llm-cli-bridge",
-    version: "3.1.1",
+    name: SERVER_INFO.NAME,
+    version: SERVER_INFO.VERSION,
   },{
     capabilities: {
       tools: {},
@@ -88,7 +90,7 @@ interface ProgressState {
   operationName: string;
   latestOutput: string;
   isActive: boolean;
-  stop: (success: boolean) => void;
+  stop: (success: boolean, cancelled?: boolean) => void;
   updateOutput: (output: string) => void;
 }
 
@@ -101,6 +103,7 @@ function startProgressUpdates(
   // Per-request state - no global variables
   let isActive = true;
   let latestOutput = "";
+  let queueStatus = ""; // Set while waiting for a backend slot
   let messageIndex = 0;
   let progress = 0;
 
@@ -129,7 +132,9 @@ function startProgressUpdates(
       progress += 1;
 
       // Include latest output if available
-      const baseMessage = progressMessages[messageIndex % progressMessages.length];
+      const baseMessage = queueStatus
+        ? `${operationName} - ${queueStatus}`
+        : progressMessages[messageIndex % progressMessages.length];
       const outputPreview = latestOutput.slice(-150).trim(); // Last 150 chars
       const message = outputPreview
         ? `${baseMessage}\n📝 Output: ...${outputPreview}`
@@ -145,12 +150,13 @@ function startProgressUpdates(
     }
   }, PROTOCOL.KEEPALIVE_INTERVAL); // Every 25 seconds
 
-  const stop = (success: boolean) => {
+  const stop = (success: boolean, cancelled = false) => {
     isActive = false;
     clearInterval(progressInterval);
 
     // Send final progress notification if client requested progress
-    if (hasProgressToken) {
+    // (a cancelled request gets no further notifications)
+    if (hasProgressToken && !cancelled) {
       sendProgressNotification(
         progressToken,
         100,
@@ -161,6 +167,15 @@ function startProgressUpdates(
   };
 
   const updateOutput = (output: string) => {
+    if (isQueueStatusMessage(output)) {
+      // Queue position changes are reported right away, not on the next keepalive
+      queueStatus = output;
+      if (isActive && hasProgressToken) {
+        sendProgressNotification(progressToken, progress, undefined, `${operationName} - ${output}`);
+      }
+      return;
+    }
+    queueStatus = "";
     latestOutput = output;
   };
 
@@ -181,7 +196,8 @@ server.setRequestHandler(ListToolsRequestSchema, async (request: ListToolsReques
 });
 
 // tools/get
-server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest): Promise<CallToolResult> => {
+// The SDK aborts extra.signal when the client sends notifications/cancelled for this request
+server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra): Promise<CallToolResult> => {
   const toolName: string = request.params.name;
 
   if (toolExists(toolName)) {
@@ -200,7 +216,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
       // Execute the tool using the unified registry with progress callback
       const result = await executeTool(toolName, args, (newOutput) => {
         progressState.updateOutput(newOutput);
-      });
+      }, extra.signal);
 
       // Stop progress updates
       progressState.stop(true);
@@ -215,10 +231,17 @@ server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest)
         isError: false,
       };
     } catch (error) {
+      const cancelled = isAbortError(error) || extra.signal.aborted;
+
       // Stop progress updates on error
-      progressState.stop(false);
+      progressState.stop(false, cancelled);
 
-      Logger.error(`Error in tool '${toolName}':`, error);
+      if (cancelled) {
+        // The SDK drops responses to cancelled requests; this only ends the handler
+        Logger.debug(`Tool '${toolName}' cancelled by client`);
+      } else {
+        Logger.error(`Error in tool '${toolName}':`, error);
+      }
 
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -1,33 +1,58 @@
 import { z } from 'zod';
 import { UnifiedTool } from './registry.js';
-import { getBackend, BackendType } from '../backends/index.js';
-import { processChangeModeOutput } from '../utils/geminiExecutor.js';
+import { getBackend, BackendType, BackendResult, SandboxMode, ReasoningEffort } from '../backends/index.js';
+import { getBackendNames, getBackendCapabilities } from '../backends/registry.js';
 import {
-  ERROR_MESSAGES,
-  CODEX_MODELS,
-  MODELS
-} from '../constants.js';
+  validateBackendOptions,
+  describeModelOption,
+  describeReasoningEffortOption,
+  describeSandboxOption,
+  describeSandboxModeOption,
+  describeAllowedToolsOption,
+  getSupportedReasoningEfforts,
+  getSupportedSandboxModes
+} from '../backends/capabilities.js';
+import { pickSessionHandles, describeSessionHandles, executeWithResume } from '../backends/sessionHandles.js';
+import { processChangeModeOutput } from '../utils/geminiExecutor.js';
+import { CONSENSUS, ERROR_MESSAGES } from '../constants.js';
 import { askSessionManager } from '../utils/askSessionManager.js';
 import { extractFilesFromPrompt } from '../utils/reviewPromptBuilder.js';
 import { Logger } from '../utils/logger.js';
+import { isAbortError, throwIfAborted } from '../utils/cancellation.js';
+import { getToolTimeouts } from '../utils/timeoutManager.js';
+import { estimateTokens, formatUsageFooter, getDailyUsage, sumUsage } from '../utils/tokenUsage.js';
+import { enforceBudgets } from '../utils/budgetGuard.js';
+import {
+  ConsensusAnswer,
+  ConsensusFailure,
+  buildSynthesisPrompt,
+  describeParticipant,
+  formatConsensusResponse
+} from '../utils/consensusBuilder.js';
 
 const askArgsSchema = z.object({
   prompt: z.string().min(1).describe("Analysis request. Use @ syntax to include files (e.g., '@largefile.js explain what this does') or ask general questions"),
-  backend: z.enum(['gemini', 'codex']).optional().describe("AI backend to use: 'gemini' (default) or 'codex'. Gemini offers 1M+ token context, Codex integrates with OpenAI models."),
+  backend: z.enum(getBackendNames()).optional().describe("AI backend to use: 'gemini' (default), 'codex', 'claude' or 'local'. Gemini offers 1M+ token context, Codex integrates with OpenAI models, Claude runs Claude Code, local targets an OpenAI-compatible server (Ollama, llama.cpp). Generic CLI backends from the server config are also accepted."),
   session: z.string().optional().describe("Session ID for conversation continuity (e.g., 'typescript-learning'). Maintains context across multiple questions."),
-  model: z.string().optional().describe("Model override. Gemini: 'gemini-3.1-pro' (default), 'gemini-3-flash', 'gemini-2.5-pro', 'gemini-2.5-flash'. Codex: 'gpt-5.4' (default), 'gpt-5.4-mini', 'gpt-5.3-codex', 'gpt-5.2-codex', 'gpt-5.2'"),
-  reasoningEffort: z.enum(['low', 'medium', 'high', 'xhigh']).optional().describe("Reasoning effort level (Codex only): 'low', 'medium' (default), 'high', 'xhigh'. Use 'high'/'xhigh' for complex tasks."),
-  sandbox: z.boolean().default(false).describe("Sandbox (Gemini) / workspace-write (Codex). For Codex: false => read-only (default), true => workspace-write. Ignored if sandboxMode is set."),
-  sandboxMode: z.enum(['read-only', 'workspace-write', 'danger-full-access']).optional().describe("Codex-only override for sandbox policy (takes precedence over sandbox). Use 'danger-full-access' only with explicit opt-in."),
+  model: z.string().optional().describe(describeModelOption()),
+  reasoningEffort: z.enum(getSupportedReasoningEfforts()).optional().describe(describeReasoningEffortOption()),
+  sandbox: z.boolean().default(false).describe(describeSandboxOption()),
+  sandboxMode: z.enum(getSupportedSandboxModes()).optional().describe(describeSandboxModeOption()),
   changeMode: z.boolean().default(false).describe("Enable structured change mode - formats prompts to prevent tool errors and returns structured edit suggestions that Claude can apply directly"),
   includeHistory: z.boolean().default(true).describe("Include conversation history in context (only applies when session is provided). Default: true"),
-  allowedTools: z.array(z.string()).optional().describe("Tools that the AI can auto-approve without confirmation (e.g., ['run_shell_command'] for git commands). Use sparingly for security."),
+  allowedTools: z.array(z.string()).optional().describe(describeAllowedToolsOption()),
   cwd: z.string().optional().describe("Working directory for CLI execution. Use this to match your IDE workspace directory if you get 'Directory mismatch' errors."),
+  consensus: z.array(z.object({
+    backend: z.enum(getBackendNames()),
+    model: z.string().optional(),
+  })).min(2).max(CONSENSUS.MAX_PARTICIPANTS).optional().describe(`Second-opinion mode: ask these backends/models in parallel (2 to ${CONSENSUS.MAX_PARTICIPANTS}, e.g. [{backend:'gemini'},{backend:'codex'},{backend:'gemini',model:'gemini-3-flash'}]). Returns every answer plus a synthesis of where they agree and disagree, run on 'backend' (default Gemini). Set models per participant; 'model' cannot be combined with consensus. Each answer is stored as its own session round.`),
 });
 
+type ConsensusParticipant = { backend: BackendType; model?: string };
+
 export const askTool: UnifiedTool = {
   name: "ask",
-  description: "Query AI with file analysis, session continuity, and dual-backend support (Gemini/Codex). Use backend:'codex' for OpenAI, defaults to Gemini.",
+  description: "Query AI with file analysis, session continuity, and multi-backend support (Gemini/Codex/Claude). Use backend:'codex' for OpenAI or backend:'claude' for Claude Code, defaults to Gemini.",
   zodSchema: askArgsSchema,
   annotations: {
     readOnlyHint: false,     // Can modify state via sessions
@@ -39,7 +64,7 @@ export const askTool: UnifiedTool = {
     description: "Execute AI query with optional file references, session management, and backend selection.",
   },
   category: 'ai',
-  execute: async (args, onProgress) => {
+  execute: async (args, onProgress, signal) => {
     const {
       prompt,
       backend: backendChoice,
@@ -51,7 +76,8 @@ export const askTool: UnifiedTool = {
       changeMode,
       includeHistory,
       allowedTools,
-      cwd
+      cwd,
+      consensus
     } = args;
 
     if (!prompt?.trim()) {
@@ -60,7 +86,7 @@ export const askTool: UnifiedTool = {
 
     // Session handling - load first so we can use lastBackend for backend selection
     let sessionData: Awaited<ReturnType<typeof askSessionManager.getOrCreate>> | null = null;
-    let enhancedPrompt = prompt as string;
+    let historyContext = '';
 
     if (session) {
       try {
@@ -68,8 +94,7 @@ export const askTool: UnifiedTool = {
 
         // Build conversation context if history is enabled
         if (includeHistory && sessionData.conversationHistory.length > 0) {
-          const historyContext = askSessionManager.buildConversationContext(sessionData, 3);
-          enhancedPrompt = `${historyContext}\n\n# Current Question\n${prompt}`;
+          historyContext = askSessionManager.buildConversationContext(sessionData, 3);
         }
 
         onProgress?.(`📝 Session '${session}' (Round ${sessionData.totalRounds + 1})`);
@@ -80,54 +105,106 @@ export const askTool: UnifiedTool = {
       }
     }
 
+    // History is replayed into the prompt unless the backend resumes its own session
+    const buildPrompt = (replayHistory: boolean) => replayHistory && historyContext
+      ? `${historyContext}\n\n# Current Question\n${prompt}`
+      : prompt as string;
+
     // Get the appropriate backend (defaults to session's last backend, then Gemini)
     const backendType: BackendType = backendChoice || sessionData?.lastBackend || 'gemini';
+
+    if (consensus) {
+      if (changeMode) {
+        throw new Error('changeMode cannot be combined with consensus');
+      }
+      if (model) {
+        throw new Error('model cannot be combined with consensus; set a model per participant instead');
+      }
+      if ((consensus as ConsensusParticipant[]).length > CONSENSUS.MAX_PARTICIPANTS) {
+        throw new Error(`consensus accepts at most ${CONSENSUS.MAX_PARTICIPANTS} participants`);
+      }
+      return executeConsensus({
+        participants: consensus as ConsensusParticipant[],
+        synthesisBackend: backendType,
+        question: prompt as string,
+        prompt: buildPrompt(true),
+        backendOptions: {
+          sandbox: !!sandbox,
+          sandboxMode: sandboxMode as SandboxMode | undefined,
+          reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
+          allowedTools: allowedTools as string[] | undefined,
+        },
+        cwd: cwd as string | undefined,
+        session: session as string | undefined,
+        sessionData,
+        onProgress,
+        signal,
+      });
+    }
+
+    const capabilities = getBackendCapabilities(backendType);
+    validateBackendOptions(backendType, capabilities, {
+      sandbox: !!sandbox,
+      sandboxMode: sandboxMode as SandboxMode | undefined,
+      reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
+      allowedTools: allowedTools as string[] | undefined,
+    });
     const backend = await getBackend(backendType);
 
     onProgress?.(`🤖 Using ${backend.name} backend...`);
 
+    // Budgets may refuse the request or switch to a cheaper model
+    const budgetModel = await enforceBudgets({
+      backend,
+      model: model as string | undefined,
+      prompt: buildPrompt(true),
+      sessionUsage: sessionData ? askSessionManager.getSessionUsage(sessionData) : undefined,
+    }, onProgress);
+
     // Execute via the selected backend
-    // Pass existing codexThreadId for native session resume when using Codex
-    const result = await backend.execute(
-      enhancedPrompt,
+    // Pass stored resume handles (Gemini/Claude session, Codex thread) for native session resume
+    const result = await executeWithResume(
+      backend,
       {
         provider: backendType,
-        model: model as string | undefined,
+        model: budgetModel,
         sandbox: !!sandbox,
-        sandboxMode: sandboxMode as 'read-only' | 'workspace-write' | 'danger-full-access' | undefined,
+        sandboxMode: sandboxMode as SandboxMode | undefined,
         changeMode: !!changeMode,
         allowedTools: allowedTools as string[] | undefined,
         cwd: cwd as string | undefined,
-        codexThreadId: sessionData?.codexThreadId, // For Codex native session resume
-        reasoningEffort: reasoningEffort as 'low' | 'medium' | 'high' | 'xhigh' | undefined,
+        signal,
+        timeouts: getToolTimeouts('ask'),
+        ...pickSessionHandles(sessionData),
+        reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
       },
+      buildPrompt,
       onProgress
     );
 
+    // A request cancelled while the backend was finishing must leave the session untouched
+    throwIfAborted(signal);
+
     // Save to session if provided
     if (session && sessionData) {
       try {
         const contextFiles = extractFilesFromPrompt(prompt as string);
         // Use model from backend result (actual model used), fallback to input or default
-        const usedModel =
-          result.model ||
-          (model as string) ||
-          (backendType === 'codex' ? CODEX_MODELS.DEFAULT : MODELS.PRO_3);
+        const usedModel = result.model || budgetModel || capabilities.defaultModel || backend.getModels()[0];
         askSessionManager.addRound(
           sessionData,
           prompt as string,
           result.response,
           usedModel,
           contextFiles,
-          backendType,
-          result.codexThreadId // Store Codex thread ID for native session resume
+          result.backend, // May differ from backendType when a fallback answered
+          result, // Store native resume handles returned by the backend
+          result.fallbackPath,
+          result.usage
         );
         await askSessionManager.save(sessionData);
         onProgress?.(`💾 Saved to session '${session}' (${sessionData.totalRounds} rounds)`);
-        if (result.codexThreadId && result.codexThreadId.length > 0) {
-          const threadPreview = result.codexThreadId.slice(0, 8);
-          onProgress?.(`🔗 Codex thread: ${threadPreview}...`);
-        }
+        describeSessionHandles(result).forEach(line => onProgress?.(line));
       } catch (error) {
         onProgress?.(`⚠️  Session save failed: ${error instanceof Error ? error.message : String(error)}`);
         Logger.error(`Failed to save session '${session}': ${error}`);
@@ -139,12 +216,167 @@ export const askTool: UnifiedTool = {
       return processChangeModeOutput(result.response);
     }
 
+    const usageFooter = formatUsageFooter({
+      usage: result.usage,
+      sessionUsage: sessionData ? askSessionManager.getSessionUsage(sessionData) : undefined,
+      dailyUsage: await getDailyUsage(result.backend),
+      backend: result.backend,
+    });
+
     // Use backend-aware response prefix
-    const backendName = backend.name.charAt(0).toUpperCase() + backend.name.slice(1);
-    return `${backendName} response:\n${result.response}`;
+    const backendName = result.backend.charAt(0).toUpperCase() + result.backend.slice(1);
+    return `${backendName} response:\n${result.response}${usageFooter}`;
   }
 };
 
+/**
+ * Asks several backends/models in parallel, then compares their answers in a synthesis step
+ * Answers are stored as separate session rounds; the synthesis is only returned.
+ */
+async function executeConsensus(options: {
+  participants: ConsensusParticipant[];
+  synthesisBackend: BackendType;
+  /** The question as asked (stored in the session and shown to the synthesis step) */
+  question: string;
+  /** The question with replayed history, sent to every participant */
+  prompt: string;
+  backendOptions: {
+    sandbox: boolean;
+    sandboxMode?: SandboxMode;
+    reasoningEffort?: ReasoningEffort;
+    allowedTools?: string[];
+  };
+  cwd?: string;
+  session?: string;
+  sessionData: Awaited<ReturnType<typeof askSessionManager.getOrCreate>> | null;
+  onProgress?: (output: string) => void;
+  signal?: AbortSignal;
+}): Promise<string> {
+  const { participants, synthesisBackend, question, prompt, backendOptions, cwd, session, sessionData, onProgress, signal } = options;
+  const sessionUsage = sessionData ? askSessionManager.getSessionUsage(sessionData) : undefined;
+
+  // Reject unsupported options before anything is spawned
+  for (const participant of participants) {
+    validateBackendOptions(participant.backend, getBackendCapabilities(participant.backend), backendOptions);
+  }
+
+  onProgress?.(`🗳️ Consensus: asking ${participants.map(describeParticipant).join(', ')} in parallel...`);
+
+  // Parallel answers must not share a native CLI session, so history is replayed instead of resumed.
+  // Each participant reserves the prompts of those started before it, so together they stay within the caps
+  const promptTokens = estimateTokens(prompt);
+  const settled = await Promise.allSettled(participants.map(async (participant, index): Promise<BackendResult> => {
+    const backend = await getBackend(participant.backend);
+    const model = await enforceBudgets(
+      { backend, model: participant.model, prompt, sessionUsage, reservedTokens: promptTokens * index },
+      onProgress
+    );
+    const result = await backend.execute(
+      prompt,
+      {
+        provider: participant.backend,
+        model,
+        ...backendOptions,
+        changeMode: false,
+        cwd,
+        signal,
+        timeouts: getToolTimeouts('ask'),
+      },
+      onProgress
+    );
+    onProgress?.(`✅ ${describeParticipant({ backend: result.backend, model: result.model ?? model })} answered`);
+    return { ...result, model: result.model ?? model ?? getBackendCapabilities(participant.backend).defaultModel };
+  }));
+
+  // A request cancelled while the backends were finishing must leave the session untouched
+  throwIfAborted(signal);
+
+  const answers: Array<ConsensusAnswer & { result: BackendResult }> = [];
+  const failures: ConsensusFailure[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      const result = outcome.value;
+      answers.push({ backend: result.backend, model: result.model, response: result.response, usage: result.usage, result });
+    } else {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      failures.push({ ...participants[index], error });
+      onProgress?.(`❌ ${describeParticipant(participants[index])} failed: ${error}`);
+    }
+  });
+
+  if (answers.length === 0) {
+    throw new Error(`Consensus failed: no participant answered (${failures.map(f => `${describeParticipant(f)}: ${f.error}`).join('; ')})`);
+  }
+
+  // Synthesis step - a failure here still returns the individual answers
+  let synthesis: BackendResult | undefined;
+  let synthesisError: string | undefined;
+  if (answers.length > 1) {
+    try {
+      onProgress?.(`🧮 Comparing answers with ${synthesisBackend}...`);
+      const backend = await getBackend(synthesisBackend);
+      const synthesisPrompt = buildSynthesisPrompt(question, answers);
+      const model = await enforceBudgets({
+        backend,
+        prompt: synthesisPrompt,
+        sessionUsage: sumUsage([sessionUsage, ...answers.map(answer => answer.usage)]),
+      }, onProgress);
+      synthesis = await backend.execute(
+        synthesisPrompt,
+        { provider: synthesisBackend, model, changeMode: false, cwd, signal, timeouts: getToolTimeouts('ask') },
+        onProgress
+      );
+      throwIfAborted(signal);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      synthesisError = error instanceof Error ? error.message : String(error);
+      onProgress?.(`⚠️ Synthesis failed: ${synthesisError}`);
+    }
+  }
+
+  if (session && sessionData) {
+    try {
+      const contextFiles = extractFilesFromPrompt(question);
+      for (const answer of answers) {
+        askSessionManager.addRound(
+          sessionData,
+          question,
+          answer.response,
+          answer.model ?? answer.backend,
+          contextFiles,
+          answer.backend,
+          undefined, // Answers ran without native sessions
+          answer.result.fallbackPath,
+          answer.usage
+        );
+      }
+      // Follow-up questions continue on the backend that ran the synthesis
+      sessionData.lastBackend = synthesisBackend;
+      await askSessionManager.save(sessionData);
+      onProgress?.(`💾 Saved ${answers.length} answers to session '${session}' (${sessionData.totalRounds} rounds)`);
+    } catch (error) {
+      onProgress?.(`⚠️  Session save failed: ${error instanceof Error ? error.message : String(error)}`);
+      Logger.error(`Failed to save session '${session}': ${error}`);
+    }
+  }
+
+  const usageFooter = formatUsageFooter({
+    usage: sumUsage([...answers.map(answer => answer.usage), synthesis?.usage]),
+    sessionUsage: sessionData ? askSessionManager.getSessionUsage(sessionData) : undefined,
+    backend: synthesisBackend,
+  });
+
+  return formatConsensusResponse({
+    answers,
+    failures,
+    synthesis: synthesis?.response,
+    synthesisError,
+    synthesisBackend: synthesis?.backend ?? synthesisBackend,
+  }) + usageFooter;
+}
+
 // Backward compatibility: register as a separate tool name
 export const askGeminiTool: UnifiedTool = {
   ...askTool,
@@ -1,7 +1,20 @@
 import { z } from 'zod';
 import { UnifiedTool } from './registry.js';
 import { Logger } from '../utils/logger.js';
-import { getBackend, BackendType } from '../backends/index.js';
+import { throwIfAborted } from '../utils/cancellation.js';
+import { getToolTimeouts } from '../utils/timeoutManager.js';
+import { formatUsageFooter, getDailyUsage } from '../utils/tokenUsage.js';
+import { enforceBudgets } from '../utils/budgetGuard.js';
+import { getBackend, BackendType, ReasoningEffort } from '../backends/index.js';
+import { getBackendNames, getBackendCapabilities } from '../backends/registry.js';
+import {
+  validateBackendOptions,
+  describeModelOption,
+  describeReasoningEffortOption,
+  describeAllowedToolsOption,
+  getSupportedReasoningEfforts
+} from '../backends/capabilities.js';
+import { pickSessionHandles, describeSessionHandles, executeWithResume } from '../backends/sessionHandles.js';
 import { brainstormSessionManager } from '../utils/brainstormSessionManager.js';
 
 function buildBrainstormPrompt(config: {
@@ -118,9 +131,9 @@ ${domain ? `Given the ${domain} domain, I'll apply the most effective combinatio
 
 const brainstormArgsSchema = z.object({
   prompt: z.string().min(1).describe("Primary brainstorming challenge or question to explore"),
-  backend: z.enum(['gemini', 'codex']).optional().describe("AI backend to use: 'gemini' (default) or 'codex'. Gemini offers 1M+ token context, Codex integrates with OpenAI models."),
+  backend: z.enum(getBackendNames()).optional().describe("AI backend to use: 'gemini' (default), 'codex', 'claude' or 'local'. Gemini offers 1M+ token context, Codex integrates with OpenAI models, Claude runs Claude Code, local targets an OpenAI-compatible server (Ollama, llama.cpp). Generic CLI backends from the server config are also accepted."),
   session: z.string().optional().describe("Session ID for tracking ideas across rounds (e.g., 'feature-ideas'). Enables iterative brainstorming with context."),
-  model: z.string().optional().describe("Model override. Gemini: 'gemini-3.1-pro' (default), 'gemini-3-flash', 'gemini-2.5-pro', 'gemini-2.5-flash'. Codex: 'gpt-5.4' (default), 'gpt-5.4-mini', 'gpt-5.3-codex', 'gpt-5.2-codex', 'gpt-5.2'"),
+  model: z.string().optional().describe(describeModelOption()),
   methodology: z.enum(['divergent', 'convergent', 'scamper', 'design-thinking', 'lateral', 'auto']).default('auto').describe("Brainstorming framework: 'divergent' (generate many ideas), 'convergent' (refine existing), 'scamper' (systematic triggers), 'design-thinking' (human-centered), 'lateral' (unexpected connections), 'auto' (AI selects best)"),
   domain: z.string().optional().describe("Domain context for specialized brainstorming (e.g., 'software', 'business', 'creative', 'research', 'product', 'marketing')"),
   constraints: z.string().optional().describe("Known limitations, requirements, or boundaries (budget, time, technical, legal, etc.)"),
@@ -128,8 +141,8 @@ const brainstormArgsSchema = z.object({
   ideaCount: z.number().int().positive().default(12).describe("Target number of ideas to generate (default: 10-15)"),
   includeAnalysis: z.boolean().default(true).describe("Include feasibility, impact, and implementation analysis for generated ideas"),
   includeHistory: z.boolean().default(true).describe("Include previously generated ideas in context (only applies when session is provided). Default: true"),
-  reasoningEffort: z.enum(['low', 'medium', 'high', 'xhigh']).optional().describe("Reasoning effort level (Codex only): 'low', 'medium' (default), 'high', 'xhigh'. Use 'high'/'xhigh' for complex tasks."),
-  allowedTools: z.array(z.string()).optional().describe("Tools that AI can auto-approve without confirmation (e.g., ['run_shell_command']). Use sparingly for security."),
+  reasoningEffort: z.enum(getSupportedReasoningEfforts()).optional().describe(describeReasoningEffortOption()),
+  allowedTools: z.array(z.string()).optional().describe(describeAllowedToolsOption()),
   cwd: z.string().optional().describe("Working directory for CLI execution. Use this to match your IDE workspace directory if you get 'Directory mismatch' errors."),
 });
 
@@ -147,7 +160,7 @@ export const brainstormTool: UnifiedTool = {
     description: "Generate structured brainstorming prompt with methodology-driven ideation, domain context integration, and analytical evaluation framework",
   },
   category: 'ai',
-  execute: async (args, onProgress) => {
+  execute: async (args, onProgress, signal) => {
     const {
       prompt,
       backend: backendChoice,
@@ -213,29 +226,48 @@ export const brainstormTool: UnifiedTool = {
 
     // Get the appropriate backend (defaults to session's last backend, then Gemini)
     const backendType: BackendType = backendChoice || sessionData?.lastBackend || 'gemini';
+    validateBackendOptions(backendType, getBackendCapabilities(backendType), {
+      reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
+      allowedTools: allowedTools as string[] | undefined,
+    });
     const backend = await getBackend(backendType);
 
     // Report progress to user
     onProgress?.(`🤖 Using ${backend.name} backend...`);
     onProgress?.(`Generating ${ideaCount} ideas via ${methodology} methodology...`);
 
+    // Budgets may refuse the request or switch to a cheaper model
+    const budgetModel = await enforceBudgets({
+      backend,
+      model: model as string | undefined,
+      prompt: enhancedPrompt,
+      sessionUsage: sessionData ? brainstormSessionManager.getSessionUsage(sessionData) : undefined,
+    }, onProgress);
+
     // Execute via the selected backend
-    // Pass existing codexThreadId for native session resume when using Codex
-    const result = await backend.execute(
-      enhancedPrompt,
+    // Pass stored resume handles (Gemini/Claude session, Codex thread) for native session resume;
+    // the ideas context is always part of the prompt, so a lost handle just starts a new session
+    const result = await executeWithResume(
+      backend,
       {
         provider: backendType,
-        model: model as string | undefined,
+        model: budgetModel,
         sandbox: false,
         changeMode: false,
         allowedTools: allowedTools as string[] | undefined,
         cwd: cwd as string | undefined,
-        codexThreadId: sessionData?.codexThreadId, // For Codex native session resume
-        reasoningEffort: reasoningEffort as 'low' | 'medium' | 'high' | 'xhigh' | undefined,
+        signal,
+        timeouts: getToolTimeouts('brainstorm'),
+        ...pickSessionHandles(sessionData),
+        reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
       },
+      () => enhancedPrompt,
       onProgress
     );
 
+    // A request cancelled while the backend was finishing must leave the session untouched
+    throwIfAborted(signal);
+
     // Save to session if provided
     if (session && sessionData) {
       try {
@@ -246,15 +278,14 @@ export const brainstormTool: UnifiedTool = {
           prompt as string,
           result.response,
           ideas,
-          backendType,
-          result.codexThreadId // Store Codex thread ID for native session resume
+          result.backend, // May differ from backendType when a fallback answered
+          result, // Store native resume handles returned by the backend
+          result.fallbackPath,
+          result.usage
         );
         await brainstormSessionManager.save(sessionData);
         onProgress?.(`💾 Saved to session '${session}' (${sessionData.totalIdeas} total ideas, ${sessionData.activeIdeas} active)`);
-        if (result.codexThreadId && result.codexThreadId.length > 0) {
-          const threadPreview = result.codexThreadId.slice(0, 8);
-          onProgress?.(`🔗 Codex thread: ${threadPreview}...`);
-        }
+        describeSessionHandles(result).forEach(line => onProgress?.(line));
       } catch (error) {
         onProgress?.(`⚠️  Session save failed: ${error instanceof Error ? error.message : String(error)}`);
         Logger.error(`Failed to save session '${session}': ${error}`);
@@ -262,9 +293,16 @@ export const brainstormTool: UnifiedTool = {
       }
     }
 
+    const usageFooter = formatUsageFooter({
+      usage: result.usage,
+      sessionUsage: sessionData ? brainstormSessionManager.getSessionUsage(sessionData) : undefined,
+      dailyUsage: await getDailyUsage(result.backend),
+      backend: result.backend,
+    });
+
     // Use backend-aware response prefix
-    const backendName = backend.name.charAt(0).toUpperCase() + backend.name.slice(1);
-    return `${backendName} response:\n${result.response}`;
+    const backendName = result.backend.charAt(0).toUpperCase() + result.backend.slice(1);
+    return `${backendName} response:\n${result.response}${usageFooter}`;
   }
 };
 
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { UnifiedTool } from './registry.js';
+import { loadReviewSession } from '../utils/reviewSessionManager.js';
+import { DiffTarget, describeDiffTarget, getDiff, parseDiffTarget } from '../utils/gitDiff.js';
+import { resolveCommit } from '../utils/gitStateDetector.js';
+import {
+  ReviewRefs,
+  buildGitHubReviewPayload,
+  buildGitLabDiscussions,
+  getOpenComments
+} from '../utils/reviewPayloadExporter.js';
+import { isPathWithinWorkspace } from '../utils/fileRefInliner.js';
+import { REVIEW } from '../constants.js';
+
+const exportPayloadsArgsSchema = z.object({
+  sessionId: z
+    .string()
+    .min(1)
+    .describe("Full review session ID as shown in review-code output (e.g. 'review-pr-feature-1a2b3c4d')"),
+  diff: z
+    .string()
+    .optional()
+    .describe("Commit range the pull/merge request shows (e.g. 'main..feature'). Defaults to the merge-base range of pull-request sessions."),
+  outputDir: z
+    .string()
+    .default(REVIEW.PAYLOAD_DIR)
+    .describe(`Directory (relative to cwd and inside it) the payload files are written to (default ${REVIEW.PAYLOAD_DIR})`),
+  cwd: z
+    .string()
+    .optional()
+    .describe('Repository directory the diff is computed in')
+});
+
+/**
+ * Commit range of the export: the explicit diff, or the pull-request range of the session
+ */
+function resolveDiffTarget(diff: string | undefined, pullRequest?: { mergeBase: string }): Extract<DiffTarget, { kind: 'range' }> {
+  if (!diff) {
+    if (!pullRequest) {
+      throw new Error("Pass 'diff' with the commit range of the pull request (e.g. 'main..feature'); this session is not a pull-request review");
+    }
+    return { kind: 'range', base: pullRequest.mergeBase, head: 'HEAD' };
+  }
+
+  const target = parseDiffTarget(diff);
+  if (target.kind !== 'range') {
+    throw new Error(`Review payloads need a commit range, not ${describeDiffTarget(target)}`);
+  }
+  return { ...target, head: target.head ?? 'HEAD' };
+}
+
+export const exportPayloadsTool: UnifiedTool = {
+  name: 'export-review-payloads',
+  description:
+    'Write ready-to-post review payloads for the open comments of a review-code session: a GitHub "create review" request body and GitLab merge request discussions, with comments positioned on diff lines. Nothing is posted.',
+  zodSchema: exportPayloadsArgsSchema,
+  annotations: {
+    readOnlyHint: false,     // Writes the payload files
+    destructiveHint: false,  // Only overwrites its own output files
+    idempotentHint: true,    // Same session and diff yield the same payloads
+    openWorldHint: false,    // Nothing is posted
+  },
+  category: 'utility',
+
+  execute: async (args, onProgress) => {
+    const { sessionId, diff, outputDir, cwd } = args;
+    const workingDirectory = path.resolve((cwd as string | undefined) ?? process.cwd());
+    const directory = path.resolve(workingDirectory, outputDir as string);
+    if (!isPathWithinWorkspace(directory, workingDirectory)) {
+      throw new Error(`outputDir must be inside ${workingDirectory}: ${outputDir}`);
+    }
+
+    const session = await loadReviewSession(sessionId as string);
+    if (!session) {
+      throw new Error(`Review session '${sessionId}' was not found or has expired`);
+    }
+
+    const target = resolveDiffTarget(diff as string | undefined, diff ? undefined : session.pullRequest);
+    const [files, headSha, baseSha] = await Promise.all([
+      getDiff(target, workingDirectory),
+      resolveCommit(target.head!, workingDirectory),
+      resolveCommit(target.base, workingDirectory)
+    ]);
+    // GitLab's start_sha is the target branch tip; outside pull-request mode the base is all we know
+    const startSha = !diff && session.pullRequest
+      ? await resolveCommit(session.pullRequest.targetBranch, workingDirectory)
+      : baseSha;
+    const refs: ReviewRefs = { baseSha, startSha, headSha };
+    onProgress?.(`📐 Positioning comments on ${files.length} changed file(s) in ${describeDiffTarget(target)}`);
+
+    const openCount = getOpenComments(session.allComments).length;
+    const summary = `Review session \`${session.sessionId}\`: ${openCount} open finding(s) after ${session.totalRounds} round(s).`;
+    const github = buildGitHubReviewPayload(session.allComments, files, refs, summary);
+    const gitlab = buildGitLabDiscussions(session.allComments, files, refs);
+
+    const githubPath = path.join(directory, REVIEW.GITHUB_PAYLOAD_FILE);
+    const gitlabPath = path.join(directory, REVIEW.GITLAB_PAYLOAD_FILE);
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(githubPath, `${JSON.stringify(github, null, 2)}\n`, 'utf-8');
+    await fs.writeFile(gitlabPath, `${JSON.stringify(gitlab, null, 2)}\n`, 'utf-8');
+
+    const positioned = github.comments.length;
+    return `📦 Review payloads for ${session.sessionId} (${describeDiffTarget(target)}, head ${headSha.slice(0, 8)})
+
+- GitHub create review: ${githubPath}
+- GitLab discussions: ${gitlabPath}
+
+${positioned} of ${openCount} open comment(s) positioned on diff lines; ${openCount - positioned} added to the review body (GitLab: discussions without a position).`;
+  }
+};
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { UnifiedTool } from './registry.js';
+import { loadReviewSession } from '../utils/reviewSessionManager.js';
+import { formatSarif } from '../utils/sarifExporter.js';
+import { isPathWithinWorkspace } from '../utils/fileRefInliner.js';
+import { Logger } from '../utils/logger.js';
+
+const exportSarifArgsSchema = z.object({
+  sessionId: z
+    .string()
+    .min(1)
+    .describe("Full review session ID as shown in review-code output (e.g. 'review-main-1a2b3c4d')"),
+  outputFile: z
+    .string()
+    .optional()
+    .describe('Also write the SARIF log to this file (relative to cwd and inside it), e.g. for a code-scanning upload'),
+  cwd: z
+    .string()
+    .optional()
+    .describe('Working directory that outputFile is relative to')
+});
+
+export const exportSarifTool: UnifiedTool = {
+  name: 'export-review-sarif',
+  description:
+    'Export all comments of a review-code session as SARIF 2.1.0 for code-scanning dashboards. Severity maps to level, file/lines to locations, and decisions to suppressions and baseline state.',
+  zodSchema: exportSarifArgsSchema,
+  annotations: {
+    readOnlyHint: false,     // Writes outputFile when given
+    destructiveHint: false,  // Only overwrites the requested output file
+    idempotentHint: true,    // Same session yields the same log
+    openWorldHint: false,    // No external interactions
+  },
+  category: 'utility',
+
+  execute: async (args, onProgress) => {
+    const { sessionId, outputFile, cwd } = args;
+
+    const session = await loadReviewSession(sessionId as string);
+    if (!session) {
+      throw new Error(`Review session '${sessionId}' was not found or has expired`);
+    }
+
+    const sarif = formatSarif(session);
+
+    if (outputFile) {
+      const baseDir = path.resolve((cwd as string | undefined) ?? process.cwd());
+      const outputPath = path.resolve(baseDir, outputFile as string);
+      if (outputPath === baseDir || !isPathWithinWorkspace(outputPath, baseDir)) {
+        throw new Error(`outputFile must be a file inside ${baseDir}: ${outputFile}`);
+      }
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, `${sarif}\n`, 'utf-8');
+      Logger.debug(`Wrote SARIF for ${sessionId} to ${outputPath}`);
+      onProgress?.(`💾 Wrote ${session.allComments.length} finding(s) to ${outputPath}`);
+    }
+
+    return sarif;
+  }
+};
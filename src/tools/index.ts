@@ -3,12 +3,16 @@ import { toolRegistry } from './registry.js';
 import { askTool } from './ask.tool.js';
 import { brainstormTool } from './brainstorm.tool.js';
 import { reviewCodeTool } from './review-code.tool.js';
+import { exportSarifTool } from './export-sarif.tool.js';
+import { exportPayloadsTool } from './export-payloads.tool.js';
 
 // Register tools
 toolRegistry.push(
   askTool,
   brainstormTool,
-  reviewCodeTool
+  reviewCodeTool,
+  exportSarifTool,
+  exportPayloadsTool
 );
 
 export * from './registry.js';
@@ -17,3 +21,5 @@ export * from './registry.js';
 export { askTool } from './ask.tool.js';
 export { brainstormTool } from './brainstorm.tool.js';
 export { reviewCodeTool } from './review-code.tool.js';
+export { exportSarifTool } from './export-sarif.tool.js';
+export { exportPayloadsTool } from './export-payloads.tool.js';
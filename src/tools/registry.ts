@@ -37,7 +37,10 @@ export interface UnifiedTool {
     }>;
   };
 
-  execute: (args: ToolArguments, onProgress?: (newOutput: string) => void) => Promise<string>;
+  /**
+   * @param signal Fires when the client cancels the request (notifications/cancelled)
+   */
+  execute: (args: ToolArguments, onProgress?: (newOutput: string) => void, signal?: AbortSignal) => Promise<string>;
   category?: 'simple' | 'ai' | 'utility';
 }
 
@@ -92,10 +95,10 @@ export function getPromptDefinitions(): Prompt[] { // Helper to get MCP Prompt d
     }));
 }
 
-export async function executeTool(toolName: string, args: ToolArguments, onProgress?: (newOutput: string) => void): Promise<string> {
+export async function executeTool(toolName: string, args: ToolArguments, onProgress?: (newOutput: string) => void, signal?: AbortSignal): Promise<string> {
   const tool = toolRegistry.find(t => t.name === toolName);
   if (!tool) { throw new Error(`Unknown tool: ${toolName}`); } try { const validatedArgs = tool.zodSchema.parse(args);
-    return tool.execute(validatedArgs, onProgress);
+    return tool.execute(validatedArgs, onProgress, signal);
   } catch (error) { if (error instanceof ZodError) {
       const issues = error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
       throw new Error(`Invalid arguments for ${toolName}: ${issues}`);
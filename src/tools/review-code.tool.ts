@@ -1,9 +1,26 @@
 import { z } from 'zod';
 import { UnifiedTool } from './registry.js';
-import { getBackend, BackendType } from '../backends/index.js';
+import { getBackend, BackendType, BackendResult, FallbackAttempt, ReasoningEffort, TokenUsage } from '../backends/index.js';
+import { getBackendNames, getBackendCapabilities } from '../backends/registry.js';
+import {
+  validateBackendOptions,
+  resolveModel,
+  describeModelOption,
+  describeReasoningEffortOption,
+  describeAllowedToolsOption,
+  getSupportedReasoningEfforts
+} from '../backends/capabilities.js';
+import {
+  pickSessionHandles,
+  storeSessionHandles,
+  describeSessionHandles,
+  executeWithResume
+} from '../backends/sessionHandles.js';
 import {
   getCurrentGitState,
   generateSessionId,
+  generatePullRequestSessionId,
+  getMergeBase,
   detectSessionContinuation
 } from '../utils/gitStateDetector.js';
 import {
@@ -14,27 +31,64 @@ import {
 import type {
   ReviewCodeSessionData as CodeReviewSession,
   ReviewComment,
+  ReviewParseStats,
   ReviewRound,
 } from '../utils/sessionSchemas.js';
 import { buildReviewPrompt, extractFilesFromPrompt } from '../utils/reviewPromptBuilder.js';
+import {
+  DiffFile,
+  parseDiffTarget,
+  describeDiffTarget,
+  getDiff,
+  getRepoPrefix,
+  getRepoRoot,
+  isOnChangedLines,
+  toRepoPath
+} from '../utils/gitDiff.js';
 import { parseReviewResponse, validateComments } from '../utils/reviewResponseParser.js';
+import { parseStructuredReview, sumParseStats } from '../utils/structuredReviewParser.js';
+import { mergeReviewerComments, ReviewerComments } from '../utils/reviewMerger.js';
+import { anchorComments, relocateComments } from '../utils/commentAnchoring.js';
+import { buildVerificationPrompt, parseVerificationResponse } from '../utils/resolutionVerifier.js';
+import {
+  loadBaseline,
+  saveBaseline,
+  filterSuppressed,
+  addToBaseline,
+  getBaselinePath
+} from '../utils/reviewBaseline.js';
+import { loadRulePacks, selectRulePacks, usesRuleIds, assignRuleIds } from '../utils/reviewRulePacks.js';
+import { describeParticipant } from '../utils/consensusBuilder.js';
 import {
   formatReviewResponse,
   formatSessionNotFound,
-  formatGitStateWarning
+  formatGitStateWarning,
+  formatCompletionReport
 } from '../utils/reviewFormatter.js';
+import { formatSarif } from '../utils/sarifExporter.js';
 import { Logger } from '../utils/logger.js';
-import { MODELS } from '../constants.js';
+import { isAbortError, throwIfAborted } from '../utils/cancellation.js';
+import { getToolTimeouts } from '../utils/timeoutManager.js';
+import { estimateTokens, getDailyUsage, sumUsage } from '../utils/tokenUsage.js';
+import { planDiffBatches, planFileBatches } from '../utils/reviewBatcher.js';
+import { ConcurrencyPool } from '../utils/concurrencyPool.js';
+import { REVIEW } from '../constants.js';
+import { enforceBudgets, isBudgetError } from '../utils/budgetGuard.js';
 
 const reviewCodeArgsSchema = z.object({
+  action: z
+    .enum(['review', 'suppress-rejected', 'pause', 'complete', 'reopen'])
+    .default('review')
+    .describe("'review' (default) runs a review round. 'suppress-rejected' adds the comments rejected in this session to the repo's suppression baseline (.review-baseline.json) without reviewing; later reviews skip those findings. 'pause' marks the session paused (the next review resumes it). 'complete' closes the session and returns a final report; a completed session takes no new rounds until 'reopen'. commentDecisions passed with any action are applied first."),
   prompt: z
     .string()
     .min(1)
-    .describe('Review request or follow-up question'),
+    .optional()
+    .describe("Review request or follow-up question (required for action 'review')"),
   backend: z
-    .enum(['gemini', 'codex'])
+    .enum(getBackendNames())
     .optional()
-    .describe("AI backend to use: 'gemini' (default) or 'codex'. Gemini offers 1M+ token context, Codex integrates with OpenAI models."),
+    .describe("AI backend to use: 'gemini' (default), 'codex', 'claude' or 'local'. Gemini offers 1M+ token context, Codex integrates with OpenAI models, Claude runs Claude Code, local targets an OpenAI-compatible server (Ollama, llama.cpp). Generic CLI backends from the server config are also accepted."),
   files: z
     .array(z.string())
     .optional()
@@ -48,9 +102,9 @@ const reviewCodeArgsSchema = z.object({
     .default(false)
     .describe('Force create new session ignoring git state'),
   reviewType: z
-    .enum(['security', 'performance', 'quality', 'architecture', 'general'])
+    .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
     .default('general')
-    .describe('Type of review to perform'),
+    .describe("Type of review to perform: 'security', 'performance', 'quality', 'architecture', 'general' (default), or the name of a rule pack in the repo's .review-rules/ directory. Pass an array to combine several; findings are then tagged with the rule that produced them."),
   severity: z
     .enum(['all', 'critical-only', 'important-and-above'])
     .default('all')
@@ -78,11 +132,11 @@ const reviewCodeArgsSchema = z.object({
   model: z
     .string()
     .optional()
-    .describe("Model override. Gemini: 'gemini-3.1-pro' (default), 'gemini-3-flash', 'gemini-2.5-pro', 'gemini-2.5-flash'. Codex: 'gpt-5.4' (default), 'gpt-5.4-mini', 'gpt-5.3-codex', 'gpt-5.2-codex', 'gpt-5.2'"),
+    .describe(describeModelOption('review')),
   reasoningEffort: z
-    .enum(['low', 'medium', 'high', 'xhigh'])
+    .enum(getSupportedReasoningEfforts())
     .optional()
-    .describe("Reasoning effort level (Codex only): 'low', 'medium' (default), 'high', 'xhigh'. Use 'high'/'xhigh' for complex tasks."),
+    .describe(describeReasoningEffortOption()),
   includeHistory: z
     .boolean()
     .default(true)
@@ -90,28 +144,80 @@ const reviewCodeArgsSchema = z.object({
   allowedTools: z
     .array(z.string())
     .optional()
-    .describe('Tools that AI can auto-approve without confirmation (e.g., [\'run_shell_command\']). Use sparingly for security.'),
+    .describe(describeAllowedToolsOption()),
   cwd: z
     .string()
     .optional()
-    .describe('Working directory for CLI execution. Use this to match your IDE workspace directory if you get \'Directory mismatch\' errors.')
+    .describe('Working directory for CLI execution. Use this to match your IDE workspace directory if you get \'Directory mismatch\' errors.'),
+  responseFormat: z
+    .enum(['json', 'markdown'])
+    .default('json')
+    .describe("How the backend reports findings. 'json' (default) asks for a JSON document validated against a schema; a response that fails validation is sent back once for repair, then parsed as markdown as a last resort. 'markdown' uses the bold-label text format."),
+  outputFormat: z
+    .enum(['markdown', 'sarif'])
+    .default('markdown')
+    .describe("'markdown' (default) returns the review report. 'sarif' returns all comments of the session as a SARIF 2.1.0 log for code-scanning dashboards."),
+  diff: z
+    .string()
+    .optional()
+    .describe("Review only changed lines: a base ref ('main', compared with the working tree), a range ('main..feature'), 'staged' or 'working-tree' (all uncommitted changes). Only the changed hunks plus context are sent, and comments outside the changed lines are dropped."),
+  targetBranch: z
+    .string()
+    .optional()
+    .describe("Pull-request mode: the branch this branch merges into (e.g. 'main'). Reviews the changes since the merge-base, split into batches that fit the backend's context window, as one consolidated report. The session is keyed on branch + merge-base, so new commits continue the same PR review."),
+  reviewers: z
+    .array(z.enum(getBackendNames()))
+    .min(2)
+    .optional()
+    .describe("Multi-reviewer mode: backends that review the same files in parallel (e.g. ['gemini', 'codex']), each with its default review model. Findings on overlapping lines are merged and list the reviewers that raised them; findings raised by every reviewer rank first.")
 });
 
+/**
+ * Outcome of the review step of a round, from one backend or several merged reviewers
+ */
+interface ReviewExecution {
+  response: string;
+  comments: ReviewComment[];
+  backend: BackendType;
+  reviewers?: BackendType[];
+  fallbackPath?: FallbackAttempt[];
+  usage?: TokenUsage;
+  parseStats?: ReviewParseStats;
+}
+
+/** Review output format requested from the backends */
+type ResponseFormat = 'json' | 'markdown';
+
+/**
+ * Part of a round sent in one request: a group of files, or of changed files in a diff review
+ */
+interface ReviewBatch {
+  files?: string[];
+  diffFiles?: DiffFile[];
+}
+
+/** Result of one batch: its execution, or why it failed */
+interface BatchOutcome {
+  execution?: ReviewExecution;
+  error?: string;
+}
+
 export const reviewCodeTool: UnifiedTool = {
   name: 'review-code',
   description:
     'Interactive code review with session continuity. Auto-detects git state for session management. Maintains conversation history and tracks review decisions across iterations.',
   zodSchema: reviewCodeArgsSchema,
   annotations: {
-    readOnlyHint: true,      // Only reads files and git state
-    destructiveHint: false,  // Doesn't modify or delete data
+    readOnlyHint: false,     // Writes .review-baseline.json on suppress-rejected
+    destructiveHint: false,  // Only adds entries to the baseline file
     idempotentHint: false,   // Same input yields different AI responses
     openWorldHint: true,     // Interacts with external AI APIs
   },
   category: 'ai',
 
-  execute: async (args, onProgress) => {
+  execute: async (args, onProgress, signal) => {
     const {
+      action,
       prompt,
       backend: backendChoice,
       files,
@@ -124,14 +230,43 @@ export const reviewCodeTool: UnifiedTool = {
       reasoningEffort,
       includeHistory,
       allowedTools,
-      cwd
+      cwd,
+      diff: diffArg,
+      targetBranch,
+      reviewers,
+      responseFormat,
+      outputFormat
     } = args;
 
     try {
+      const isReview = (action ?? 'review') === 'review';
+      const isLifecycleAction = action === 'pause' || action === 'complete' || action === 'reopen';
+      if (isReview && !prompt) {
+        throw new Error("prompt is required for action 'review'");
+      }
+
+      const reviewerList = reviewers ? [...new Set(reviewers as BackendType[])] : undefined;
+      if (reviewerList && reviewerList.length < 2) {
+        throw new Error('reviewers needs at least two different backends');
+      }
+      if (reviewerList && model) {
+        throw new Error('model cannot be combined with reviewers; each reviewer uses its default review model');
+      }
+      if (targetBranch && diffArg) {
+        throw new Error('diff cannot be combined with targetBranch; a pull-request review diffs against the merge-base');
+      }
+
       // Step 1: Determine session
       onProgress?.('🔍 Detecting git state and session...');
       const currentGitState = await getCurrentGitState(cwd as string | undefined);
-      const detectedSessionId = generateSessionId(currentGitState);
+
+      // Pull-request reviews are keyed on branch + merge-base, so new commits continue the same session
+      const mergeBase = targetBranch
+        ? await getMergeBase(targetBranch as string, cwd as string | undefined)
+        : undefined;
+      const detectedSessionId = mergeBase
+        ? generatePullRequestSessionId(currentGitState, mergeBase)
+        : generateSessionId(currentGitState);
 
       // Sanitize user-provided session ID to prevent path traversal
       const sanitizeSessionId = (id: string): string => {
@@ -143,12 +278,29 @@ export const reviewCodeTool: UnifiedTool = {
       // e.g., "iterative-review" becomes "iterative-review-main-abc12345"
       const sanitizedSessionId = sessionId ? sanitizeSessionId(sessionId as string) : null;
       const targetSessionId = sanitizedSessionId
-        ? `${sanitizedSessionId}-${currentGitState.branch.replace(/[^a-zA-Z0-9-_]/g, '-')}-${currentGitState.commitHash.slice(0, 8)}`
+        ? `${sanitizedSessionId}-${currentGitState.branch.replace(/[^a-zA-Z0-9-_]/g, '-')}-${(mergeBase ?? currentGitState.commitHash).slice(0, 8)}`
         : detectedSessionId;
 
       Logger.debug(`Current git state: ${currentGitState.branch} @ ${currentGitState.commitHash.slice(0, 8)}`);
       Logger.debug(`Target session ID: ${targetSessionId}`);
 
+      // Diff-scoped reviews send only the changed hunks; nothing changed means nothing to review.
+      // Lifecycle actions only address the session, so they never depend on the diff.
+      let diff: { description: string; files: DiffFile[] } | undefined;
+      if ((diffArg || mergeBase) && !isLifecycleAction) {
+        const target = mergeBase
+          ? { kind: 'range' as const, base: mergeBase, head: 'HEAD' }
+          : parseDiffTarget(diffArg as string);
+        const description = mergeBase ? `${mergeBase.slice(0, 8)}..HEAD` : describeDiffTarget(target);
+        onProgress?.(`📐 Computing diff (${description})...`);
+        const diffFiles = await getDiff(target, cwd as string | undefined, files as string[] | undefined);
+        if (diffFiles.length === 0) {
+          return `No changes found for ${description}${files?.length ? ` in ${(files as string[]).join(', ')}` : ''}. Nothing to review.`;
+        }
+        diff = { description, files: diffFiles };
+        Logger.debug(`Diff ${description}: ${diffFiles.length} changed file(s)`);
+      }
+
       // Step 2: Load or create session
       let session: CodeReviewSession;
       let isNewSession = false;
@@ -161,11 +313,10 @@ export const reviewCodeTool: UnifiedTool = {
         const existing = await loadReviewSession(targetSessionId);
 
         if (existing) {
-          // Validate git state hasn't diverged
-          const continuationCheck = detectSessionContinuation(
-            currentGitState,
-            existing.gitState
-          );
+          // Validate git state hasn't diverged (new commits are expected in a pull-request review)
+          const continuationCheck = mergeBase
+            ? { canContinue: true }
+            : detectSessionContinuation(currentGitState, existing.gitState);
 
           if (!continuationCheck.canContinue) {
             onProgress?.(formatGitStateWarning(continuationCheck.reason!, true));
@@ -190,74 +341,170 @@ export const reviewCodeTool: UnifiedTool = {
         }
       }
 
+      if (isReview && session.sessionState === 'completed') {
+        throw new Error(
+          `Review session '${session.sessionId}' is completed. Use action 'reopen' to review it again, or forceNewSession to start a new session`
+        );
+      }
+      if (isReview && session.sessionState === 'paused') {
+        onProgress?.('▶️ Resuming paused session');
+        session.sessionState = 'active';
+      }
+
       // Step 3: Process comment decisions from previous round
+      let acceptedComments: ReviewComment[] = [];
       if (commentDecisions && commentDecisions.length > 0) {
-        applyCommentDecisions(session, commentDecisions);
+        acceptedComments = applyCommentDecisions(session, commentDecisions);
         onProgress?.(`✅ Applied ${commentDecisions.length} comment decision(s)`);
       }
 
+      if (isLifecycleAction) {
+        if (isNewSession) {
+          return formatSessionNotFound(session.sessionId, currentGitState.branch, currentGitState.commitHash);
+        }
+        return await changeSessionState(session, action, onProgress);
+      }
+
+      const workingDirectory = (cwd as string | undefined) ?? process.cwd();
+      // Comment paths are relative to the repository root like diff paths, so reviews started
+      // from a subdirectory anchor, filter and verify comments against the right files
+      const repoRoot = await getRepoRoot(workingDirectory);
+      const baseline = await loadBaseline(workingDirectory);
+
+      if (action === 'suppress-rejected') {
+        return await suppressRejectedComments(session, baseline, workingDirectory, isNewSession, onProgress);
+      }
+
+      // Review types may name repo rule packs; unknown names fail before anything is sent
+      const reviewTypes = [...new Set(Array.isArray(reviewType) ? reviewType as string[] : [reviewType as string])];
+      const rulePacks = selectRulePacks(reviewTypes, await loadRulePacks(workingDirectory));
+      if (rulePacks.length > 0) {
+        onProgress?.(`📋 Rule packs: ${rulePacks.map(pack => `${pack.name} (${pack.rules.length} rule(s))`).join(', ')}`);
+      }
+
+      // Step 3b: Re-locate pending comments in the current code (line numbers go stale after edits)
+      const relocation = await relocateComments(session.allComments, repoRoot);
+      if (relocation.moved > 0 || relocation.possiblyResolved > 0) {
+        onProgress?.(
+          `📍 Re-anchored pending comments: ${relocation.moved} moved, ${relocation.possiblyResolved} possibly resolved (code no longer found)`
+        );
+      }
+
+      // Step 3c: Check that the fixes of newly accepted comments landed
+      const backendTypes: BackendType[] = reviewerList ?? [backendChoice || session.lastBackend || 'gemini'];
+      const verificationUsage = acceptedComments.length > 0
+        ? await verifyAcceptedComments(backendTypes[0], acceptedComments, {
+          roundNumber: session.totalRounds + 1,
+          model: model as string | undefined,
+          cwd: repoRoot,
+          sessionUsage: sumUsage(session.rounds.map(round => round.usage)),
+          onProgress,
+          signal,
+        })
+        : undefined;
+
       // Step 4: Update files tracked - use Set for efficient uniqueness handling
-      if (files && files.length > 0) {
-        session.filesTracked = [...new Set([...session.filesTracked, ...files])];
+      const reviewedFiles = diff ? diff.files.map(file => file.path) : files;
+      if (reviewedFiles && reviewedFiles.length > 0) {
+        session.filesTracked = [...new Set([...session.filesTracked, ...reviewedFiles])];
+      }
+      if (diff) {
+        session.reviewScope = 'changes-only';
+      }
+      if (mergeBase) {
+        session.pullRequest = { targetBranch: targetBranch as string, mergeBase };
       }
 
-      // Step 5: Build review prompt with context
-      const reviewPrompt = buildReviewPrompt({
+      // Step 5: Split the changes into batches that fit the reviewing backends' context window
+      const promptConfig = {
         userPrompt: prompt as string,
         session,
         files: files as string[] | undefined,
-        reviewType: reviewType as string,
+        reviewType: reviewTypes.join(', '),
         severity: severity as string,
         includeHistory: !!includeHistory,
-        currentGitState
-      });
+        currentGitState,
+        suppressions: baseline.suppressions,
+        responseFormat: responseFormat as ResponseFormat | undefined,
+        rulePacks
+      };
+      // Files (or changed files) are grouped by size and directory; each batch is one request
+      const maxContextTokens = Math.min(...backendTypes.map(type => getBackendCapabilities(type).maxContextTokens));
+      const fileList = files as string[] | undefined;
+      let batches: ReviewBatch[] = [{}];
+      if (diff) {
+        const reservedTokens = estimateTokens(buildReviewPrompt({ ...promptConfig, diff: { description: diff.description, files: [] } }));
+        batches = planDiffBatches(diff.files, maxContextTokens, reservedTokens).map(diffFiles => ({ diffFiles }));
+      } else if (fileList && fileList.length > 1) {
+        const reservedTokens = estimateTokens(buildReviewPrompt({ ...promptConfig, files: [] }));
+        batches = (await planFileBatches(fileList, workingDirectory, maxContextTokens, reservedTokens)).map(batchFiles => ({ files: batchFiles }));
+      }
+      if (batches.length > 1) {
+        const fileCount = diff ? `${diff.files.length} changed` : `${fileList!.length}`;
+        onProgress?.(
+          `📦 Splitting ${fileCount} files into ${batches.length} batches by size and directory (${REVIEW.MAX_PARALLEL_BATCHES} at a time)`
+        );
+      }
+
+      // Step 6: Execute review via selected backend(s), one request per batch
+      // The verification ran just before, so its tokens count towards the budgets of the review
+      const sessionUsage = sumUsage([...session.rounds.map(round => round.usage), verificationUsage]);
+      const reviewPrompts = batches.map(batch => buildReviewPrompt({
+        ...promptConfig,
+        files: batch.files ?? promptConfig.files,
+        diff: diff && batch.diffFiles ? { description: diff.description, files: batch.diffFiles } : undefined
+      }));
+      Logger.debug(`Built ${reviewPrompts.length} review prompt(s) (${reviewPrompts.map(p => p.length).join(', ')} chars)`);
 
-      Logger.debug(`Built review prompt (${reviewPrompt.length} chars)`);
-
-      // Step 6: Execute review via selected backend (defaults to session's last backend, then Gemini)
-      const backendType: BackendType = backendChoice || session.lastBackend || 'gemini';
-      const backend = await getBackend(backendType);
-
-      onProgress?.(`🤖 Using ${backend.name} backend...`);
-      onProgress?.(
-        `🔍 Round ${session.totalRounds + 1}: Reviewing ${files?.length || 'tracked'} file(s)...`
-      );
-
-      const selectedModel =
-        backendType === 'gemini'
-          ? (model as string | undefined) || MODELS.FLASH
-          : (model as string | undefined);
-
-      // Pass existing codexThreadId for native session resume when using Codex
-      const backendResult = await backend.execute(
-        reviewPrompt,
-        {
-          provider: backendType,
-          model: selectedModel,
-          sandbox: false,
-          changeMode: false,
+      // Batches run in parallel against the same usage snapshot, so each one counts the
+      // estimated prompts of the batches started before it towards the budgets
+      const participants = reviewerList?.length ?? 1;
+      const reservedTokens = (index: number) =>
+        reviewPrompts.slice(0, index).reduce((total, reviewPrompt) => total + estimateTokens(reviewPrompt), 0) * participants;
+
+      const runBatch = (index: number): Promise<ReviewExecution> => {
+        const executionOptions = {
+          reviewPrompt: reviewPrompts[index],
+          roundNumber: session.totalRounds + 1,
+          responseFormat: responseFormat as ResponseFormat | undefined,
+          reasoningEffort: reasoningEffort as ReasoningEffort | undefined,
           allowedTools: allowedTools as string[] | undefined,
           cwd: cwd as string | undefined,
-          codexThreadId: session.codexThreadId, // For Codex native session resume
-          reasoningEffort: reasoningEffort as 'low' | 'medium' | 'high' | 'xhigh' | undefined,
-        },
-        onProgress
-      );
+          sessionUsage,
+          reservedTokens: reservedTokens(index),
+          onProgress,
+          signal,
+        };
+        return reviewerList
+          ? executeReviewers(reviewerList, executionOptions)
+          : executeSingleReview(backendTypes[0], session, {
+            ...executionOptions,
+            model: model as string | undefined,
+            // Concurrent batches must not share one native CLI session
+            nativeSession: batches.length === 1,
+          });
+      };
+
+      let outcomes: BatchOutcome[];
+      if (batches.length === 1) {
+        onProgress?.(`🔍 Round ${session.totalRounds + 1}: Reviewing ${reviewedFiles?.length || 'tracked'} file(s)...`);
+        outcomes = [{ execution: await runBatch(0) }];
+      } else {
+        outcomes = await executeBatches(batches, runBatch, { roundNumber: session.totalRounds + 1, onProgress, signal });
+      }
+      const failedBatches = outcomes.filter(outcome => !outcome.execution).length;
 
-      // Always track which backend was used
-      session.lastBackend = backendType;
+      const execution = combineExecutions(outcomes);
+      let newComments = execution.comments;
 
-      // Store Codex thread ID for native session resume
-      if (backendResult.codexThreadId && backendResult.codexThreadId.length > 0) {
-        session.codexThreadId = backendResult.codexThreadId;
-        const threadPreview = backendResult.codexThreadId.slice(0, 8);
-        onProgress?.(`🔗 Codex thread: ${threadPreview}...`);
+      if (usesRuleIds(reviewTypes, rulePacks)) {
+        assignRuleIds(newComments, reviewTypes, rulePacks);
       }
 
-      // Step 7: Parse response into structured comments
-      onProgress?.('📝 Parsing review feedback...');
-      let newComments = parseReviewResponse(backendResult.response, session.totalRounds + 1);
-      newComments = validateComments(newComments);
+      if (execution.parseStats?.failures) {
+        const { failures, repaired, markdownFallbacks } = execution.parseStats;
+        onProgress?.(`⚠️ ${failures} response(s) failed JSON validation: ${repaired} repaired, ${markdownFallbacks} parsed as markdown`);
+      }
 
       // Apply severity filter if requested
       if (severity === 'critical-only') {
@@ -268,18 +515,55 @@ export const reviewCodeTool: UnifiedTool = {
         );
       }
 
+      // File reviews name files relative to cwd; diff reviews already use the diff's repo-root paths.
+      // Comments without a line range may carry a placeholder ("General") instead of a file
+      if (!diff) {
+        const repoPrefix = await getRepoPrefix(workingDirectory);
+        newComments.filter(comment => comment.lineRange).forEach(comment => {
+          comment.filePattern = toRepoPath(comment.filePattern, repoPrefix);
+        });
+      }
+
+      // Diff-scoped reviews only keep comments on changed lines
+      if (diff) {
+        const parsedCount = newComments.length;
+        newComments = newComments.filter(c => isOnChangedLines(c, diff!.files));
+        if (newComments.length < parsedCount) {
+          onProgress?.(`✂️ Dropped ${parsedCount - newComments.length} comment(s) outside the changed lines`);
+        }
+      }
+
+      // Findings the team suppressed in the baseline are dropped even if the model raised them again
+      const { kept, suppressed } = filterSuppressed(newComments, baseline);
+      newComments = kept;
+      if (suppressed.length > 0) {
+        onProgress?.(`🔕 Suppressed ${suppressed.length} finding(s) listed in the baseline`);
+      }
+
       Logger.debug(`Parsed ${newComments.length} comments (after filtering)`);
 
+      // Fingerprint the code each comment points at, so later rounds can find it again
+      await anchorComments(newComments, repoRoot);
+
       // Step 8: Create new review round
-      const filesReviewed = files || extractFilesFromPrompt(reviewPrompt);
+      const filesReviewed = reviewedFiles || extractFilesFromPrompt(reviewPrompts.join('\n'));
       const newRound: ReviewRound = {
         roundNumber: session.totalRounds + 1,
         timestamp: Date.now(),
         filesReviewed: filesReviewed as string[],
         userPrompt: prompt as string,
-        response: backendResult.response,
+        response: execution.response,
         commentsGenerated: newComments,
-        gitState: currentGitState
+        gitState: currentGitState,
+        backend: execution.backend,
+        reviewers: execution.reviewers,
+        diffTarget: diff?.description,
+        batches: batches.length > 1 ? batches.length : undefined,
+        failedBatches: failedBatches || undefined,
+        suppressedCount: suppressed.length || undefined,
+        parseStats: execution.parseStats?.failures ? execution.parseStats : undefined,
+        fallbackPath: execution.fallbackPath,
+        usage: sumUsage([execution.usage, verificationUsage])
       };
 
       session.rounds.push(newRound);
@@ -292,31 +576,515 @@ export const reviewCodeTool: UnifiedTool = {
       onProgress?.('💾 Session saved');
 
       // Step 10: Format and return response
+      if (outputFormat === 'sarif') {
+        return formatSarif(session);
+      }
+
       const formattedResponse = formatReviewResponse({
         session,
         currentRound: newRound,
         newComments,
-        showHistory: !!includeHistory
+        showHistory: !!includeHistory,
+        // Daily totals are per backend, so a multi-reviewer round has no single one to show
+        dailyUsage: execution.reviewers ? undefined : await getDailyUsage(execution.backend)
       });
 
       return formattedResponse;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       Logger.error(`Review code execution error: ${error}`);
       throw new Error(`Code review failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 };
 
+/**
+ * Runs the review prompt on one backend, resuming its native session when one is stored
+ */
+async function executeSingleReview(
+  backendType: BackendType,
+  session: CodeReviewSession,
+  options: {
+    reviewPrompt: string;
+    roundNumber: number;
+    responseFormat?: ResponseFormat;
+    model?: string;
+    /** Resume and store the backend's native session (default true) */
+    nativeSession?: boolean;
+    reasoningEffort?: ReasoningEffort;
+    allowedTools?: string[];
+    cwd?: string;
+    sessionUsage?: TokenUsage;
+    /** Estimated tokens of parallel batches started before this one */
+    reservedTokens?: number;
+    onProgress?: (output: string) => void;
+    signal?: AbortSignal;
+  }
+): Promise<ReviewExecution> {
+  const {
+    reviewPrompt, roundNumber, responseFormat, model, nativeSession = true, reasoningEffort, allowedTools, cwd,
+    sessionUsage, reservedTokens, onProgress, signal
+  } = options;
+
+  const capabilities = getBackendCapabilities(backendType);
+  validateBackendOptions(backendType, capabilities, { reasoningEffort, allowedTools });
+  const backend = await getBackend(backendType);
+
+  onProgress?.(`🤖 Using ${backend.name} backend...`);
+
+  // Backends may prefer a faster model for reviews (e.g. Gemini Flash)
+  const reviewModel = resolveModel(capabilities, model, 'review');
+
+  // Budgets may refuse the round or switch to a cheaper model
+  const selectedModel = await enforceBudgets({
+    backend,
+    model: reviewModel,
+    prompt: reviewPrompt,
+    sessionUsage,
+    reservedTokens,
+  }, onProgress);
+
+  // Shared by the review request and its repair request
+  const executionConfig = {
+    provider: backendType,
+    sandbox: false,
+    changeMode: false,
+    allowedTools,
+    cwd,
+    signal,
+    timeouts: getToolTimeouts('review-code'),
+    reasoningEffort,
+  };
+
+  // Pass stored resume handles (Gemini/Claude session, Codex thread) for native session resume;
+  // the review prompt carries its own history, so a lost handle just starts a new session
+  const backendResult = await executeWithResume(
+    backend,
+    {
+      ...executionConfig,
+      model: selectedModel,
+      ...(nativeSession ? pickSessionHandles(session) : {}),
+    },
+    () => reviewPrompt,
+    onProgress
+  );
+
+  // A request cancelled while the backend was finishing must leave the session untouched
+  throwIfAborted(signal);
+
+  // Always track which backend was used
+  session.lastBackend = backendType;
+
+  // Store native resume handles (Codex thread, Claude session)
+  if (nativeSession) {
+    storeSessionHandles(session, backendResult);
+    describeSessionHandles(backendResult).forEach(line => onProgress?.(line));
+  }
+
+  // Parse response into structured comments
+  onProgress?.('📝 Parsing review feedback...');
+  const parsed = await parseReviewComments(backendResult.response, roundNumber, responseFormat, async repairPrompt => {
+    onProgress?.(`🔧 ${backend.name} output did not match the review schema, requesting a repair...`);
+    // The repair is a request of its own: budgets count the review it follows
+    const repairModel = await enforceBudgets({
+      backend,
+      model: selectedModel,
+      prompt: repairPrompt,
+      sessionUsage: sumUsage([sessionUsage, backendResult.usage]),
+      reservedTokens,
+    }, onProgress);
+    const repairResult = await backend.execute(repairPrompt, { ...executionConfig, model: repairModel }, onProgress);
+    throwIfAborted(signal);
+    return repairResult;
+  });
+
+  return {
+    response: backendResult.response,
+    comments: parsed.comments,
+    backend: backendResult.backend,
+    fallbackPath: backendResult.fallbackPath,
+    usage: sumUsage([backendResult.usage, parsed.usage]),
+    parseStats: parsed.parseStats,
+  };
+}
+
+/**
+ * Parses a review response in the requested format
+ * JSON responses that fail validation get one repair request before the markdown fallback.
+ * @param repair Sends a repair prompt to the backend that produced the response
+ */
+async function parseReviewComments(
+  response: string,
+  roundNumber: number,
+  responseFormat: ResponseFormat | undefined,
+  repair: (prompt: string) => Promise<BackendResult>
+): Promise<{ comments: ReviewComment[]; parseStats?: ReviewParseStats; usage?: TokenUsage }> {
+  if (responseFormat !== 'json') {
+    return { comments: validateComments(parseReviewResponse(response, roundNumber)) };
+  }
+  const parsed = await parseStructuredReview(response, roundNumber, repair);
+  return { comments: parsed.comments, parseStats: parsed.stats, usage: parsed.usage };
+}
+
+/**
+ * Runs the batches of a round, at most REVIEW.MAX_PARALLEL_BATCHES at a time
+ * A failed batch is reported and skipped; the round fails only when every batch failed.
+ * @returns Outcome per batch, in batch order
+ */
+async function executeBatches(
+  batches: ReviewBatch[],
+  runBatch: (index: number) => Promise<ReviewExecution>,
+  options: {
+    roundNumber: number;
+    onProgress?: (output: string) => void;
+    signal?: AbortSignal;
+  }
+): Promise<BatchOutcome[]> {
+  const { roundNumber, onProgress, signal } = options;
+  const pool = new ConcurrencyPool('review batches', { maxConcurrent: REVIEW.MAX_PARALLEL_BATCHES, maxQueued: batches.length });
+  // A budget refusal or cancellation refuses the whole round: batches not yet started are skipped
+  let refusal: unknown;
+
+  const settled = await Promise.allSettled(batches.map(async (batch, index) => {
+    const release = await pool.acquire({ signal });
+    try {
+      if (refusal) {
+        throw refusal;
+      }
+      const label = `Batch ${index + 1}/${batches.length}`;
+      const fileCount = batch.diffFiles?.length ?? batch.files?.length ?? 0;
+      onProgress?.(`🔍 Round ${roundNumber}, ${label}: reviewing ${fileCount} file(s)...`);
+      const execution = await runBatch(index);
+      onProgress?.(`✅ ${label}: ${execution.comments.length} issue(s)`);
+      return execution;
+    } catch (error) {
+      if (isAbortError(error) || isBudgetError(error)) {
+        refusal ??= error;
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  }));
+
+  // A request cancelled while batches were finishing must leave the session untouched
+  throwIfAborted(signal);
+  if (refusal) {
+    throw refusal;
+  }
+
+  const outcomes = settled.map((outcome, index): BatchOutcome => {
+    if (outcome.status === 'fulfilled') {
+      return { execution: outcome.value };
+    }
+    const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    onProgress?.(`❌ Batch ${index + 1}/${batches.length} failed: ${error}`);
+    return { error };
+  });
+
+  if (outcomes.every(outcome => !outcome.execution)) {
+    throw new Error(`every batch failed (${outcomes.map((outcome, index) => `batch ${index + 1}: ${outcome.error}`).join('; ')})`);
+  }
+  return outcomes;
+}
+
+/**
+ * Combines the batches of one round into a single result
+ * Failed batches appear in the response with their error.
+ */
+function combineExecutions(outcomes: BatchOutcome[]): ReviewExecution {
+  const executions = outcomes.flatMap(outcome => outcome.execution ? [outcome.execution] : []);
+  if (outcomes.length === 1) {
+    return executions[0];
+  }
+  const reviewers = [...new Set(executions.flatMap(execution => execution.reviewers ?? []))];
+  return {
+    response: outcomes
+      .map((outcome, index) => `## Batch ${index + 1}\n\n${outcome.execution?.response ?? `_Failed: ${outcome.error}_`}`)
+      .join('\n\n'),
+    comments: executions.flatMap(execution => execution.comments),
+    backend: executions[0].backend,
+    reviewers: reviewers.length > 0 ? reviewers : undefined,
+    fallbackPath: executions.find(execution => execution.fallbackPath)?.fallbackPath,
+    usage: sumUsage(executions.map(execution => execution.usage)),
+    parseStats: sumParseStats(executions.map(execution => execution.parseStats)),
+  };
+}
+
+/**
+ * Runs the same review prompt on several backends in parallel and merges their findings
+ * Reviewers run without native resume handles: the review prompt carries its own history,
+ * and the session's stored handles belong to single-backend rounds.
+ * @throws Error when no reviewer answered
+ */
+async function executeReviewers(
+  reviewers: BackendType[],
+  options: {
+    reviewPrompt: string;
+    roundNumber: number;
+    responseFormat?: ResponseFormat;
+    reasoningEffort?: ReasoningEffort;
+    allowedTools?: string[];
+    cwd?: string;
+    sessionUsage?: TokenUsage;
+    /** Estimated tokens of parallel batches started before this one */
+    reservedTokens?: number;
+    onProgress?: (output: string) => void;
+    signal?: AbortSignal;
+  }
+): Promise<ReviewExecution> {
+  const {
+    reviewPrompt, roundNumber, responseFormat, reasoningEffort, allowedTools, cwd, sessionUsage, reservedTokens, onProgress, signal
+  } = options;
+
+  // Reject unsupported options before anything is spawned
+  for (const reviewer of reviewers) {
+    validateBackendOptions(reviewer, getBackendCapabilities(reviewer), { reasoningEffort, allowedTools });
+  }
+
+  const labels = reviewers.map(backend => describeParticipant({ backend }));
+  onProgress?.(`👥 Reviewers: ${labels.join(', ')} reviewing in parallel...`);
+
+  // Reviewers run in parallel, so each one also reserves the prompts of the reviewers started before it
+  const promptTokens = estimateTokens(reviewPrompt);
+  const settled = await Promise.allSettled(reviewers.map(async (reviewer, index) => {
+    const backend = await getBackend(reviewer);
+    const reserved = (reservedTokens ?? 0) + promptTokens * index;
+    // Review and repair requests both pass the budgets, the repair counting the review it follows
+    const execute = async (prompt: string, usedSoFar?: TokenUsage) => backend.execute(
+      prompt,
+      {
+        provider: reviewer,
+        model: await enforceBudgets({
+          backend,
+          model: resolveModel(getBackendCapabilities(reviewer), undefined, 'review'),
+          prompt,
+          sessionUsage: usedSoFar,
+          reservedTokens: reserved,
+        }, onProgress),
+        sandbox: false,
+        changeMode: false,
+        allowedTools,
+        cwd,
+        signal,
+        timeouts: getToolTimeouts('review-code'),
+        reasoningEffort,
+      },
+      onProgress
+    );
+    const result = await execute(reviewPrompt, sessionUsage);
+    const parsed = await parseReviewComments(result.response, roundNumber, responseFormat, repairPrompt => {
+      onProgress?.(`🔧 ${describeParticipant({ backend: reviewer })} output did not match the review schema, requesting a repair...`);
+      return execute(repairPrompt, sumUsage([sessionUsage, result.usage]));
+    });
+    return { result, parsed };
+  }));
+
+  // A request cancelled while the reviewers were finishing must leave the session untouched
+  throwIfAborted(signal);
+  // A budget refusal refuses the round rather than dropping one reviewer
+  const refusal = settled.find(outcome => outcome.status === 'rejected' && isBudgetError(outcome.reason));
+  if (refusal?.status === 'rejected') {
+    throw refusal.reason;
+  }
+
+  const reviews: ReviewerComments[] = [];
+  const results: BackendResult[] = [];
+  const parseStats: Array<ReviewParseStats | undefined> = [];
+  const failures: string[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      const { comments, usage, parseStats: stats } = outcome.value.parsed;
+      reviews.push({ reviewer: reviewers[index], comments });
+      results.push({ ...outcome.value.result, usage: sumUsage([outcome.value.result.usage, usage]) });
+      parseStats.push(stats);
+      onProgress?.(`✅ ${labels[index]} raised ${comments.length} issue(s)`);
+    } else {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      failures.push(`${labels[index]}: ${error}`);
+      onProgress?.(`❌ ${labels[index]} failed: ${error}`);
+    }
+  });
+
+  if (reviews.length === 0) {
+    throw new Error(`every reviewer failed (${failures.join('; ')})`);
+  }
+
+  onProgress?.('📝 Merging review feedback...');
+  return {
+    response: reviews
+      .map((review, index) => `## ${describeParticipant({ backend: review.reviewer })}\n\n${results[index].response}`)
+      .join('\n\n'),
+    comments: mergeReviewerComments(reviews),
+    backend: reviews[0].reviewer,
+    reviewers: reviews.map(review => review.reviewer),
+    usage: sumUsage(results.map(result => result.usage)),
+    parseStats: sumParseStats(parseStats),
+  };
+}
+
+/**
+ * Adds the session's rejected comments to the suppression baseline and saves both
+ * @returns Summary of the baseline update
+ */
+async function suppressRejectedComments(
+  session: CodeReviewSession,
+  baseline: Awaited<ReturnType<typeof loadBaseline>>,
+  cwd: string,
+  isNewSession: boolean,
+  onProgress?: (output: string) => void
+): Promise<string> {
+  const baselinePath = await getBaselinePath(cwd);
+  const rejected = session.allComments.filter(c => c.status === 'rejected');
+  const added = addToBaseline(baseline, rejected);
+
+  if (added.length > 0) {
+    await saveBaseline(baseline, cwd);
+    onProgress?.(`🔕 Added ${added.length} suppression(s) to ${baselinePath}`);
+  }
+  if (!isNewSession) {
+    // Decisions passed along with the action are kept
+    await saveReviewSession(session);
+  }
+
+  let output = `# Suppression Baseline Updated\n\n`;
+  output += `**Session:** \`${session.sessionId}\`\n`;
+  output += `**Baseline:** ${baselinePath}\n`;
+  output += `**Rejected comments:** ${rejected.length}\n`;
+  output += `**Added:** ${added.length} (${rejected.length - added.length} already suppressed)\n`;
+  output += `**Total suppressions:** ${baseline.suppressions.length}\n\n`;
+
+  if (added.length > 0) {
+    output += added.map(suppression => `- \`${suppression.pathGlob}\`: ${suppression.issue}`).join('\n');
+    output += `\n\nWiden a \`pathGlob\` (e.g. \`src/legacy/**\`) in the file to suppress a finding in more files.\n`;
+  } else if (rejected.length === 0) {
+    output += `No comments are rejected in this session. Reject comments with \`commentDecisions\` first (they can be passed in the same call).\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Pauses, completes or reopens a session and saves it
+ * @returns The final report for 'complete', a short confirmation otherwise
+ * @throws Error when pausing a completed session
+ */
+async function changeSessionState(
+  session: CodeReviewSession,
+  action: 'pause' | 'complete' | 'reopen',
+  onProgress?: (output: string) => void
+): Promise<string> {
+  const pending = session.allComments.filter(c => c.status === 'pending').length;
+  let output: string;
+
+  switch (action) {
+    case 'pause':
+      if (session.sessionState === 'completed') {
+        throw new Error(`Review session '${session.sessionId}' is completed and cannot be paused. Use action 'reopen' first`);
+      }
+      session.sessionState = 'paused';
+      onProgress?.('⏸️ Pausing session');
+      output = `# Review Session Paused\n\n**Session:** \`${session.sessionId}\`\n**Pending comments:** ${pending}\n\n` +
+        `The next \`review-code\` call on this session resumes it.\n`;
+      break;
+    case 'complete':
+      session.sessionState = 'completed';
+      session.completedAt = Date.now();
+      onProgress?.('🏁 Completing session');
+      output = formatCompletionReport(session);
+      break;
+    case 'reopen':
+      session.sessionState = 'active';
+      session.completedAt = undefined;
+      onProgress?.('🔄 Reopening session');
+      output = `# Review Session Reopened\n\n**Session:** \`${session.sessionId}\`\n**Rounds so far:** ${session.totalRounds}\n` +
+        `**Pending comments:** ${pending}\n\nThe next \`review-code\` call runs round ${session.totalRounds + 1}.\n`;
+      break;
+  }
+
+  session.lastAccessedAt = Date.now();
+  await saveReviewSession(session);
+  return output;
+}
+
+/**
+ * Sends newly accepted comments with the current code to the backend and records
+ * a verified/unverified/regressed outcome on each
+ * A failed verification is reported but does not fail the round.
+ * @returns Token usage of the verification request
+ */
+async function verifyAcceptedComments(
+  backendType: BackendType,
+  comments: ReviewComment[],
+  options: {
+    roundNumber: number;
+    model?: string;
+    cwd: string;
+    sessionUsage?: TokenUsage;
+    onProgress?: (output: string) => void;
+    signal?: AbortSignal;
+  }
+): Promise<TokenUsage | undefined> {
+  const { roundNumber, model, cwd, sessionUsage, onProgress, signal } = options;
+  onProgress?.(`🔎 Verifying ${comments.length} accepted comment(s) with ${backendType}...`);
+
+  try {
+    const backend = await getBackend(backendType);
+    const verificationPrompt = await buildVerificationPrompt(comments, cwd);
+    const selectedModel = await enforceBudgets({
+      backend,
+      model: resolveModel(getBackendCapabilities(backendType), model, 'review'),
+      prompt: verificationPrompt,
+      sessionUsage,
+    }, onProgress);
+
+    const result = await backend.execute(
+      verificationPrompt,
+      {
+        provider: backendType,
+        model: selectedModel,
+        sandbox: false,
+        changeMode: false,
+        cwd,
+        signal,
+        timeouts: getToolTimeouts('review-code'),
+      },
+      onProgress
+    );
+    throwIfAborted(signal);
+
+    const outcomes = parseVerificationResponse(result.response, comments, roundNumber);
+    comments.forEach(comment => {
+      comment.verification = outcomes.get(comment.id);
+    });
+
+    const count = (outcome: string) => comments.filter(c => c.verification?.outcome === outcome).length;
+    onProgress?.(`🔎 Verification: ${count('verified')} verified, ${count('unverified')} unverified, ${count('regressed')} regressed`);
+    return result.usage;
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    Logger.error(`Fix verification failed: ${error}`);
+    onProgress?.(`⚠️ Fix verification failed, continuing with the review: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
 /**
  * Applies comment decisions from the user to the session
  * Uses Map for O(1) comment lookups instead of O(N) linear search
  * @param session The current session
  * @param decisions Array of comment decisions
+ * @returns Comments that became accepted with these decisions
  */
 function applyCommentDecisions(
   session: CodeReviewSession,
   decisions: Array<{ commentId: string; decision: string; notes?: string }>
-): void {
+): ReviewComment[] {
+  const accepted: ReviewComment[] = [];
   // Create a Map for O(1) lookups instead of O(N) linear search
   const commentMap = new Map(session.allComments.map(c => [c.id, c]));
 
@@ -350,6 +1118,9 @@ function applyCommentDecisions(
         continue;
       }
 
+      if (normalized === 'accepted' && comment.status !== 'accepted') {
+        accepted.push(comment);
+      }
       comment.status = normalized;
       if (decision.notes) {
         comment.resolution = decision.notes;
@@ -359,4 +1130,6 @@ function applyCommentDecisions(
       Logger.debug(`Comment ${decision.commentId} not found in session`);
     }
   }
+
+  return accepted;
 }
@@ -1,5 +1,8 @@
 import { SessionManager } from './sessionManager.js';
 import { AskSessionData } from './sessionSchemas.js';
+import type { BackendType, NativeSessionHandles, FallbackAttempt, TokenUsage } from '../backends/types.js';
+import { sumUsage } from './tokenUsage.js';
+import { storeSessionHandles } from '../backends/sessionHandles.js';
 
 /**
  * Session manager for ask tool
@@ -37,8 +40,10 @@ export class AskSessionManager {
     response: string,
     model: string,
     contextFiles?: string[],
-    backend?: 'gemini' | 'codex',
-    codexThreadId?: string
+    backend?: BackendType,
+    handles?: NativeSessionHandles,
+    fallbackPath?: FallbackAttempt[],
+    usage?: TokenUsage
   ): AskSessionData {
     session.conversationHistory.push({
       roundNumber: session.totalRounds + 1,
@@ -46,7 +51,10 @@ export class AskSessionManager {
       userPrompt,
       response,
       model,
-      backend
+      tokenCount: usage?.totalTokens,
+      backend,
+      fallbackPath,
+      usage
     });
 
     session.totalRounds++;
@@ -57,14 +65,13 @@ export class AskSessionManager {
       session.contextFiles = [...new Set([...session.contextFiles, ...contextFiles])];
     }
 
-    // Store Codex thread ID for native session resume
-    if (codexThreadId) {
-      session.codexThreadId = codexThreadId;
-    }
+    // Store native resume handles (Codex thread, Claude session, ...)
+    storeSessionHandles(session, handles);
 
-    // Track which backend was used last
-    if (backend) {
-      session.lastBackend = backend;
+    // Track which backend was used last - the requested one, even if a fallback answered
+    const requestedBackend = fallbackPath?.[0]?.backend ?? backend;
+    if (requestedBackend) {
+      session.lastBackend = requestedBackend;
     }
 
     return session;
@@ -89,7 +96,8 @@ export class AskSessionManager {
         ? round.response.slice(0, 500) + '...'
         : round.response;
 
-      const backendLabel = round.backend === 'codex' ? 'Codex' : 'Gemini';
+      const backendName = round.backend || 'gemini';
+      const backendLabel = backendName.charAt(0).toUpperCase() + backendName.slice(1);
       return `[Round ${round.roundNumber}]
 User: ${round.userPrompt}
 ${backendLabel}: ${truncatedResponse}`;
@@ -98,6 +106,13 @@ ${backendLabel}: ${truncatedResponse}`;
     return `# Conversation History\n\n${contextParts.join('\n\n')}`;
   }
 
+  /**
+   * Cumulative token usage across all rounds of a session
+   */
+  getSessionUsage(session: AskSessionData): TokenUsage | undefined {
+    return sumUsage(session.conversationHistory.map(round => round.usage));
+  }
+
   /**
    * Saves a session
    */
@@ -1,5 +1,8 @@
 import { SessionManager } from './sessionManager.js';
 import { BrainstormSessionData } from './sessionSchemas.js';
+import type { BackendType, NativeSessionHandles, FallbackAttempt, TokenUsage } from '../backends/types.js';
+import { sumUsage } from './tokenUsage.js';
+import { storeSessionHandles } from '../backends/sessionHandles.js';
 import { randomUUID } from 'node:crypto';
 
 /**
@@ -53,8 +56,10 @@ export class BrainstormSessionManager {
       impact?: number;
       innovation?: number;
     }>,
-    backend?: 'gemini' | 'codex',
-    codexThreadId?: string
+    backend?: BackendType,
+    handles?: NativeSessionHandles,
+    fallbackPath?: FallbackAttempt[],
+    usage?: TokenUsage
   ): BrainstormSessionData {
     const parsedIdeas = ideas.map(idea => ({
       ideaId: `idea-${randomUUID()}`,
@@ -72,21 +77,22 @@ export class BrainstormSessionManager {
       userPrompt,
       response,
       ideasGenerated: parsedIdeas,
-      backend
+      backend,
+      fallbackPath,
+      usage
     });
 
     session.totalIdeas += parsedIdeas.length;
     session.activeIdeas += parsedIdeas.length;
     session.lastAccessedAt = Date.now();
 
-    // Store Codex thread ID for native session resume
-    if (codexThreadId) {
-      session.codexThreadId = codexThreadId;
-    }
+    // Store native resume handles (Codex thread, Claude session, ...)
+    storeSessionHandles(session, handles);
 
-    // Track which backend was used last
-    if (backend) {
-      session.lastBackend = backend;
+    // Track which backend was used last - the requested one, even if a fallback answered
+    const requestedBackend = fallbackPath?.[0]?.backend ?? backend;
+    if (requestedBackend) {
+      session.lastBackend = requestedBackend;
     }
 
     return session;
@@ -166,6 +172,13 @@ export class BrainstormSessionManager {
     return `# Previously Generated Ideas\n\n${ideaList}`;
   }
 
+  /**
+   * Cumulative token usage across all rounds of a session
+   */
+  getSessionUsage(session: BrainstormSessionData): TokenUsage | undefined {
+    return sumUsage(session.rounds.map(round => round.usage));
+  }
+
   /**
    * Saves a session
    */
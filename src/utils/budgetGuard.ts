@@ -0,0 +1,152 @@
+/**
+ * Budget Guard - Token budgets checked before a backend is executed
+ *
+ * Three budgets, all optional (server config "budgets" section):
+ * - maxPromptTokens: estimated size of one prompt
+ * - sessionTokens: tokens already used by the session plus this prompt
+ * - dailyTokens: tokens already used today by the backend plus this prompt
+ *
+ * A request that would exceed one is rejected, or with the "downgrade" policy
+ * sent to the backend's cheaper model instead. Either decision is reported
+ * through the progress stream. Used tokens include those reserved by requests
+ * of the same round that are still running.
+ */
+
+import { Logger } from './logger.js';
+import { estimateTokens, getDailyUsage } from './tokenUsage.js';
+import type { BackendExecutor, TokenUsage } from '../backends/types.js';
+import type { BudgetConfig } from './serverConfig.js';
+
+let budgetConfig: BudgetConfig = { policy: 'reject', dailyTokens: {}, downgradeModels: {} };
+
+/**
+ * Installs the budgets section of the server config (called by the backend registry at startup)
+ */
+export function configureBudgets(config: BudgetConfig): void {
+  budgetConfig = config;
+}
+
+/** A request about to be executed */
+export interface BudgetRequest {
+  backend: BackendExecutor;
+  /** Requested model (undefined = backend default) */
+  model?: string;
+  /** Prompt as it will be sent */
+  prompt: string;
+  /** Usage of the session so far, if the request belongs to one */
+  sessionUsage?: TokenUsage;
+  /** Estimated tokens of requests already under way but not yet in the totals (parallel batches) */
+  reservedTokens?: number;
+}
+
+/**
+ * Whether an error is a budget refusal (a request that must not be retried or skipped)
+ */
+export function isBudgetError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'BudgetExceededError';
+}
+
+const formatTokens = (value: number) => value.toLocaleString('en-US');
+
+/** The first budget a request would exceed */
+interface BudgetViolation {
+  message: string;
+  /** The session or daily cap was already used up before this request */
+  exhausted: boolean;
+}
+
+/**
+ * Describes the first budget the request would exceed
+ * @returns undefined when the request fits every budget
+ */
+async function findViolation(request: BudgetRequest, promptTokens: number): Promise<BudgetViolation | undefined> {
+  const { maxPromptTokens, sessionTokens, dailyTokens } = budgetConfig;
+
+  if (maxPromptTokens !== undefined && promptTokens > maxPromptTokens) {
+    return {
+      message: `the prompt is ~${formatTokens(promptTokens)} tokens, above the per-call limit of ${formatTokens(maxPromptTokens)}`,
+      exhausted: false,
+    };
+  }
+
+  const reserved = request.reservedTokens ?? 0;
+  const sessionUsed = (request.sessionUsage?.totalTokens ?? 0) + reserved;
+  if (sessionTokens !== undefined && sessionUsed + promptTokens > sessionTokens) {
+    return {
+      message: `the session has used ${formatTokens(sessionUsed)} tokens and this request (~${formatTokens(promptTokens)}) ` +
+        `would pass the session cap of ${formatTokens(sessionTokens)}`,
+      exhausted: sessionUsed >= sessionTokens,
+    };
+  }
+
+  const dailyCap = dailyTokens[request.backend.name];
+  if (dailyCap !== undefined) {
+    const dailyUsed = ((await getDailyUsage(request.backend.name))?.totalTokens ?? 0) + reserved;
+    if (dailyUsed + promptTokens > dailyCap) {
+      return {
+        message: `'${request.backend.name}' has used ${formatTokens(dailyUsed)} tokens today and this request ` +
+          `(~${formatTokens(promptTokens)}) would pass its daily cap of ${formatTokens(dailyCap)}`,
+        exhausted: dailyUsed >= dailyCap,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The configured cheaper model, if the backend offers it and it is not already in use
+ */
+function findCheaperModel(backend: BackendExecutor, model?: string): string | undefined {
+  const cheaper = budgetConfig.downgradeModels[backend.name];
+  if (!cheaper) {
+    return undefined;
+  }
+
+  const models = backend.getModels();
+  if (!models.includes(cheaper)) {
+    Logger.warn(`Ignoring downgrade model '${cheaper}' for '${backend.name}': not one of ${models.join(', ')}`);
+    return undefined;
+  }
+
+  const currentModel = model ?? models[0];
+  return currentModel === cheaper ? undefined : cheaper;
+}
+
+/**
+ * Checks a request against the configured budgets
+ * The downgrade policy lets the request that crosses a session or daily cap run on the
+ * cheaper model; once the cap is used up, later requests are refused like under "reject".
+ * @returns The model to execute with (the requested one, or the cheaper one after a downgrade)
+ * @throws Error explaining which budget would be exceeded when the request is refused
+ */
+export async function enforceBudgets(
+  request: BudgetRequest,
+  onProgress?: (output: string) => void
+): Promise<string | undefined> {
+  const violation = await findViolation(request, estimateTokens(request.prompt));
+  if (!violation) {
+    return request.model;
+  }
+
+  const { backend, model } = request;
+  let reason = '';
+  if (budgetConfig.policy === 'downgrade') {
+    const cheaper = findCheaperModel(backend, model);
+    if (cheaper && !violation.exhausted) {
+      const message = `💰 Budget: ${violation.message}. Downgrading ${backend.name} from ${model ?? 'its default model'} to ${cheaper}.`;
+      Logger.warn(message);
+      onProgress?.(message);
+      return cheaper;
+    }
+    reason = cheaper
+      ? ' The cap is used up, so the cheaper model is refused too.'
+      : ` No cheaper ${backend.name} model is available.`;
+  }
+
+  const message = `Budget exceeded: ${violation.message}.${reason} Adjust "budgets" in the server config to allow it.`;
+  onProgress?.(`💰 ${message}`);
+  const error = new Error(message);
+  error.name = 'BudgetExceededError';
+  throw error;
+}
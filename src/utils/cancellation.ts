@@ -0,0 +1,116 @@
+/**
+ * Cancellation helpers
+ *
+ * MCP clients cancel requests with notifications/cancelled; the SDK aborts the
+ * request's AbortSignal, which is threaded through executeTool → tool →
+ * backend. Backends use these helpers to kill the spawned CLI (including any
+ * processes it started) and to surface a recognizable error.
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import { Logger } from './logger.js';
+import { EXECUTION_TIMEOUTS } from '../constants.js';
+
+/**
+ * Creates the error thrown when a request is cancelled
+ */
+export function createAbortError(message = 'Request cancelled'): Error {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Whether an error was caused by cancellation
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has fired
+ * (the signal's own reason may be a plain string, so it is not rethrown as-is)
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Spawn option that makes the child a process group leader on POSIX, so the
+ * whole tree (e.g. node wrappers spawning the real CLI) can be signalled at once
+ */
+export function processGroupOptions(): { detached: boolean } {
+  return { detached: process.platform !== 'win32' };
+}
+
+/**
+ * Kills a child process and everything it spawned.
+ * Sends SIGTERM first and SIGKILL after a grace period if the child is still alive.
+ */
+export function killProcessTree(child: ChildProcess, graceMs: number = EXECUTION_TIMEOUTS.KILL_GRACE_MS): void {
+  const pid = child.pid;
+  if (pid === undefined || child.exitCode !== null || child.signalCode !== null) {
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    // taskkill /T walks the tree; /F does not wait for a graceful exit
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' })
+      .on('error', (error) => Logger.error(`taskkill failed for pid ${pid}:`, error));
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-pid, signal); // Negative pid targets the process group
+    } catch {
+      // Not a group leader (or already gone) - fall back to the child itself
+      try {
+        child.kill(signal);
+      } catch {
+        // Already exited
+      }
+    }
+  };
+
+  signalGroup('SIGTERM');
+  const escalation = setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) {
+      Logger.warn(`Process ${pid} ignored SIGTERM, sending SIGKILL`);
+      signalGroup('SIGKILL');
+    }
+  }, graceMs);
+  escalation.unref();
+  child.once('exit', () => clearTimeout(escalation));
+}
+
+/**
+ * Kills the child's process tree when the signal fires
+ * @param onAbort Called after the kill so the caller can reject its promise
+ * @returns Cleanup that detaches the listener (call once the child has exited)
+ */
+export function bindAbortSignal(
+  child: ChildProcess,
+  signal: AbortSignal | undefined,
+  onAbort: () => void
+): () => void {
+  if (!signal) {
+    return () => {};
+  }
+
+  const handleAbort = () => {
+    Logger.debug(`Request cancelled, killing process ${child.pid}`);
+    killProcessTree(child);
+    onAbort();
+  };
+
+  if (signal.aborted) {
+    handleAbort();
+    return () => {};
+  }
+
+  signal.addEventListener('abort', handleAbort, { once: true });
+  return () => signal.removeEventListener('abort', handleAbort);
+}
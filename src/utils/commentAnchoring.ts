@@ -0,0 +1,180 @@
+/**
+ * Comment Anchoring - keeps review comments attached to their code across edits
+ *
+ * Each comment with a line range stores a fingerprint of the code it was made on
+ * (the covered lines plus a few lines of context). At the start of every round,
+ * pending comments are searched for in the current file contents: a comment whose
+ * code moved gets its new line range, one whose code vanished is marked as
+ * possibly resolved.
+ */
+
+import { readFile, realpath } from 'node:fs/promises';
+import path from 'node:path';
+import { REVIEW } from '../constants.js';
+import { Logger } from './logger.js';
+import { isPathWithinWorkspace } from './fileRefInliner.js';
+import type { CommentAnchor, ReviewComment } from './sessionSchemas.js';
+
+/** Outcome of re-locating the pending comments of a session */
+export interface RelocationSummary {
+  moved: number;
+  possiblyResolved: number;
+}
+
+/** Lines compare equal regardless of indentation and trailing whitespace */
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+/**
+ * Reads a reviewed file, relative to the working directory
+ * @param cache Lines of files already read in this pass, keyed by absolute path
+ * @returns File lines, or undefined when the file (or the target of a symlink) is outside the
+ * working directory or unreadable
+ */
+export async function readReviewedFile(
+  filePattern: string,
+  cwd: string,
+  cache: Map<string, string[] | undefined> = new Map()
+): Promise<string[] | undefined> {
+  const relative = filePattern.trim().replace(/^@/, '');
+  const absolute = path.resolve(cwd, relative);
+  if (!isPathWithinWorkspace(absolute, path.resolve(cwd))) {
+    return undefined;
+  }
+
+  if (!cache.has(absolute)) {
+    try {
+      // A symlink inside the working directory may point outside it
+      const [realFile, realCwd] = await Promise.all([realpath(absolute), realpath(cwd)]);
+      cache.set(absolute, isPathWithinWorkspace(realFile, realCwd)
+        ? (await readFile(realFile, 'utf8')).split(/\r?\n/)
+        : undefined);
+    } catch {
+      cache.set(absolute, undefined);
+    }
+  }
+  return cache.get(absolute);
+}
+
+/**
+ * Fingerprints the lines a comment covers
+ * @param lines Current file lines
+ * @param range 1-based inclusive line range
+ * @returns The anchor, or undefined when the range is outside the file
+ */
+export function createAnchor(lines: string[], range: { start: number; end: number }): CommentAnchor | undefined {
+  if (range.start < 1 || range.end < range.start || range.start > lines.length) {
+    return undefined;
+  }
+  const end = Math.min(range.end, lines.length);
+  const context = REVIEW.ANCHOR_CONTEXT_LINES;
+  const snippet = lines.slice(range.start - 1, end);
+  if (snippet.every(line => !line.trim())) {
+    return undefined;
+  }
+  return {
+    snippet,
+    before: lines.slice(Math.max(0, range.start - 1 - context), range.start - 1),
+    after: lines.slice(end, end + context)
+  };
+}
+
+/**
+ * Finds the anchored code in the current file contents
+ * Among several matches of the snippet, the one with the most matching context
+ * lines wins, then the one closest to the previous location.
+ * @returns The new line range, or undefined when the code is gone
+ */
+export function locateAnchor(
+  lines: string[],
+  anchor: CommentAnchor,
+  previousRange: { start: number; end: number }
+): { start: number; end: number } | undefined {
+  const normalized = lines.map(normalizeLine);
+  const snippet = anchor.snippet.map(normalizeLine);
+  const before = anchor.before.map(normalizeLine);
+  const after = anchor.after.map(normalizeLine);
+
+  let best: { start: number; score: number; distance: number } | undefined;
+
+  for (let index = 0; index + snippet.length <= normalized.length; index++) {
+    if (!snippet.every((line, offset) => normalized[index + offset] === line)) {
+      continue;
+    }
+
+    let score = 0;
+    before.forEach((line, offset) => {
+      if (normalized[index - before.length + offset] === line) score++;
+    });
+    after.forEach((line, offset) => {
+      if (normalized[index + snippet.length + offset] === line) score++;
+    });
+
+    const start = index + 1;
+    const distance = Math.abs(start - previousRange.start);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start, score, distance };
+    }
+  }
+
+  return best ? { start: best.start, end: best.start + snippet.length - 1 } : undefined;
+}
+
+/**
+ * Stores a fingerprint on every new comment that points at readable lines
+ * @param comments Comments of the current round
+ * @param cwd Working directory the file patterns are relative to
+ */
+export async function anchorComments(comments: ReviewComment[], cwd: string = process.cwd()): Promise<void> {
+  const cache = new Map<string, string[] | undefined>();
+
+  for (const comment of comments) {
+    if (!comment.lineRange || comment.anchor) {
+      continue;
+    }
+    const lines = await readReviewedFile(comment.filePattern, cwd, cache);
+    const anchor = lines && createAnchor(lines, comment.lineRange);
+    if (anchor) {
+      comment.anchor = anchor;
+    }
+  }
+}
+
+/**
+ * Re-locates the pending anchored comments in the current file contents
+ * Moved comments get their new line range (the old one is kept in previousLineRange);
+ * comments whose code is gone are marked possibly resolved, and unmarked if it returns.
+ * @param comments All comments of the session
+ * @param cwd Working directory the file patterns are relative to
+ * @returns How many comments moved or were marked possibly resolved
+ */
+export async function relocateComments(comments: ReviewComment[], cwd: string = process.cwd()): Promise<RelocationSummary> {
+  const cache = new Map<string, string[] | undefined>();
+  const summary: RelocationSummary = { moved: 0, possiblyResolved: 0 };
+
+  for (const comment of comments) {
+    if (comment.status !== 'pending' || !comment.anchor || !comment.lineRange) {
+      continue;
+    }
+
+    const lines = await readReviewedFile(comment.filePattern, cwd, cache);
+    const location = lines && locateAnchor(lines, comment.anchor, comment.lineRange);
+
+    if (!location) {
+      if (!comment.possiblyResolved) {
+        comment.possiblyResolved = true;
+        summary.possiblyResolved++;
+      }
+      continue;
+    }
+
+    comment.possiblyResolved = undefined;
+    if (location.start !== comment.lineRange.start || location.end !== comment.lineRange.end) {
+      comment.previousLineRange = comment.lineRange;
+      comment.lineRange = location;
+      summary.moved++;
+      Logger.debug(`Comment ${comment.id} moved to ${comment.filePattern}:${location.start}-${location.end}`);
+    }
+  }
+
+  return summary;
+}
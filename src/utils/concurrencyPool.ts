@@ -0,0 +1,181 @@
+/**
+ * Concurrency Pool - Per-backend execution slots with a FIFO queue
+ *
+ * Each backend gets a pool of `maxConcurrent` slots. Requests beyond that wait
+ * in arrival order; once `maxQueued` requests are waiting, new ones are
+ * rejected instead of piling up CLI processes. Waiting requests are told their
+ * queue position whenever it changes.
+ */
+
+import { Logger } from './logger.js';
+import { createAbortError } from './cancellation.js';
+import { CONCURRENCY } from '../constants.js';
+import type { ConcurrencyConfig } from './serverConfig.js';
+
+export interface ConcurrencyLimits {
+  maxConcurrent?: number;
+  maxQueued?: number;
+}
+
+/** Snapshot sent to a waiting request */
+export interface QueueStatus {
+  backend: string;
+  /** 1-based position in the queue */
+  position: number;
+  queued: number;
+  running: number;
+}
+
+/** Releases an acquired slot (idempotent) */
+export type ReleaseSlot = () => void;
+
+interface Waiter {
+  grant: () => void;
+  onQueueUpdate?: (status: QueueStatus) => void;
+}
+
+const QUEUE_STATUS_PREFIX = '⏳ Queued for';
+
+/**
+ * Formats a queue status for progress notifications, e.g. "⏳ Queued for codex: position 2 of 3 (2 running)"
+ */
+export function formatQueueStatus(status: QueueStatus): string {
+  return `${QUEUE_STATUS_PREFIX} ${status.backend}: position ${status.position} of ${status.queued} (${status.running} running)`;
+}
+
+/**
+ * Whether a progress message is a queue status (see formatQueueStatus)
+ */
+export function isQueueStatusMessage(output: string): boolean {
+  return output.startsWith(QUEUE_STATUS_PREFIX);
+}
+
+export class ConcurrencyPool {
+  private running = 0;
+  private readonly waiters: Waiter[] = [];
+
+  constructor(
+    readonly name: string,
+    private readonly limits: Required<ConcurrencyLimits>
+  ) {}
+
+  /**
+   * Waits for a free slot
+   * @param options.signal Removes the request from the queue when aborted
+   * @param options.onQueueUpdate Called with the queue position while waiting
+   * @throws Error when the queue is full; AbortError when cancelled while queued
+   */
+  acquire(options: {
+    signal?: AbortSignal;
+    onQueueUpdate?: (status: QueueStatus) => void;
+  } = {}): Promise<ReleaseSlot> {
+    const { signal, onQueueUpdate } = options;
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    if (this.running < this.limits.maxConcurrent && this.waiters.length === 0) {
+      this.running++;
+      return Promise.resolve(this.createRelease());
+    }
+
+    if (this.waiters.length >= this.limits.maxQueued) {
+      return Promise.reject(new Error(
+        `Backend '${this.name}' is busy: ${this.running} running and ${this.waiters.length} queued. Try again later.`
+      ));
+    }
+
+    return new Promise((resolve, reject) => {
+      const handleAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+          this.notifyPositions();
+        }
+        reject(createAbortError('Request cancelled while queued'));
+      };
+
+      const waiter: Waiter = {
+        grant: () => {
+          signal?.removeEventListener('abort', handleAbort);
+          resolve(this.createRelease());
+        },
+        onQueueUpdate,
+      };
+
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      this.waiters.push(waiter);
+      Logger.debug(`${this.name}: request queued (${this.waiters.length} waiting, ${this.running} running)`);
+      this.notifyPositions();
+    });
+  }
+
+  private createRelease(): ReleaseSlot {
+    let isReleased = false;
+    return () => {
+      if (isReleased) return;
+      isReleased = true;
+      this.running--;
+      this.drain();
+    };
+  }
+
+  /** Hands free slots to waiters in arrival order */
+  private drain(): void {
+    let granted = false;
+    while (this.running < this.limits.maxConcurrent && this.waiters.length > 0) {
+      const next = this.waiters.shift()!;
+      this.running++;
+      next.grant();
+      granted = true;
+    }
+    if (granted) {
+      this.notifyPositions();
+    }
+  }
+
+  private notifyPositions(): void {
+    this.waiters.forEach((waiter, index) => {
+      waiter.onQueueUpdate?.({
+        backend: this.name,
+        position: index + 1,
+        queued: this.waiters.length,
+        running: this.running,
+      });
+    });
+  }
+}
+
+let concurrencyConfig: ConcurrencyConfig = { default: {}, backends: {} };
+const pools = new Map<string, ConcurrencyPool>();
+
+/**
+ * Installs the concurrency section of the server config (called by the backend registry at startup)
+ */
+export function configureConcurrency(config: ConcurrencyConfig): void {
+  concurrencyConfig = config;
+  pools.clear();
+}
+
+/**
+ * Resolves the effective limits for a backend (backend entry, then default, then CONCURRENCY)
+ */
+export function resolveConcurrencyLimits(backendName: string): Required<ConcurrencyLimits> {
+  const backendLimits = concurrencyConfig.backends[backendName];
+  return {
+    maxConcurrent: backendLimits?.maxConcurrent ?? concurrencyConfig.default.maxConcurrent ?? CONCURRENCY.MAX_CONCURRENT,
+    maxQueued: backendLimits?.maxQueued ?? concurrencyConfig.default.maxQueued ?? CONCURRENCY.MAX_QUEUED,
+  };
+}
+
+/**
+ * Gets the shared pool for a backend (created on first use)
+ */
+export function getConcurrencyPool(backendName: string): ConcurrencyPool {
+  let pool = pools.get(backendName);
+  if (!pool) {
+    pool = new ConcurrencyPool(backendName, resolveConcurrencyLimits(backendName));
+    pools.set(backendName, pool);
+  }
+  return pool;
+}
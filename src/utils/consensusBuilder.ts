@@ -0,0 +1,102 @@
+import type { BackendType, TokenUsage } from '../backends/types.js';
+
+/**
+ * One participant's answer in a consensus request
+ */
+export interface ConsensusAnswer {
+  backend: BackendType;
+  model?: string;
+  response: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * A participant that failed to answer
+ */
+export interface ConsensusFailure {
+  backend: BackendType;
+  model?: string;
+  error: string;
+}
+
+/**
+ * Labels a participant, e.g. "Codex (gpt-5.4)"
+ */
+export function describeParticipant(participant: { backend: BackendType; model?: string }): string {
+  const name = participant.backend.charAt(0).toUpperCase() + participant.backend.slice(1);
+  return participant.model ? `${name} (${participant.model})` : name;
+}
+
+/**
+ * Builds the prompt for the synthesis step that compares the answers
+ * @param question The original question (without replayed history)
+ * @param answers Successful answers, in participant order
+ * @returns Formatted prompt string
+ */
+export function buildSynthesisPrompt(question: string, answers: ConsensusAnswer[]): string {
+  const answerSections = answers
+    .map((answer, index) => `## Answer ${index + 1}: ${describeParticipant(answer)}\n\n${answer.response}`)
+    .join('\n\n');
+
+  return `# CONSENSUS SYNTHESIS
+
+Several AI assistants answered the same question independently. Compare their answers.
+
+## Question
+${question}
+
+${answerSections}
+
+## Instructions
+Do not answer the question again. Respond with exactly these sections:
+
+### Agreement
+Points all answers share. Agreement between independent answers raises confidence.
+
+### Disagreement
+Each point where the answers differ: what each answer says (refer to them as Answer N) and which position is better supported, and why.
+
+### Unique Points
+Relevant points raised by only one answer.
+
+### Recommendation
+The conclusion you would act on, with its confidence (high/medium/low) and the open risks.`;
+}
+
+/**
+ * Formats the consensus response: synthesis first, then every answer
+ * @param config.synthesis Synthesis text, or undefined when fewer than two answers arrived or the step failed
+ * @returns Formatted markdown string
+ */
+export function formatConsensusResponse(config: {
+  answers: ConsensusAnswer[];
+  failures: ConsensusFailure[];
+  synthesis?: string;
+  /** Why the synthesis step failed, if it did */
+  synthesisError?: string;
+  synthesisBackend: BackendType;
+}): string {
+  const { answers, failures, synthesis, synthesisError, synthesisBackend } = config;
+
+  let output = `# Consensus (${answers.length} answer${answers.length === 1 ? '' : 's'})\n\n`;
+
+  if (synthesis) {
+    output += `## Synthesis (${describeParticipant({ backend: synthesisBackend })})\n\n${synthesis}\n\n`;
+  } else if (synthesisError) {
+    output += `## Synthesis\n\n⚠️ The synthesis step failed: ${synthesisError}\n\n`;
+  } else {
+    output += `## Synthesis\n\n⚠️ Only one answer arrived, so there is nothing to compare.\n\n`;
+  }
+
+  answers.forEach((answer, index) => {
+    output += `## Answer ${index + 1}: ${describeParticipant(answer)}\n\n${answer.response}\n\n`;
+  });
+
+  if (failures.length > 0) {
+    output += `## Failed\n\n`;
+    output += failures.map(failure => `- ${describeParticipant(failure)}: ${failure.error}`).join('\n');
+    output += `\n`;
+  }
+
+  return output.trimEnd();
+}
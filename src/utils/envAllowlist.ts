@@ -11,7 +11,7 @@
  * Includes:
  * - PATH, HOME, LANG, TERM - Basic shell operation
  * - HTTP_PROXY, HTTPS_PROXY, NO_PROXY, http_proxy, https_proxy, no_proxy - Corporate proxy support
- * - GEMINI_API_KEY, OPENAI_API_KEY - CLI-specific auth
+ * - GEMINI_API_KEY, OPENAI_API_KEY, ANTHROPIC_API_KEY - CLI-specific auth
  * - XDG_* - Linux standard directories
  */
 export function getAllowedEnv(): Record<string, string | undefined> {
@@ -37,6 +37,7 @@ export function getAllowedEnv(): Record<string, string | undefined> {
     // CLI-specific authentication
     'GEMINI_API_KEY',
     'OPENAI_API_KEY',
+    'ANTHROPIC_API_KEY',
     // XDG directories (Linux standard)
     'XDG_CONFIG_HOME',
     'XDG_DATA_HOME',
@@ -0,0 +1,210 @@
+/**
+ * @file reference inlining for backends without native @ syntax support
+ *
+ * Reads referenced files/directories within the workspace and replaces each
+ * @reference with its content, enforcing path traversal and size limits.
+ */
+
+import * as fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import * as path from 'path';
+import { Logger } from './logger.js';
+import { CODEX_FILE_REF, ERROR_MESSAGES } from '../constants.js';
+
+/**
+ * Validate that a resolved path is within the allowed workspace
+ * Prevents path traversal attacks including Windows drive letter escapes
+ */
+export function isPathWithinWorkspace(resolvedPath: string, workingDir: string): boolean {
+  const normalizedPath = path.normalize(resolvedPath);
+  const normalizedWorkDir = path.normalize(workingDir);
+  const relative = path.relative(normalizedWorkDir, normalizedPath);
+
+  // Check: empty string (workspace root) is allowed, doesn't escape via '..', not absolute (handles Windows drive letters)
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Translate @file references to inline content
+ * For backends that don't support @ syntax, we read files and include their content
+ * Handles paths with dots, slashes, dashes, underscores, and relative paths like @../src/file.ts
+ * Includes path traversal protection to prevent reading files outside workspace
+ */
+export async function inlineFileRefs(prompt: string, cwd?: string): Promise<string> {
+  const workingDir = cwd || process.cwd();
+  const lexicalWorkDir = path.resolve(workingDir);
+  const canonicalWorkDir = await fs.realpath(workingDir).catch(() => lexicalWorkDir);
+  // Match @file references - handles:
+  // - Relative paths: @../src/file.ts, @./file.ts
+  // - Absolute paths: @/home/user/file.ts
+  // - Paths with special chars: @src/file-name.test.ts
+  // Stops at whitespace or another @ symbol
+  const fileRefs = prompt.match(/@(?:\.\.?\/)?[^\s@]+/g) || [];
+
+  if (fileRefs.length === 0) {
+    return prompt;
+  }
+
+  let translated = prompt;
+  const missingFiles: string[] = [];
+  const deniedFiles: string[] = [];
+
+  // Max file size: 10MB to prevent memory exhaustion
+  let totalInlinedBytes = 0;
+  const alreadyProcessedRefs = new Set<string>();
+  const alreadyProcessedTargets = new Map<string, string>();
+
+  for (const ref of fileRefs) {
+    const filePath = ref.substring(1); // Remove @ prefix
+
+    // Avoid re-reading/re-inlining the same @reference multiple times.
+    // Replace duplicates with a small pointer to the first inlined instance.
+    if (alreadyProcessedRefs.has(ref)) {
+      translated = translated.replace(
+        ref,
+        `\n--- Duplicate @reference: ${filePath} (see earlier in prompt) ---\n`
+      );
+      continue;
+    }
+    alreadyProcessedRefs.add(ref);
+
+    const absolutePath = path.isAbsolute(filePath)
+      ? filePath
+      : path.join(workingDir, filePath);
+
+    // Resolve for basic path normalization (does not follow symlinks)
+    const resolvedPath = path.resolve(absolutePath);
+
+    // Security check: Ensure path is within workspace
+    if (!isPathWithinWorkspace(resolvedPath, lexicalWorkDir)) {
+      deniedFiles.push(filePath);
+      Logger.warn(`Path traversal blocked for @reference: ${filePath} (resolved to ${resolvedPath})`);
+      translated = translated.replace(ref, `${ERROR_MESSAGES.ACCESS_DENIED_OUTSIDE_WORKSPACE} (${filePath})`);
+      continue;
+    }
+
+    try {
+      try {
+        await fs.access(absolutePath, fsConstants.F_OK);
+      } catch {
+        // Extra security: if file doesn't exist and path contains .., deny access.
+        // This prevents potential TOCTOU attacks where file is created after check.
+        if (filePath.includes('..')) {
+          deniedFiles.push(filePath);
+          Logger.warn(`Path traversal blocked for non-existent path with ..: ${filePath}`);
+          translated = translated.replace(ref, ERROR_MESSAGES.ACCESS_DENIED_PATH_TRAVERSAL);
+          continue;
+        }
+
+        missingFiles.push(filePath);
+        Logger.warn(`File not found for @reference: ${filePath}`);
+        translated = translated.replace(ref, `${ERROR_MESSAGES.FILE_NOT_FOUND}: ${filePath}`);
+        continue;
+      }
+
+      // Canonicalize to prevent parent-directory symlink traversal (e.g., workspace/subdir -> /etc)
+      const canonicalTargetPath = await fs.realpath(absolutePath);
+      const isSymlinkedPath =
+        path.normalize(canonicalTargetPath) !== path.normalize(path.resolve(absolutePath));
+
+      if (!isPathWithinWorkspace(canonicalTargetPath, canonicalWorkDir)) {
+        deniedFiles.push(filePath);
+        Logger.warn(
+          `Symlink traversal blocked for @reference: ${filePath} (realpath: ${canonicalTargetPath})`
+        );
+        translated = translated.replace(
+          ref,
+          `${isSymlinkedPath ? ERROR_MESSAGES.ACCESS_DENIED_SYMLINK_OUTSIDE_WORKSPACE : ERROR_MESSAGES.ACCESS_DENIED_OUTSIDE_WORKSPACE} (${filePath})`
+        );
+        continue;
+      }
+
+      if (alreadyProcessedTargets.has(canonicalTargetPath)) {
+        translated = translated.replace(
+          ref,
+          `\n--- Duplicate @reference: ${filePath} (see earlier in prompt) ---\n`
+        );
+        continue;
+      }
+
+      const stat = await fs.stat(canonicalTargetPath);
+
+      if (stat.isDirectory()) {
+        // For directories, list files but don't inline all content (bounded)
+        const fileNames: string[] = [];
+        let truncated = false;
+        const dir = await fs.opendir(canonicalTargetPath);
+        try {
+          while (true) {
+            const dirent = await dir.read();
+            if (!dirent) break;
+
+            if (fileNames.length < CODEX_FILE_REF.MAX_DIR_ENTRIES) {
+              fileNames.push(dirent.name);
+              continue;
+            }
+
+            truncated = true;
+            break;
+          }
+        } finally {
+          await dir.close();
+        }
+
+        const suffix = truncated ? `, ... (showing first ${CODEX_FILE_REF.MAX_DIR_ENTRIES})` : '';
+        const directoryListing = `\n--- Directory: ${filePath} ---\nFiles: ${fileNames.join(', ')}${suffix}\n--- end directory ---\n`;
+
+        const listingBytes = Buffer.byteLength(directoryListing, 'utf8');
+        if (totalInlinedBytes + listingBytes > CODEX_FILE_REF.MAX_TOTAL_BYTES) {
+          Logger.warn(`Inline limit reached while listing directory: ${filePath}`);
+          translated = translated.replace(ref, `${ERROR_MESSAGES.INLINE_LIMIT_REACHED}: ${filePath}`);
+          continue;
+        }
+
+        totalInlinedBytes += listingBytes;
+        alreadyProcessedTargets.set(canonicalTargetPath, directoryListing);
+        translated = translated.replace(ref, directoryListing);
+        continue;
+      }
+
+      // Check file size before reading
+      if (stat.size > CODEX_FILE_REF.MAX_FILE_BYTES) {
+        Logger.warn(
+          `File too large for @reference: ${filePath} (${(stat.size / 1024 / 1024).toFixed(2)}MB > 10MB limit)`
+        );
+        translated = translated.replace(
+          ref,
+          `${ERROR_MESSAGES.FILE_TOO_LARGE}: ${filePath} (${(stat.size / 1024 / 1024).toFixed(2)}MB exceeds 10MB limit)`
+        );
+        continue;
+      }
+
+      if (totalInlinedBytes + stat.size > CODEX_FILE_REF.MAX_TOTAL_BYTES) {
+        Logger.warn(`Inline limit reached; skipping file: ${filePath} (${stat.size} bytes)`);
+        translated = translated.replace(ref, `${ERROR_MESSAGES.INLINE_LIMIT_REACHED}: ${filePath}`);
+        continue;
+      }
+
+      const content = await fs.readFile(canonicalTargetPath, 'utf-8');
+      const fileBlock = `\n--- File: ${filePath} ---\n${content}\n--- end file: ${filePath} ---\n`;
+      totalInlinedBytes += stat.size;
+
+      alreadyProcessedTargets.set(canonicalTargetPath, fileBlock);
+      translated = translated.replace(ref, fileBlock);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      Logger.error(`Error reading file ${filePath}: ${errMsg}`);
+      translated = translated.replace(ref, `${ERROR_MESSAGES.ERROR_READING_FILE}: ${filePath}`);
+    }
+  }
+
+  // Log warnings for security and missing files
+  if (deniedFiles.length > 0) {
+    Logger.warn(`Security: Blocked access to ${deniedFiles.length} file(s) outside workspace`);
+  }
+  if (missingFiles.length > 0) {
+    Logger.warn(`Missing file references: ${missingFiles.join(', ')}`);
+  }
+
+  return translated;
+}
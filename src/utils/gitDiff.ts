@@ -0,0 +1,268 @@
+import { posix } from 'node:path';
+import { executeCommand } from './commandExecutor.js';
+import { REVIEW } from '../constants.js';
+import type { ReviewComment } from './sessionSchemas.js';
+
+/**
+ * Which changes a diff-scoped review covers
+ * - range: `base` (base against the working tree) or `base..head`
+ * - staged: the index against HEAD
+ * - working-tree: all uncommitted changes (staged and unstaged) against HEAD
+ */
+export type DiffTarget =
+  | { kind: 'range'; base: string; head?: string }
+  | { kind: 'staged' }
+  | { kind: 'working-tree' };
+
+export interface DiffHunk {
+  /** First line of the hunk in the old version of the file */
+  oldStart: number;
+  /** First line of the hunk in the new version of the file */
+  newStart: number;
+  /** Hunk lines with their prefix (' ', '+', '-') */
+  lines: string[];
+}
+
+export interface DiffFile {
+  /** Path in the new version (the old path for deleted files) */
+  path: string;
+  /** Path in the old version (the new path for added files) */
+  oldPath: string;
+  hunks: DiffHunk[];
+  /** Line ranges of the new version that were added or changed */
+  changedLines: Array<{ start: number; end: number }>;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Parses the `diff` argument of review-code
+ * @param value A base ref ("main"), a range ("main..feature"), "staged" or "working-tree"
+ * @throws Error for empty refs or refs that would be read as git options
+ */
+export function parseDiffTarget(value: string): DiffTarget {
+  const trimmed = value.trim();
+  if (trimmed === 'staged') {
+    return { kind: 'staged' };
+  }
+  if (trimmed === 'working-tree') {
+    return { kind: 'working-tree' };
+  }
+
+  const [base, head, ...rest] = trimmed.split('..');
+  const refs = head === undefined ? [base] : [base, head];
+  if (rest.length > 0 || refs.some(ref => !ref || ref.startsWith('-') || /\s/.test(ref))) {
+    throw new Error(`Invalid diff '${value}'. Use a base ref (e.g. 'main'), a range ('main..feature'), 'staged' or 'working-tree'`);
+  }
+  return { kind: 'range', base, head };
+}
+
+/**
+ * Short label for a diff target, e.g. "main..HEAD" or "staged changes"
+ */
+export function describeDiffTarget(target: DiffTarget): string {
+  switch (target.kind) {
+    case 'staged':
+      return 'staged changes';
+    case 'working-tree':
+      return 'uncommitted changes';
+    case 'range':
+      return target.head ? `${target.base}..${target.head}` : `${target.base}..working tree`;
+  }
+}
+
+/**
+ * Top-level directory of the repository containing cwd, where repo-local review files live
+ * @param cwd Directory inside the repository
+ * @returns The repository root, or cwd itself outside a git repository
+ */
+export async function getRepoRoot(cwd: string = process.cwd()): Promise<string> {
+  try {
+    return (await executeCommand('git', ['rev-parse', '--show-toplevel'], undefined, cwd)).trim() || cwd;
+  } catch {
+    return cwd;
+  }
+}
+
+/**
+ * Path of cwd inside its repository, e.g. "packages/api/"
+ * @returns The prefix, or an empty string at the top level or outside a git repository
+ */
+export async function getRepoPrefix(cwd: string = process.cwd()): Promise<string> {
+  try {
+    return (await executeCommand('git', ['rev-parse', '--show-prefix'], undefined, cwd)).trim();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Converts a file reference relative to cwd into a path relative to the repository root,
+ * the form diff paths take
+ * @param prefix Path of cwd inside the repository (see getRepoPrefix)
+ * @returns The repo-root path, or the normalized reference when it points outside the repository
+ */
+export function toRepoPath(filePattern: string, prefix: string): string {
+  const normalized = normalizeFilePattern(filePattern);
+  if (!prefix || posix.isAbsolute(normalized)) {
+    return normalized;
+  }
+  const joined = posix.normalize(posix.join(prefix, normalized));
+  return joined.startsWith('../') ? normalized : joined;
+}
+
+/**
+ * Runs git diff for the target and parses the result
+ * @param target Which changes to diff
+ * @param cwd Repository directory
+ * @param files Optional pathspecs limiting the diff
+ * @returns Changed files (empty when there are no changes)
+ */
+export async function getDiff(target: DiffTarget, cwd?: string, files?: string[]): Promise<DiffFile[]> {
+  const args = ['diff', '--no-color', '--no-ext-diff', `--unified=${REVIEW.DIFF_CONTEXT_LINES}`];
+
+  switch (target.kind) {
+    case 'staged':
+      args.push('--cached');
+      break;
+    case 'working-tree':
+      args.push('HEAD');
+      break;
+    case 'range':
+      args.push(target.head ? `${target.base}..${target.head}` : target.base);
+      break;
+  }
+
+  if (files && files.length > 0) {
+    args.push('--', ...files);
+  }
+
+  try {
+    return parseUnifiedDiff(await executeCommand('git', args, undefined, cwd));
+  } catch (error) {
+    throw new Error(`git diff failed for ${describeDiffTarget(target)}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parses `git diff` output into files, hunks and changed line ranges
+ * Binary files (no hunks) are skipped.
+ */
+export function parseUnifiedDiff(diffText: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let current: DiffFile | undefined;
+  let hunk: DiffHunk | undefined;
+  let newLine = 0;
+
+  const addChangedLine = (file: DiffFile, line: number) => {
+    const last = file.changedLines[file.changedLines.length - 1];
+    if (last && line <= last.end + 1) {
+      last.end = Math.max(last.end, line);
+    } else {
+      file.changedLines.push({ start: line, end: line });
+    }
+  };
+
+  for (const line of diffText.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = { path: '', oldPath: '', hunks: [], changedLines: [], additions: 0, deletions: 0 };
+      files.push(current);
+      hunk = undefined;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    if (!hunk) {
+      // File header lines before the first hunk
+      if (line.startsWith('--- ') && line !== '--- /dev/null') {
+        current.oldPath = line.slice(4).replace(/^a\//, '');
+        current.path = current.oldPath;
+      } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+        current.path = line.slice(4).replace(/^b\//, '');
+      }
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      newLine = parseInt(header[2], 10);
+      hunk = { oldStart: parseInt(header[1], 10), newStart: newLine, lines: [] };
+      current.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.lines.push(line);
+      current.additions++;
+      addChangedLine(current, newLine);
+      newLine++;
+    } else if (line.startsWith('-')) {
+      hunk.lines.push(line);
+      current.deletions++;
+      // A deletion changes the file where the removed lines used to be
+      addChangedLine(current, Math.max(1, newLine));
+    } else if (line.startsWith(' ') || line === '') {
+      hunk.lines.push(line);
+      newLine++;
+    }
+    // "\ No newline at end of file" and other markers are ignored
+  }
+
+  for (const file of files) {
+    file.oldPath ||= file.path;
+  }
+  return files.filter(file => file.path && file.hunks.length > 0);
+}
+
+/**
+ * Formats the hunks for the review prompt, numbering lines of the new version
+ * so that comments can reference them
+ */
+export function formatDiffForPrompt(files: DiffFile[]): string {
+  return files.map(file => {
+    const hunks = file.hunks.map(hunk => {
+      let lineNumber = hunk.newStart;
+      const numbered = hunk.lines.map(line => {
+        if (line.startsWith('-')) {
+          return `      ${line}`;
+        }
+        const label = String(lineNumber++).padStart(5, ' ');
+        return `${label} ${line || ' '}`;
+      });
+      return numbered.join('\n');
+    });
+    return `### ${file.path} (+${file.additions}/-${file.deletions})\n\`\`\`diff\n${hunks.join('\n  ...\n')}\n\`\`\``;
+  }).join('\n\n');
+}
+
+/**
+ * Normalizes a file reference so "./src/a.ts", "@src/a.ts" and "src/a.ts" match
+ */
+export function normalizeFilePattern(filePattern: string): string {
+  return filePattern.trim().replace(/^@/, '').replace(/^\.\//, '').replace(/\\/g, '/');
+}
+
+/**
+ * The diff entry for a comment's file, matching relative and repo-root paths
+ */
+export function findDiffFile(filePattern: string, files: DiffFile[]): DiffFile | undefined {
+  const path = normalizeFilePattern(filePattern);
+  return files.find(candidate => candidate.path === path || candidate.path.endsWith(`/${path}`));
+}
+
+/**
+ * Whether a comment falls on changed lines of the diff
+ * Comments without a line range are kept: they cannot be placed, so they are not filtered.
+ */
+export function isOnChangedLines(comment: ReviewComment, files: DiffFile[]): boolean {
+  if (!comment.lineRange) {
+    return true;
+  }
+  const { start, end } = comment.lineRange;
+  const file = findDiffFile(comment.filePattern, files);
+  return !!file && file.changedLines.some(range => range.start <= end && start <= range.end);
+}
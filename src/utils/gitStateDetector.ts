@@ -52,6 +52,53 @@ export function generateSessionId(gitState: GitState): string {
   return `review-${safeBranch}-${shortHash}`;
 }
 
+/**
+ * Finds the commit where the current branch forked from the target branch
+ * @param targetBranch Branch the pull request merges into (e.g. "main")
+ * @param cwd Optional working directory to run git commands in
+ * @returns Full merge-base commit hash
+ */
+export async function getMergeBase(targetBranch: string, cwd?: string): Promise<string> {
+  if (!targetBranch.trim() || targetBranch.startsWith('-') || /\s/.test(targetBranch)) {
+    throw new Error(`Invalid target branch '${targetBranch}'`);
+  }
+  try {
+    return (await executeCommand('git', ['merge-base', targetBranch, 'HEAD'], undefined, cwd)).trim();
+  } catch (error) {
+    throw new Error(`No merge-base between '${targetBranch}' and HEAD: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Resolves a ref to its full commit hash
+ * @param ref Branch, tag or commit (e.g. "main", "HEAD")
+ * @param cwd Optional working directory to run git commands in
+ * @returns Full commit hash
+ */
+export async function resolveCommit(ref: string, cwd?: string): Promise<string> {
+  if (!ref.trim() || ref.startsWith('-') || /\s/.test(ref)) {
+    throw new Error(`Invalid ref '${ref}'`);
+  }
+  try {
+    return (await executeCommand('git', ['rev-parse', '--verify', `${ref}^{commit}`], undefined, cwd)).trim();
+  } catch (error) {
+    throw new Error(`Unknown commit '${ref}': ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Generates a pull-request session ID from the branch and its merge-base
+ * Unlike generateSessionId, new commits on the branch keep the same ID.
+ * Format: review-pr-{branch}-{shortMergeBase}
+ * @param gitState The current git state
+ * @param mergeBase Merge-base commit with the target branch
+ * @returns Session ID string
+ */
+export function generatePullRequestSessionId(gitState: GitState, mergeBase: string): string {
+  const safeBranch = gitState.branch.replace(/[^a-zA-Z0-9-_]/g, '-');
+  return `review-pr-${safeBranch}-${mergeBase.slice(0, 8)}`;
+}
+
 /**
  * Checks if a session can continue based on git state comparison
  * @param currentGitState Current git state
@@ -0,0 +1,120 @@
+/**
+ * Resolution Verifier - checks that accepted review comments were actually fixed
+ *
+ * Comments accepted through commentDecisions are sent with the current code to
+ * the backend in a targeted prompt. Each one gets an outcome:
+ * - verified: the issue is fixed
+ * - unverified: the fix cannot be confirmed (missing or incomplete)
+ * - regressed: the change made things worse or introduced a new problem
+ */
+
+import { REVIEW } from '../constants.js';
+import { readReviewedFile } from './commentAnchoring.js';
+import type { CommentVerification, ReviewComment } from './sessionSchemas.js';
+
+/**
+ * Formats the current code around a comment's lines, numbered
+ * @returns Code excerpt, or an @ reference when the file cannot be read locally
+ */
+async function formatCurrentCode(comment: ReviewComment, cwd: string, cache: Map<string, string[] | undefined>): Promise<string> {
+  const lines = await readReviewedFile(comment.filePattern, cwd, cache);
+  if (!lines) {
+    return `@${comment.filePattern}`;
+  }
+
+  const context = REVIEW.VERIFICATION_CONTEXT_LINES;
+  const start = comment.lineRange ? Math.max(1, comment.lineRange.start - context) : 1;
+  const end = comment.lineRange
+    ? Math.min(lines.length, comment.lineRange.end + context)
+    : Math.min(lines.length, REVIEW.VERIFICATION_MAX_FILE_LINES);
+
+  const excerpt = lines
+    .slice(start - 1, end)
+    .map((line, index) => `${String(start + index).padStart(5, ' ')}  ${line}`)
+    .join('\n');
+  const truncated = !comment.lineRange && lines.length > end ? `\n... (${lines.length - end} more lines)` : '';
+  return `\`\`\`\n${excerpt}${truncated}\n\`\`\``;
+}
+
+/**
+ * Builds the targeted prompt that checks accepted comments against the current code
+ * @param comments Comments the user accepted
+ * @param cwd Directory the file patterns are relative to (the repository root in review-code)
+ * @returns Formatted prompt string
+ */
+export async function buildVerificationPrompt(comments: ReviewComment[], cwd: string = process.cwd()): Promise<string> {
+  const cache = new Map<string, string[] | undefined>();
+  const sections: string[] = [];
+
+  for (const comment of comments) {
+    const lines = comment.lineRange ? ` (originally lines ${comment.lineRange.start}-${comment.lineRange.end})` : '';
+    const notes = comment.resolution ? `\n**Developer notes:** ${comment.resolution}` : '';
+    sections.push(`### Comment ${comment.id}
+**File:** ${comment.filePattern}${lines}
+**Severity:** ${comment.severity}
+**Review comment:**
+${comment.comment}${notes}
+
+**Current code:**
+${await formatCurrentCode(comment, cwd, cache)}`);
+  }
+
+  return `# FIX VERIFICATION
+
+The developer accepted the review comments below and says they are fixed.
+Check each one against the current code. Do not review anything else.
+
+${sections.join('\n\n')}
+
+## Output Format
+For each comment, use this EXACT format:
+
+**[VERIFICATION: verified|unverified|regressed]**
+**Comment:** {comment id}
+**Notes:** {one or two sentences of evidence}
+
+- verified: the issue is fixed in the current code
+- unverified: the fix is missing, incomplete, or cannot be confirmed from the code shown
+- regressed: the change introduced a new problem or made the issue worse
+`;
+}
+
+/**
+ * Parses the verification response into an outcome per comment
+ * Comments the response does not mention are recorded as unverified.
+ * @param responseText Raw backend response
+ * @param comments The comments that were sent for verification
+ * @param roundNumber Round in which the verification ran
+ * @returns Outcome per comment id
+ */
+export function parseVerificationResponse(
+  responseText: string,
+  comments: ReviewComment[],
+  roundNumber: number
+): Map<string, CommentVerification> {
+  const outcomes = new Map<string, CommentVerification>();
+  const pattern = /\*{2,3}\s*\[\s*VERIFICATION\s*:\s*(verified|unverified|regressed)\s*\]\s*\*{2,3}\s+\*{2,3}\s*Comment\s*:\s*\*{2,3}\s*`?([\w-]+)`?\s+\*{2,3}\s*Notes\s*:\s*\*{2,3}\s*([\s\S]+?)(?=\n\s*\*{2,3}\s*\[\s*VERIFICATION|$)/gi;
+  const ids = new Set(comments.map(comment => comment.id));
+  const timestamp = Date.now();
+
+  let match;
+  while ((match = pattern.exec(responseText)) !== null) {
+    const [, outcome, id, notes] = match;
+    if (ids.has(id) && !outcomes.has(id)) {
+      outcomes.set(id, {
+        outcome: outcome.toLowerCase() as CommentVerification['outcome'],
+        notes: notes.trim(),
+        roundNumber,
+        timestamp
+      });
+    }
+  }
+
+  for (const id of ids) {
+    if (!outcomes.has(id)) {
+      outcomes.set(id, { outcome: 'unverified', notes: 'Not assessed by the reviewer.', roundNumber, timestamp });
+    }
+  }
+
+  return outcomes;
+}
@@ -0,0 +1,185 @@
+/**
+ * Review Baseline - repo-local file of findings the team decided not to act on
+ *
+ * Location: .review-baseline.json at the top of the reviewed repository, meant to be committed.
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "suppressions": [
+ *     {
+ *       "fingerprint": "3f0c2a9b41d7e8c5",
+ *       "issue": "Missing input validation on id",
+ *       "pathGlob": "src/legacy/**",
+ *       "reason": "Legacy module, validated upstream",
+ *       "addedAt": "2026-10-18"
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * A parsed comment is suppressed when its fingerprint matches an entry and its
+ * file matches the entry's path glob (`*` within a segment, `**` across segments).
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { REVIEW } from '../constants.js';
+import { toDateKey } from './tokenUsage.js';
+import { getRepoRoot, normalizeFilePattern } from './gitDiff.js';
+import type { ReviewComment } from './sessionSchemas.js';
+
+const suppressionSchema = z.object({
+  /** Fingerprint of the finding's rule and issue (see fingerprintComment) */
+  fingerprint: z.string().min(1),
+  /** Issue title, for humans reading the file */
+  issue: z.string().optional(),
+  /** Rule id of the finding, for humans reading the file */
+  ruleId: z.string().optional(),
+  /** Files the suppression applies to */
+  pathGlob: z.string().min(1).default('**'),
+  reason: z.string().optional(),
+  addedAt: z.string().optional()
+});
+
+const baselineSchema = z.object({
+  version: z.literal(1).default(1),
+  suppressions: z.array(suppressionSchema).default([])
+});
+
+export type BaselineSuppression = z.infer<typeof suppressionSchema>;
+export type ReviewBaseline = z.infer<typeof baselineSchema>;
+
+/**
+ * Path of the baseline file: at the top of the repository containing cwd, so reviews
+ * started from a subdirectory share it
+ */
+export async function getBaselinePath(cwd?: string): Promise<string> {
+  return path.join(await getRepoRoot(cwd), REVIEW.BASELINE_FILE);
+}
+
+/**
+ * Loads the baseline (an empty one when the file does not exist)
+ * @throws Error naming the file and the failing fields when it is invalid
+ */
+export async function loadBaseline(cwd?: string): Promise<ReviewBaseline> {
+  const baselinePath = await getBaselinePath(cwd);
+  let raw: string;
+  try {
+    raw = await fs.readFile(baselinePath, 'utf-8');
+  } catch {
+    return baselineSchema.parse({});
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid review baseline ${baselinePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = baselineSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new Error(`Invalid review baseline ${baselinePath}: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Writes the baseline file
+ */
+export async function saveBaseline(baseline: ReviewBaseline, cwd?: string): Promise<void> {
+  await fs.writeFile(await getBaselinePath(cwd), `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Fingerprints a finding by its rule id (when set) and issue title, ignoring case, punctuation
+ * and numbers in the title so the same finding matches across rounds even when line numbers change
+ */
+export function fingerprintComment(comment: ReviewComment): string {
+  const issue = comment.comment.split('\n')[0]
+    .toLowerCase()
+    .replace(/[0-9]+/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+  const key = comment.ruleId ? `${comment.ruleId}\n${issue}` : issue;
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+/**
+ * Converts a path glob to a regular expression (`**` spans directories, `*` and `?` do not)
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (char === '*' && glob[index + 1] === '*') {
+      // "**/" also matches no directory at all
+      const slash = glob[index + 2] === '/';
+      pattern += slash ? '(?:.*/)?' : '.*';
+      index += slash ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * The suppression that covers a comment, if any
+ */
+export function findSuppression(comment: ReviewComment, baseline: ReviewBaseline): BaselineSuppression | undefined {
+  const fingerprint = fingerprintComment(comment);
+  const file = normalizeFilePattern(comment.filePattern);
+  return baseline.suppressions.find(
+    suppression => suppression.fingerprint === fingerprint && globToRegExp(suppression.pathGlob).test(file)
+  );
+}
+
+/**
+ * Splits parsed comments into those to report and those the baseline suppresses
+ */
+export function filterSuppressed(
+  comments: ReviewComment[],
+  baseline: ReviewBaseline
+): { kept: ReviewComment[]; suppressed: ReviewComment[] } {
+  const kept: ReviewComment[] = [];
+  const suppressed: ReviewComment[] = [];
+  for (const comment of comments) {
+    (findSuppression(comment, baseline) ? suppressed : kept).push(comment);
+  }
+  return { kept, suppressed };
+}
+
+/**
+ * Adds comments to the baseline, scoped to their own file
+ * Comments already covered by an entry are skipped.
+ * @returns The entries that were added
+ */
+export function addToBaseline(baseline: ReviewBaseline, comments: ReviewComment[]): BaselineSuppression[] {
+  const added: BaselineSuppression[] = [];
+  for (const comment of comments) {
+    if (findSuppression(comment, baseline)) {
+      continue;
+    }
+    const suppression: BaselineSuppression = {
+      fingerprint: fingerprintComment(comment),
+      issue: comment.comment.split('\n')[0].trim(),
+      ruleId: comment.ruleId,
+      pathGlob: normalizeFilePattern(comment.filePattern),
+      reason: comment.resolution,
+      addedAt: toDateKey()
+    };
+    baseline.suppressions.push(suppression);
+    added.push(suppression);
+  }
+  return added;
+}
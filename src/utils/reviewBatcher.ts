@@ -0,0 +1,112 @@
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { REVIEW, USAGE } from '../constants.js';
+import { DiffFile, formatDiffForPrompt } from './gitDiff.js';
+import { estimateTokens } from './tokenUsage.js';
+
+/** Something to review, with its estimated prompt size */
+interface BatchItem<T> {
+  item: T;
+  path: string;
+  tokens: number;
+}
+
+/**
+ * Packs items into batches under a token budget and a file count, keeping directories together
+ * Directories keep their first-appearance order and items their order within a directory. A
+ * directory that does not fit in the current batch starts a new one, and one larger than a
+ * batch is split; an item larger than the budget gets a batch of its own.
+ * @returns Batches of items, at least one
+ */
+function packBatches<T>(items: BatchItem<T>[], budget: number, maxFiles: number): T[][] {
+  const directories = new Map<string, BatchItem<T>[]>();
+  for (const entry of items) {
+    const directory = path.posix.dirname(entry.path.replace(/\\/g, '/'));
+    directories.set(directory, [...(directories.get(directory) ?? []), entry]);
+  }
+
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let currentTokens = 0;
+  const flush = () => {
+    if (current.length > 0) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+  };
+
+  for (const group of directories.values()) {
+    const groupTokens = group.reduce((total, entry) => total + entry.tokens, 0);
+    const fitsEmptyBatch = groupTokens <= budget && group.length <= maxFiles;
+    if (fitsEmptyBatch && (currentTokens + groupTokens > budget || current.length + group.length > maxFiles)) {
+      flush();
+    }
+
+    for (const entry of group) {
+      if (currentTokens + entry.tokens > budget || current.length >= maxFiles) {
+        flush();
+      }
+      current.push(entry.item);
+      currentTokens += entry.tokens;
+    }
+  }
+
+  flush();
+  return batches.length > 0 ? batches : [[]];
+}
+
+/**
+ * Token budget of one batch
+ * @param maxContextTokens Context window of the (smallest) reviewing backend
+ * @param reservedTokens Tokens already taken by the rest of the prompt (instructions, history)
+ */
+function getBatchBudget(maxContextTokens: number, reservedTokens: number): number {
+  return Math.max(1, Math.floor(maxContextTokens * REVIEW.BATCH_CONTEXT_SHARE) - reservedTokens);
+}
+
+/**
+ * Splits changed files into batches that fit the backend's context window
+ * Files of one directory stay together when they fit; a file larger than the budget gets a batch of its own.
+ * @param files Parsed diff
+ * @param maxContextTokens Context window of the (smallest) reviewing backend
+ * @param reservedTokens Tokens already taken by the rest of the prompt (instructions, history)
+ * @returns Batches of files, at least one
+ */
+export function planDiffBatches(files: DiffFile[], maxContextTokens: number, reservedTokens: number = 0): DiffFile[][] {
+  return packBatches(
+    files.map(file => ({ item: file, path: file.path, tokens: estimateTokens(formatDiffForPrompt([file])) })),
+    getBatchBudget(maxContextTokens, reservedTokens),
+    REVIEW.MAX_FILES_PER_BATCH
+  );
+}
+
+/**
+ * Splits the files of a review into batches by size and directory
+ * Sizes are estimated from the files on disk; entries that are not readable files
+ * (globs, directories) count towards the file limit only.
+ * @param files Files passed to review-code, relative to cwd
+ * @param cwd Working directory
+ * @param maxContextTokens Context window of the (smallest) reviewing backend
+ * @param reservedTokens Tokens already taken by the rest of the prompt (instructions, history)
+ * @returns Batches of file paths, at least one
+ */
+export async function planFileBatches(
+  files: string[],
+  cwd: string,
+  maxContextTokens: number,
+  reservedTokens: number = 0
+): Promise<string[][]> {
+  const items = await Promise.all(files.map(async file => {
+    let tokens = 0;
+    try {
+      const info = await stat(path.resolve(cwd, file));
+      tokens = info.isFile() ? Math.ceil(info.size / USAGE.CHARS_PER_TOKEN) : 0;
+    } catch {
+      // Not a plain file; the backend resolves it
+    }
+    return { item: file, path: file, tokens };
+  }));
+
+  return packBatches(items, getBatchBudget(maxContextTokens, reservedTokens), REVIEW.MAX_FILES_PER_BATCH);
+}
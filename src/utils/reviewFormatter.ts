@@ -1,11 +1,18 @@
 import type { ReviewCodeSessionData as CodeReviewSession, ReviewRound, ReviewComment } from './sessionSchemas.js';
+import type { TokenUsage } from '../backends/types.js';
 import { REVIEW, SESSION } from '../constants.js';
+import { formatUsage, sumUsage } from './tokenUsage.js';
+import { describeParticipant } from './consensusBuilder.js';
+import { isRaisedByAll } from './reviewMerger.js';
+import { computeSessionStats, isUnresolved } from './reviewSessionStats.js';
 
 export interface ReviewFormatterConfig {
   session: CodeReviewSession;
   currentRound: ReviewRound;
   newComments: ReviewComment[];
   showHistory: boolean;
+  /** Today's total for the backend that produced the round */
+  dailyUsage?: TokenUsage;
 }
 
 /**
@@ -14,22 +21,45 @@ export interface ReviewFormatterConfig {
  * @returns Formatted markdown string
  */
 export function formatReviewResponse(config: ReviewFormatterConfig): string {
-  const { session, currentRound, newComments, showHistory } = config;
+  const { session, currentRound, newComments, showHistory, dailyUsage } = config;
 
   let output = `# Code Review - Round ${currentRound.roundNumber}\n\n`;
 
   // Session info
   output += `**Session:** \`${session.sessionId}\`\n`;
   output += `**Branch:** ${session.currentGitState.branch} @ ${session.currentGitState.commitHash.slice(0, 8)}\n`;
-  output += `**Files Reviewed:** ${currentRound.filesReviewed.length}\n\n`;
+  output += `**Files Reviewed:** ${currentRound.filesReviewed.length}\n`;
+  if (session.pullRequest) {
+    output += `**Pull Request:** ${session.currentGitState.branch} → ${session.pullRequest.targetBranch} (merge-base ${session.pullRequest.mergeBase.slice(0, 8)})\n`;
+  }
+  if (currentRound.diffTarget) {
+    output += `**Scope:** changed lines only (${currentRound.diffTarget})\n`;
+  }
+  if (currentRound.batches) {
+    const failed = currentRound.failedBatches ? ` (⚠️ ${currentRound.failedBatches} failed, their files were not reviewed)` : '';
+    output += `**Batches:** ${currentRound.batches} requests grouped by size and directory, consolidated below${failed}\n`;
+  }
+  if (currentRound.reviewers && currentRound.reviewers.length > 1) {
+    output += `**Reviewers:** ${currentRound.reviewers.map(backend => describeParticipant({ backend })).join(', ')}\n`;
+  }
+  if (currentRound.parseStats?.failures) {
+    const { failures, repaired, markdownFallbacks } = currentRound.parseStats;
+    output += `**Parse Failures:** ⚠️ ${failures} response(s) did not match the JSON schema (${repaired} repaired, ${markdownFallbacks} parsed as markdown)\n`;
+  }
+  output += formatUsageInfo(session, currentRound, dailyUsage);
+  output += `\n`;
 
   // Summary
-  output += formatSummary(newComments);
+  const reviewerCount = currentRound.reviewers?.length ?? 1;
+  output += formatSummary(newComments, reviewerCount, currentRound.suppressedCount);
+
+  // Outcome of checking the fixes accepted before this round
+  output += formatVerificationResults(session, currentRound);
 
   // Comments by file
   if (newComments.length > 0) {
     output += `## Issues Found\n\n`;
-    output += formatCommentsByFile(newComments);
+    output += formatCommentsByFile(newComments, reviewerCount);
   } else {
     output += `## Result\n\n`;
     output += `✅ No new issues found in this round.\n\n`;
@@ -46,12 +76,55 @@ export function formatReviewResponse(config: ReviewFormatterConfig): string {
   return output;
 }
 
+/**
+ * Formats token usage of the round, the session and the day
+ * @returns Session info lines (empty when no usage was recorded)
+ */
+function formatUsageInfo(session: CodeReviewSession, currentRound: ReviewRound, dailyUsage?: TokenUsage): string {
+  let info = '';
+  if (currentRound.usage) {
+    info += `**Tokens:** ${formatUsage(currentRound.usage)}\n`;
+  }
+  const sessionUsage = sumUsage(session.rounds.map(round => round.usage));
+  if (sessionUsage && session.rounds.length > 1) {
+    info += `**Session Tokens:** ${formatUsage(sessionUsage)}\n`;
+  }
+  if (dailyUsage) {
+    info += `**Today (${currentRound.backend ?? session.lastBackend ?? 'gemini'}):** ${formatUsage(dailyUsage)}\n`;
+  }
+  return info;
+}
+
+/**
+ * Formats the verification outcomes recorded in the current round
+ * @returns Formatted section (empty when nothing was verified)
+ */
+function formatVerificationResults(session: CodeReviewSession, currentRound: ReviewRound): string {
+  const verified = session.allComments.filter(c => c.verification?.roundNumber === currentRound.roundNumber);
+  if (verified.length === 0) {
+    return '';
+  }
+
+  const outcomeEmoji = { verified: '✅', unverified: '❔', regressed: '⚠️' };
+  let output = `## Fix Verification\n\n`;
+  verified.forEach(c => {
+    const { outcome, notes } = c.verification!;
+    const location = c.lineRange ? `${c.filePattern}:${c.lineRange.start}` : c.filePattern;
+    output += `- ${outcomeEmoji[outcome]} **${outcome}** \`${c.id}\` ${location} - ${c.comment.split('\n')[0]}`;
+    output += notes ? `\n  ${notes}\n` : `\n`;
+  });
+
+  return `${output}\n`;
+}
+
 /**
  * Formats the summary section with severity counts
  * @param comments Array of comments to summarize
+ * @param reviewerCount Number of reviewers in the round
+ * @param suppressedCount Comments dropped by the suppression baseline
  * @returns Formatted summary string
  */
-function formatSummary(comments: ReviewComment[]): string {
+function formatSummary(comments: ReviewComment[], reviewerCount: number, suppressedCount?: number): string {
   const criticalCount = comments.filter(c => c.severity === 'critical').length;
   const importantCount = comments.filter(c => c.severity === 'important').length;
   const suggestionCount = comments.filter(c => c.severity === 'suggestion').length;
@@ -62,7 +135,15 @@ function formatSummary(comments: ReviewComment[]): string {
   summary += `- 🟠 Important: ${importantCount}\n`;
   summary += `- 🟡 Suggestions: ${suggestionCount}\n`;
   summary += `- 💬 Questions: ${questionCount}\n`;
-  summary += `- **Total:** ${comments.length} issues\n\n`;
+  if (reviewerCount > 1) {
+    const agreedCount = comments.filter(c => isRaisedByAll(c, reviewerCount)).length;
+    summary += `- 🤝 Raised by all ${reviewerCount} reviewers: ${agreedCount}\n`;
+  }
+  summary += `- **Total:** ${comments.length} issues\n`;
+  if (suppressedCount) {
+    summary += `- 🔕 Suppressed by baseline: ${suppressedCount}\n`;
+  }
+  summary += `\n`;
 
   return summary;
 }
@@ -70,9 +151,10 @@ function formatSummary(comments: ReviewComment[]): string {
 /**
  * Formats comments grouped by file
  * @param comments Array of comments to format
+ * @param reviewerCount Number of reviewers in the round
  * @returns Formatted comments string
  */
-function formatCommentsByFile(comments: ReviewComment[]): string {
+function formatCommentsByFile(comments: ReviewComment[], reviewerCount: number): string {
   const commentsByFile = groupCommentsByFile(comments);
   let output = '';
 
@@ -82,8 +164,17 @@ function formatCommentsByFile(comments: ReviewComment[]): string {
     fileComments.forEach((comment, idx) => {
       const severityEmoji = REVIEW.SEVERITY_EMOJI[comment.severity as keyof typeof REVIEW.SEVERITY_EMOJI] || '📌';
 
-      output += `#### ${severityEmoji} Issue ${idx + 1}\n`;
+      const agreed = isRaisedByAll(comment, reviewerCount);
+      output += `#### ${severityEmoji} Issue ${idx + 1}${agreed ? ' 🤝' : ''}\n`;
       output += `**Comment ID:** \`${comment.id}\`\n`;
+      if (reviewerCount > 1 && comment.reviewers) {
+        const raisedBy = comment.reviewers.map(backend => describeParticipant({ backend })).join(', ');
+        output += `**Raised by:** ${raisedBy}${agreed ? ' (all reviewers)' : ''}\n`;
+      }
+
+      if (comment.ruleId) {
+        output += `**Rule:** \`${comment.ruleId}\`\n`;
+      }
 
       if (comment.lineRange) {
         if (comment.lineRange.start === comment.lineRange.end) {
@@ -109,10 +200,11 @@ function formatCommentsByFile(comments: ReviewComment[]): string {
 export function groupCommentsByFile(comments: ReviewComment[]): Map<string, ReviewComment[]> {
   const groups = new Map<string, ReviewComment[]>();
 
-  // Sort comments by severity first
+  // Sort comments by severity first, then findings raised by more reviewers first
   const sortedComments = [...comments].sort((a, b) => {
     const severityOrder = { critical: 0, important: 1, suggestion: 2, question: 3 };
-    return severityOrder[a.severity] - severityOrder[b.severity];
+    return severityOrder[a.severity] - severityOrder[b.severity] ||
+      (b.reviewers?.length ?? 0) - (a.reviewers?.length ?? 0);
   });
 
   sortedComments.forEach(comment => {
@@ -198,9 +290,107 @@ function formatHistorySummary(session: CodeReviewSession): string {
   history += `- Pending: ${totalPending}\n`;
   history += `- Files Tracked: ${session.filesTracked.length}\n\n`;
 
+  history += formatPendingLocations(session);
+
   return history;
 }
 
+/**
+ * Lists where pending comments of earlier rounds are now, after re-anchoring
+ * @param session The current session
+ * @returns Formatted locations (empty when no earlier comment moved or vanished)
+ */
+function formatPendingLocations(session: CodeReviewSession): string {
+  const currentRound = session.rounds[session.rounds.length - 1]?.roundNumber;
+  const tracked = session.allComments.filter(c =>
+    c.status === 'pending' &&
+    c.roundGenerated !== currentRound &&
+    (c.previousLineRange || c.possiblyResolved)
+  );
+
+  if (tracked.length === 0) {
+    return '';
+  }
+
+  const formatRange = (range: { start: number; end: number }) =>
+    range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`;
+
+  let locations = `**Pending Comment Locations:**\n`;
+  tracked.forEach(c => {
+    const location = c.lineRange ? `${c.filePattern}:${formatRange(c.lineRange)}` : c.filePattern;
+    if (c.possiblyResolved) {
+      locations += `- \`${c.id}\` ${location} - ❔ possibly resolved (code no longer found)\n`;
+    } else {
+      locations += `- \`${c.id}\` ${c.filePattern}:${formatRange(c.previousLineRange!)} → ${formatRange(c.lineRange!)} (moved)\n`;
+    }
+  });
+
+  return `${locations}\n`;
+}
+
+/**
+ * Formats the final report of a completed session
+ * @param session The completed session
+ * @returns Formatted markdown string
+ */
+export function formatCompletionReport(session: CodeReviewSession): string {
+  const stats = computeSessionStats(session);
+  const percent = (ratio?: number) => ratio === undefined ? 'n/a' : `${Math.round(ratio * 100)}%`;
+  const minutes = Math.round(stats.durationMs / 60000);
+  const duration = minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+  let output = `# Code Review Complete\n\n`;
+  output += `**Session:** \`${session.sessionId}\`\n`;
+  output += `**Branch:** ${session.currentGitState.branch} @ ${session.currentGitState.commitHash.slice(0, 8)}\n`;
+  if (session.pullRequest) {
+    output += `**Pull Request:** ${session.currentGitState.branch} → ${session.pullRequest.targetBranch}\n`;
+  }
+  output += `**Rounds:** ${stats.rounds} over ${duration}\n`;
+  output += `**Files Tracked:** ${session.filesTracked.length}\n`;
+  if (stats.backends.length > 0) {
+    output += `**Backends:** ${stats.backends.map(backend => describeParticipant({ backend })).join(', ')}\n`;
+  }
+  if (stats.usage) {
+    output += `**Tokens:** ${formatUsage(stats.usage)}\n`;
+  }
+  output += `\n`;
+
+  output += `## Findings\n\n`;
+  output += `| Severity | Total | Unresolved |\n`;
+  output += `|----------|-------|------------|\n`;
+  (['critical', 'important', 'suggestion', 'question'] as const).forEach(severity => {
+    const unresolved = session.allComments.filter(c => c.severity === severity && isUnresolved(c)).length;
+    output += `| ${REVIEW.SEVERITY_EMOJI[severity]} ${severity} | ${stats.bySeverity[severity]} | ${unresolved} |\n`;
+  });
+  output += `| **Total** | ${stats.totalComments} | ${session.allComments.filter(isUnresolved).length} |\n\n`;
+
+  output += `## Decisions\n\n`;
+  output += `- ✅ Accepted: ${stats.byStatus.accepted + stats.byStatus.modified} (${stats.byStatus.modified} modified) - ${percent(stats.acceptedRatio)} of decided\n`;
+  output += `- ❌ Rejected: ${stats.byStatus.rejected} - ${percent(stats.rejectedRatio)} of decided\n`;
+  output += `- ⏭️ Deferred: ${stats.byStatus.deferred}\n`;
+  output += `- ⏳ Never decided: ${stats.byStatus.pending}\n`;
+  const { verified, unverified, regressed } = stats.verification;
+  if (verified + unverified + regressed > 0) {
+    output += `- 🔎 Fix verification: ${verified} verified, ${unverified} unverified, ${regressed} regressed\n`;
+  }
+  output += `\n`;
+
+  output += `## Unresolved Critical Issues\n\n`;
+  if (stats.unresolvedCritical.length === 0) {
+    output += `✅ No unresolved critical issues.\n\n`;
+  } else {
+    stats.unresolvedCritical.forEach(c => {
+      const location = c.lineRange ? `${c.filePattern}:${c.lineRange.start}` : c.filePattern;
+      const state = c.verification?.outcome === 'regressed' ? 'fix regressed' : c.status;
+      output += `- 🔴 \`${c.id}\` ${location} - ${c.comment.split('\n')[0]} (${state})\n`;
+    });
+    output += `\n`;
+  }
+
+  output += `This session takes no new rounds. Call \`review-code\` with \`action: "reopen"\` to continue it.\n`;
+  return output;
+}
+
 /**
  * Formats a message when session expires or is not found
  * @param sessionId The session ID that was requested
@@ -0,0 +1,77 @@
+import type { BackendType } from '../backends/types.js';
+import type { ReviewComment } from './sessionSchemas.js';
+import { describeParticipant } from './consensusBuilder.js';
+import { normalizeFilePattern } from './gitDiff.js';
+
+/**
+ * Comments parsed from one reviewer's response
+ */
+export interface ReviewerComments {
+  reviewer: BackendType;
+  comments: ReviewComment[];
+}
+
+const SEVERITY_ORDER: Record<ReviewComment['severity'], number> = {
+  critical: 0,
+  important: 1,
+  suggestion: 2,
+  question: 3
+};
+
+/**
+ * Two comments describe the same finding when they point at overlapping lines of the same file
+ * Comments without a line range are never merged (they cannot be located precisely).
+ */
+function overlaps(a: ReviewComment, b: ReviewComment): boolean {
+  if (!a.lineRange || !b.lineRange) {
+    return false;
+  }
+  return normalizeFilePattern(a.filePattern) === normalizeFilePattern(b.filePattern) &&
+    a.lineRange.start <= b.lineRange.end &&
+    b.lineRange.start <= a.lineRange.end;
+}
+
+/**
+ * Merges the comments of several reviewers into one deduplicated list
+ * Overlapping findings from different reviewers become one comment that keeps the
+ * first reviewer's text, the higher severity and the union of the line ranges, and
+ * lists every reviewer that raised it in `reviewers`.
+ * @param reviews Parsed comments per reviewer, in reviewer order
+ * @returns Merged comments, each annotated with its reviewers
+ */
+export function mergeReviewerComments(reviews: ReviewerComments[]): ReviewComment[] {
+  const merged: ReviewComment[] = [];
+
+  for (const { reviewer, comments } of reviews) {
+    for (const comment of comments) {
+      // A reviewer's own comments are never merged with each other
+      const match = merged.find(existing => !existing.reviewers?.includes(reviewer) && overlaps(existing, comment));
+
+      if (!match) {
+        merged.push({ ...comment, reviewers: [reviewer] });
+        continue;
+      }
+
+      match.reviewers = [...(match.reviewers ?? []), reviewer];
+      if (SEVERITY_ORDER[comment.severity] < SEVERITY_ORDER[match.severity]) {
+        match.severity = comment.severity;
+      }
+      match.lineRange = {
+        start: Math.min(match.lineRange!.start, comment.lineRange!.start),
+        end: Math.max(match.lineRange!.end, comment.lineRange!.end)
+      };
+      const summary = comment.comment.split('\n')[0].trim();
+      match.comment += `\n\n**${describeParticipant({ backend: reviewer })} also noted:** ${summary}`;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether every reviewer of the round raised the comment
+ * @param reviewerCount Number of reviewers that answered in the round
+ */
+export function isRaisedByAll(comment: ReviewComment, reviewerCount: number): boolean {
+  return reviewerCount > 1 && (comment.reviewers?.length ?? 0) >= reviewerCount;
+}
@@ -0,0 +1,200 @@
+/**
+ * Review Payload Exporter - turns pending review comments into ready-to-post review payloads
+ *
+ * - GitHub: body of `POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews`, inline
+ *   comments positioned with line/side (start_line for multi-line ranges)
+ * - GitLab: list of bodies for `POST /projects/:id/merge_requests/:iid/discussions`,
+ *   each with a text position (context lines carry both old_line and new_line)
+ *
+ * A comment is placed on the last line of its range that appears in the diff. Comments
+ * that cannot be placed (no lines, or lines outside the diff) go into the GitHub review
+ * body and become GitLab discussions without a position.
+ */
+
+import { REVIEW } from '../constants.js';
+import { DiffFile, findDiffFile } from './gitDiff.js';
+import type { ReviewComment } from './sessionSchemas.js';
+
+/** Where a comment lands in the diff */
+export interface DiffPosition {
+  path: string;
+  oldPath: string;
+  /** Line in the new version the comment is placed on */
+  line: number;
+  /** Line in the old version, for unchanged (context) lines */
+  oldLine?: number;
+  /** First line of a multi-line range, when it is in the same hunk */
+  startLine?: number;
+}
+
+/** Commits the diff was computed between */
+export interface ReviewRefs {
+  /** Merge-base (or base commit) of the diff */
+  baseSha: string;
+  /** Tip of the target branch (the base commit outside pull-request mode) */
+  startSha: string;
+  /** Commit under review */
+  headSha: string;
+}
+
+export interface GitHubReviewPayload {
+  commit_id: string;
+  event: 'COMMENT';
+  body: string;
+  comments: Array<{
+    path: string;
+    body: string;
+    line: number;
+    side: 'RIGHT';
+    start_line?: number;
+    start_side?: 'RIGHT';
+  }>;
+}
+
+export interface GitLabDiscussion {
+  body: string;
+  position?: {
+    position_type: 'text';
+    base_sha: string;
+    start_sha: string;
+    head_sha: string;
+    old_path: string;
+    new_path: string;
+    new_line: number;
+    old_line?: number;
+  };
+}
+
+/**
+ * Maps each new-version line visible in the diff to its hunk and old-version line
+ */
+function mapDiffLines(file: DiffFile): Map<number, { hunk: number; oldLine?: number }> {
+  const lines = new Map<number, { hunk: number; oldLine?: number }>();
+  file.hunks.forEach((hunk, index) => {
+    let oldLine = hunk.oldStart;
+    let newLine = hunk.newStart;
+    for (const line of hunk.lines) {
+      if (line.startsWith('-')) {
+        oldLine++;
+      } else if (line.startsWith('+')) {
+        lines.set(newLine++, { hunk: index });
+      } else {
+        lines.set(newLine++, { hunk: index, oldLine: oldLine++ });
+      }
+    }
+  });
+  return lines;
+}
+
+/**
+ * Computes the diff position of a comment from its line range
+ * @returns The position, or undefined when no line of the range is in the diff
+ */
+export function findDiffPosition(comment: ReviewComment, files: DiffFile[]): DiffPosition | undefined {
+  const file = comment.lineRange && findDiffFile(comment.filePattern, files);
+  if (!file || !comment.lineRange) {
+    return undefined;
+  }
+
+  const lines = mapDiffLines(file);
+  const { start, end } = comment.lineRange;
+  for (let line = end; line >= start; line--) {
+    const target = lines.get(line);
+    if (!target) {
+      continue;
+    }
+    const first = lines.get(start);
+    return {
+      path: file.path,
+      oldPath: file.oldPath,
+      line,
+      ...(target.oldLine !== undefined ? { oldLine: target.oldLine } : {}),
+      ...(start < line && first?.hunk === target.hunk ? { startLine: start } : {})
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Markdown body of one posted comment
+ */
+function formatCommentBody(comment: ReviewComment): string {
+  const emoji = REVIEW.SEVERITY_EMOJI[comment.severity] || '📌';
+  const reviewers = comment.reviewers && comment.reviewers.length > 1 ? `\n\n_Raised by: ${comment.reviewers.join(', ')}_` : '';
+  return `${emoji} **${comment.severity.toUpperCase()}**\n\n${comment.comment}${reviewers}`;
+}
+
+/**
+ * Comments worth posting: pending ones whose code is still there
+ */
+export function getOpenComments(comments: ReviewComment[]): ReviewComment[] {
+  return comments.filter(comment => comment.status === 'pending' && !comment.possiblyResolved);
+}
+
+/**
+ * Builds the GitHub "create review" request body
+ * @param comments All comments of the session (only open ones are exported)
+ * @param files Diff the pull request shows
+ * @param refs Commits of the diff
+ * @param summary Text opening the review body
+ */
+export function buildGitHubReviewPayload(
+  comments: ReviewComment[],
+  files: DiffFile[],
+  refs: ReviewRefs,
+  summary: string
+): GitHubReviewPayload {
+  const inline: GitHubReviewPayload['comments'] = [];
+  const unplaced: string[] = [];
+
+  for (const comment of getOpenComments(comments)) {
+    const position = findDiffPosition(comment, files);
+    if (!position) {
+      const lines = comment.lineRange ? ` (lines ${comment.lineRange.start}-${comment.lineRange.end})` : '';
+      unplaced.push(`### ${comment.filePattern}${lines}\n\n${formatCommentBody(comment)}`);
+      continue;
+    }
+    inline.push({
+      path: position.path,
+      body: formatCommentBody(comment),
+      line: position.line,
+      side: 'RIGHT',
+      ...(position.startLine !== undefined ? { start_line: position.startLine, start_side: 'RIGHT' as const } : {})
+    });
+  }
+
+  return {
+    commit_id: refs.headSha,
+    event: 'COMMENT',
+    body: [summary, ...unplaced].join('\n\n'),
+    comments: inline
+  };
+}
+
+/**
+ * Builds the GitLab merge request discussions, one request body per comment
+ * @param comments All comments of the session (only open ones are exported)
+ * @param files Diff the merge request shows
+ * @param refs Commits of the diff (the merge request's diff_refs)
+ */
+export function buildGitLabDiscussions(comments: ReviewComment[], files: DiffFile[], refs: ReviewRefs): GitLabDiscussion[] {
+  return getOpenComments(comments).map(comment => {
+    const position = findDiffPosition(comment, files);
+    if (!position) {
+      return { body: `**${comment.filePattern}**\n\n${formatCommentBody(comment)}` };
+    }
+    return {
+      body: formatCommentBody(comment),
+      position: {
+        position_type: 'text',
+        base_sha: refs.baseSha,
+        start_sha: refs.startSha,
+        head_sha: refs.headSha,
+        old_path: position.oldPath,
+        new_path: position.path,
+        new_line: position.line,
+        ...(position.oldLine !== undefined ? { old_line: position.oldLine } : {})
+      }
+    };
+  });
+}
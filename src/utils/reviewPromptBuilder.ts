@@ -1,15 +1,28 @@
 import type { ReviewCodeSessionData as CodeReviewSession, ReviewRound } from './sessionSchemas.js';
 import { GitState } from './gitStateDetector.js';
 import { REVIEW } from '../constants.js';
+import { DiffFile, formatDiffForPrompt } from './gitDiff.js';
+import type { BaselineSuppression } from './reviewBaseline.js';
+import { getReviewOutputJsonSchema } from './structuredReviewParser.js';
+import { ReviewRulePack, qualifyRuleId, usesRuleIds } from './reviewRulePacks.js';
 
 export interface ReviewPromptConfig {
   userPrompt: string;
   session: CodeReviewSession;
   files?: string[];
+  /** Review type, or several types and rule pack names separated by ", " */
   reviewType: string;
   severity: string;
   includeHistory: boolean;
   currentGitState: GitState;
+  /** Changes to review instead of whole files (diff-scoped reviews) */
+  diff?: { description: string; files: DiffFile[] };
+  /** Findings from the repo's suppression baseline */
+  suppressions?: BaselineSuppression[];
+  /** 'json' asks for findings as a JSON document validated against a schema (default 'markdown') */
+  responseFormat?: 'markdown' | 'json';
+  /** Repo rule packs named in reviewType */
+  rulePacks?: ReviewRulePack[];
 }
 
 /**
@@ -18,10 +31,15 @@ export interface ReviewPromptConfig {
  * @returns Formatted prompt string
  */
 export function buildReviewPrompt(config: ReviewPromptConfig): string {
-  const { userPrompt, session, files, reviewType, severity, includeHistory, currentGitState } = config;
+  const { userPrompt, session, files, reviewType, severity, includeHistory, currentGitState, diff, suppressions, responseFormat, rulePacks = [] } = config;
+  const reviewTypes = reviewType.split(',').map(name => name.trim()).filter(Boolean);
+  const tagRules = usesRuleIds(reviewTypes, rulePacks);
 
-  // Build file references with @ syntax
-  const fileRefs = files?.map(f => `@${f}`).join(' ') || '';
+  // Build file references with @ syntax (a diff-scoped review sends hunks instead)
+  const fileRefs = diff ? '' : files?.map(f => `@${f}`).join(' ') || '';
+  const filesLine = diff
+    ? `${diff.files.length} changed (${diff.description})`
+    : `${files?.length || 'all tracked'} ${files ? 'specified' : 'files'}`;
 
   let prompt = `# CODE REVIEW SESSION (Round ${session.totalRounds + 1})
 
@@ -31,33 +49,30 @@ export function buildReviewPrompt(config: ReviewPromptConfig): string {
 - Commit: ${currentGitState.commitHash.slice(0, 8)}
 - Review Type: ${reviewType}
 - Severity Scope: ${severity}
-- Files: ${files?.length || 'all tracked'} ${files ? 'specified' : 'files'}
+- Files: ${filesLine}
 
 ## Review Instructions
-${getReviewTypeInstructions(reviewType)}
+${tagRules ? formatRuleSections(reviewTypes, rulePacks) : getReviewTypeInstructions(reviewType)}
 
 ## Severity Filter
 ${getSeverityInstructions(severity)}
 
-## Output Format
-For each issue found, use this EXACT format:
-
-**[SEVERITY: critical|important|suggestion|question]**
-**File:** {filename}
-**Lines:** {start}-{end} (if applicable, otherwise write "N/A")
-**Issue:** {brief title}
-**Details:** {explanation}
-**Recommendation:** {suggested fix or action}
-
----
-
+${responseFormat === 'json' ? formatJsonOutputFormat(tagRules) : formatMarkdownOutputFormat(tagRules)}
 `;
 
+  if (suppressions && suppressions.length > 0) {
+    prompt += formatSuppressions(suppressions);
+  }
+
   // Include conversation history if requested and exists
   if (includeHistory && session.rounds.length > 0) {
     prompt += formatPreviousRounds(session);
   }
 
+  if (diff) {
+    prompt += formatDiffSection(diff.description, diff.files);
+  }
+
   // Add user's current request
   prompt += `\n## Current Review Request\n`;
   if (fileRefs) {
@@ -68,6 +83,129 @@ For each issue found, use this EXACT format:
   return prompt;
 }
 
+/**
+ * Instructions for several review types and rule packs, one section each
+ * @param reviewTypes Active review types and pack names
+ * @param rulePacks Active rule packs
+ * @returns Formatted instructions, ending with the rule tagging instruction
+ */
+function formatRuleSections(reviewTypes: string[], rulePacks: ReviewRulePack[]): string {
+  const sections = reviewTypes.map(name => {
+    const pack = rulePacks.find(candidate => candidate.name === name);
+    if (!pack) {
+      return `### ${name}\n${getReviewTypeInstructions(name)}`;
+    }
+    return formatRulePack(pack);
+  });
+
+  return `${sections.join('\n\n')}
+
+Tag every issue with the rule it falls under: a listed rule id, or the section name for an issue no listed rule covers.`;
+}
+
+/**
+ * Formats one rule pack: instructions, rules and example findings
+ */
+function formatRulePack(pack: ReviewRulePack): string {
+  let section = `### ${pack.name}${pack.description ? ` - ${pack.description}` : ''}\n${pack.instructions.trim()}\n`;
+
+  if (pack.rules.length > 0) {
+    section += `\nRules:\n`;
+    pack.rules.forEach(rule => {
+      section += `- \`${qualifyRuleId(pack, rule.id)}\`: ${rule.description}\n`;
+    });
+  }
+
+  if (pack.examples.length > 0) {
+    section += `\nExample findings:\n`;
+    pack.examples.forEach(example => {
+      const rule = example.rule ? `\`${qualifyRuleId(pack, example.rule)}\` ` : '';
+      section += `- ${rule}[${example.severity}] ${example.issue}\n`;
+      if (example.code) {
+        section += `  \`\`\`\n${example.code.split('\n').map(line => `  ${line}`).join('\n')}\n  \`\`\`\n`;
+      }
+      if (example.recommendation) {
+        section += `  Recommendation: ${example.recommendation}\n`;
+      }
+    });
+  }
+
+  return section.trimEnd();
+}
+
+/**
+ * Output format section asking for bold-labelled markdown findings
+ * @param tagRules Whether each finding names its rule
+ */
+function formatMarkdownOutputFormat(tagRules: boolean): string {
+  return `## Output Format
+For each issue found, use this EXACT format:
+
+**[SEVERITY: critical|important|suggestion|question]**
+**File:** {filename}
+**Lines:** {start}-{end} (if applicable, otherwise write "N/A")
+**Issue:** {brief title}
+**Details:** {explanation}
+**Recommendation:** {suggested fix or action}
+${tagRules ? '**Rule:** {rule id}\n' : ''}
+---
+`;
+}
+
+/**
+ * Output format section asking for a JSON document matching the review output schema
+ * @param tagRules Whether each finding names its rule
+ */
+function formatJsonOutputFormat(tagRules: boolean): string {
+  return `## Output Format
+Respond with a single JSON object matching this schema and nothing else (no prose before or after it):
+
+\`\`\`json
+${getReviewOutputJsonSchema()}
+\`\`\`
+
+- Use \`"lines": null\` for findings not tied to specific lines.
+${tagRules ? '- Set `rule` on every issue.\n' : ''}- When there is nothing to report, respond with \`{"comments": []}\` instead of a sentence.
+`;
+}
+
+/**
+ * Lists the findings the team suppressed, so the model does not raise them again
+ * @param suppressions Entries of the suppression baseline
+ * @returns Formatted suppressions section
+ */
+function formatSuppressions(suppressions: BaselineSuppression[]): string {
+  const listed = suppressions.slice(0, REVIEW.MAX_PROMPT_SUPPRESSIONS);
+  let section = `## Known Suppressions
+The team decided not to act on these findings. Do not report them again in the matching files:
+`;
+  listed.forEach(suppression => {
+    const reason = suppression.reason ? ` (${suppression.reason})` : '';
+    section += `- \`${suppression.pathGlob}\`: ${suppression.issue ?? `finding ${suppression.fingerprint}`}${reason}\n`;
+  });
+  if (suppressions.length > listed.length) {
+    section += `- ... and ${suppressions.length - listed.length} more\n`;
+  }
+  return `${section}\n`;
+}
+
+/**
+ * Formats the changes under review for a diff-scoped review
+ * @param description Which changes the diff covers (e.g. "main..HEAD")
+ * @param files Parsed diff
+ * @returns Formatted diff section
+ */
+function formatDiffSection(description: string, files: DiffFile[]): string {
+  return `
+## Changes Under Review (${description})
+Only the changed lines are under review: lines starting with \`+\` were added, \`-\` removed.
+Unchanged lines are context only - do not report issues in them unless a change breaks them.
+Line numbers refer to the new version of each file; use them for the lines of each issue.
+
+${formatDiffForPrompt(files)}
+`;
+}
+
 /**
  * Returns severity-specific instructions so the model does not waste time
  * generating feedback that will be discarded after parsing.
@@ -171,6 +309,9 @@ export function formatPreviousRounds(session: CodeReviewSession): string {
         if (c.resolution) {
           historyText += ` - ${c.resolution}`;
         }
+        if (c.verification) {
+          historyText += ` [fix ${c.verification.outcome}]`;
+        }
         historyText += '\n';
       });
     }
@@ -184,7 +325,9 @@ export function formatPreviousRounds(session: CodeReviewSession): string {
       historyText += `\n**Still Pending (Critical/Important):**\n`;
       pendingImportant.forEach(c => {
         const emoji = REVIEW.SEVERITY_EMOJI[c.severity as keyof typeof REVIEW.SEVERITY_EMOJI];
-        historyText += `- ${emoji} ${c.filePattern}: ${c.comment.split('\n')[0]}\n`;
+        const location = c.lineRange ? `${c.filePattern}:${c.lineRange.start}-${c.lineRange.end}` : c.filePattern;
+        const possiblyResolved = c.possiblyResolved ? ' (possibly resolved: the code it pointed at is gone)' : '';
+        historyText += `- ${emoji} ${location}: ${c.comment.split('\n')[0]}${possiblyResolved}\n`;
       });
     }
   }
@@ -47,14 +47,18 @@ export function parseReviewResponse(
         }
       }
 
+      // Rule-pack reviews add a **Rule:** line after the recommendation
+      const rule = recommendation.match(/\n\s*\*{2,3}\s*Rule\s*:\s*\*{2,3}\s*`?([^`\s]+)`?\s*$/i);
+
       const comment: ReviewComment = {
         id: generateCommentId(),
         filePattern: file.trim(),
         lineRange,
         severity: severity.trim().toLowerCase() as ReviewComment['severity'],
-        comment: formatCommentText(issue.trim(), details.trim(), recommendation.trim()),
+        comment: formatCommentText(issue.trim(), details.trim(), (rule ? recommendation.slice(0, rule.index) : recommendation).trim()),
         roundGenerated: roundNumber,
-        status: 'pending'
+        status: 'pending',
+        ...(rule ? { ruleId: rule[1] } : {})
       };
 
       comments.push(comment);
@@ -0,0 +1,167 @@
+/**
+ * Review Rule Packs - repo-local review checklists usable as review types
+ *
+ * Location: one JSON file per pack in .review-rules/ at the top of the reviewed repository.
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "react-hooks",
+ *   "description": "Rules of hooks and effect hygiene",
+ *   "instructions": "Check every component and custom hook for violations of the rules below.",
+ *   "rules": [
+ *     { "id": "exhaustive-deps", "description": "Effects and memos list every value they read" },
+ *     { "id": "conditional-hook", "description": "Hooks are never called conditionally or in loops" }
+ *   ],
+ *   "examples": [
+ *     {
+ *       "rule": "exhaustive-deps",
+ *       "severity": "important",
+ *       "issue": "useEffect reads userId but does not list it",
+ *       "code": "useEffect(() => load(userId), []);",
+ *       "recommendation": "Add userId to the dependency array"
+ *     }
+ *   ]
+ * }
+ * ```
+ *
+ * `reviewType` accepts pack names next to the built-in types. Findings are tagged with a
+ * rule id: `{pack}/{rule}` for a listed rule, or the pack (or built-in type) name otherwise.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { REVIEW } from '../constants.js';
+import type { ReviewComment } from './sessionSchemas.js';
+import { getRepoRoot } from './gitDiff.js';
+
+const identifier = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'use lowercase letters, digits, - and _');
+
+const ruleSchema = z.object({
+  id: identifier,
+  description: z.string().min(1)
+});
+
+const exampleSchema = z.object({
+  /** Rule id within the pack */
+  rule: z.string().optional(),
+  severity: z.enum(['critical', 'important', 'suggestion', 'question']).default('important'),
+  issue: z.string().min(1),
+  code: z.string().optional(),
+  recommendation: z.string().optional()
+});
+
+const rulePackSchema = z.object({
+  name: identifier,
+  description: z.string().optional(),
+  instructions: z.string().min(1),
+  rules: z.array(ruleSchema).default([]),
+  examples: z.array(exampleSchema).default([])
+});
+
+export type ReviewRulePack = z.infer<typeof rulePackSchema>;
+
+const BUILT_IN_TYPES: string[] = Object.values(REVIEW.TYPES);
+
+/**
+ * Directory holding the rule packs: at the top of the repository containing cwd
+ */
+export async function getRulePacksDir(cwd?: string): Promise<string> {
+  return path.join(await getRepoRoot(cwd), REVIEW.RULES_DIR);
+}
+
+/**
+ * Loads every rule pack of the working directory (none when the directory does not exist)
+ * @throws Error naming the file and the failing fields for an invalid pack, or a duplicated name
+ */
+export async function loadRulePacks(cwd?: string): Promise<ReviewRulePack[]> {
+  const directory = await getRulePacksDir(cwd);
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(directory)).filter(entry => entry.endsWith('.json')).sort();
+  } catch {
+    return [];
+  }
+
+  const packs: ReviewRulePack[] = [];
+  for (const entry of entries) {
+    const packPath = path.join(directory, entry);
+    let json: unknown;
+    try {
+      json = JSON.parse(await fs.readFile(packPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid review rule pack ${packPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = rulePackSchema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+      throw new Error(`Invalid review rule pack ${packPath}: ${issues}`);
+    }
+    if (packs.some(pack => pack.name === result.data.name)) {
+      throw new Error(`Invalid review rule pack ${packPath}: another pack is already named '${result.data.name}'`);
+    }
+    packs.push(result.data);
+  }
+  return packs;
+}
+
+/**
+ * Picks the repo packs named in reviewType; a pack named like a built-in type replaces it
+ * @param reviewTypes Requested review types and pack names
+ * @param packs Packs of the working directory
+ * @returns The selected packs, in request order
+ * @throws Error for names that are neither built-in types nor packs
+ */
+export function selectRulePacks(reviewTypes: string[], packs: ReviewRulePack[]): ReviewRulePack[] {
+  const unknown = reviewTypes.filter(name => !BUILT_IN_TYPES.includes(name) && !packs.some(pack => pack.name === name));
+  if (unknown.length > 0) {
+    const available = [...BUILT_IN_TYPES, ...packs.map(pack => pack.name).filter(name => !BUILT_IN_TYPES.includes(name))];
+    throw new Error(`Unknown review type '${unknown.join("', '")}'. Available: ${available.join(', ')} (packs are read from ${REVIEW.RULES_DIR}/)`);
+  }
+  return reviewTypes
+    .map(name => packs.find(pack => pack.name === name))
+    .filter((pack): pack is ReviewRulePack => !!pack);
+}
+
+/**
+ * Whether findings are tagged with rule ids: when rule packs or several review types are active
+ * @param reviewTypes Active review types and pack names
+ * @param packs Active rule packs
+ */
+export function usesRuleIds(reviewTypes: string[], packs: ReviewRulePack[]): boolean {
+  return packs.length > 0 || reviewTypes.length > 1;
+}
+
+/**
+ * Rule id of a rule within its pack
+ */
+export function qualifyRuleId(pack: ReviewRulePack, ruleId: string): string {
+  return `${pack.name}/${ruleId}`;
+}
+
+/**
+ * Normalizes the rule ids the model reported and tags comments without one
+ * A reported id is kept when known (a short rule id is qualified with its pack); otherwise a
+ * comment gets the only active review type's name, or no rule id when several are active.
+ * @param comments Comments of the current round
+ * @param reviewTypes Active review types and pack names
+ * @param packs Active packs
+ */
+export function assignRuleIds(comments: ReviewComment[], reviewTypes: string[], packs: ReviewRulePack[]): void {
+  const known = new Set([
+    ...reviewTypes,
+    ...packs.flatMap(pack => pack.rules.map(rule => qualifyRuleId(pack, rule.id)))
+  ]);
+
+  for (const comment of comments) {
+    const reported = comment.ruleId?.trim();
+    let ruleId = reported && known.has(reported) ? reported : undefined;
+    if (reported && !ruleId) {
+      const owners = packs.filter(pack => pack.rules.some(rule => rule.id === reported));
+      ruleId = owners.length === 1 ? qualifyRuleId(owners[0], reported) : undefined;
+    }
+    comment.ruleId = ruleId ?? (reviewTypes.length === 1 ? reviewTypes[0] : undefined);
+  }
+}
@@ -0,0 +1,75 @@
+import type { BackendType, TokenUsage } from '../backends/types.js';
+import type { ReviewCodeSessionData, ReviewComment } from './sessionSchemas.js';
+import { sumUsage } from './tokenUsage.js';
+
+/**
+ * Totals of a review session, for the completion report
+ */
+export interface ReviewSessionStats {
+  rounds: number;
+  totalComments: number;
+  byStatus: Record<ReviewComment['status'], number>;
+  bySeverity: Record<ReviewComment['severity'], number>;
+  /** Share of decided comments (accepted, modified or rejected) that were accepted or modified */
+  acceptedRatio?: number;
+  /** Share of decided comments that were rejected */
+  rejectedRatio?: number;
+  verification: { verified: number; unverified: number; regressed: number };
+  /** Critical comments still pending or deferred, or whose fix regressed */
+  unresolvedCritical: ReviewComment[];
+  backends: BackendType[];
+  usage?: TokenUsage;
+  /** From session creation to completion (or now) */
+  durationMs: number;
+}
+
+/**
+ * Whether a comment still needs work: pending, deferred, or accepted with a regressed fix
+ */
+export function isUnresolved(comment: ReviewComment): boolean {
+  return comment.status === 'pending' ||
+    comment.status === 'deferred' ||
+    comment.verification?.outcome === 'regressed';
+}
+
+/**
+ * Computes the totals of a review session
+ * @param session The review session
+ * @returns Session statistics
+ */
+export function computeSessionStats(session: ReviewCodeSessionData): ReviewSessionStats {
+  const comments = session.allComments;
+  const count = (predicate: (comment: ReviewComment) => boolean) => comments.filter(predicate).length;
+
+  const byStatus = {
+    pending: count(c => c.status === 'pending'),
+    accepted: count(c => c.status === 'accepted'),
+    modified: count(c => c.status === 'modified'),
+    rejected: count(c => c.status === 'rejected'),
+    deferred: count(c => c.status === 'deferred')
+  };
+  const decided = byStatus.accepted + byStatus.modified + byStatus.rejected;
+
+  return {
+    rounds: session.totalRounds,
+    totalComments: comments.length,
+    byStatus,
+    bySeverity: {
+      critical: count(c => c.severity === 'critical'),
+      important: count(c => c.severity === 'important'),
+      suggestion: count(c => c.severity === 'suggestion'),
+      question: count(c => c.severity === 'question')
+    },
+    acceptedRatio: decided > 0 ? (byStatus.accepted + byStatus.modified) / decided : undefined,
+    rejectedRatio: decided > 0 ? byStatus.rejected / decided : undefined,
+    verification: {
+      verified: count(c => c.verification?.outcome === 'verified'),
+      unverified: count(c => c.verification?.outcome === 'unverified'),
+      regressed: count(c => c.verification?.outcome === 'regressed')
+    },
+    unresolvedCritical: comments.filter(c => c.severity === 'critical' && isUnresolved(c)),
+    backends: [...new Set(session.rounds.flatMap(round => round.reviewers ?? (round.backend ? [round.backend] : [])))],
+    usage: sumUsage(session.rounds.map(round => round.usage)),
+    durationMs: (session.completedAt ?? Date.now()) - session.createdAt
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * SARIF Exporter - turns review comments into a SARIF 2.1.0 log for code-scanning dashboards
+ *
+ * Mapping:
+ * - severity → level (critical: error, important: warning, suggestion/question: note)
+ * - ruleId → rule (rule-pack reviews), otherwise one rule per severity
+ * - filePattern/lineRange → physical location (comments not tied to a file have none)
+ * - status → suppressions (rejected: accepted suppression, deferred: under review)
+ *   and baselineState (new this round, unchanged from earlier rounds, absent once fixed)
+ */
+
+import type { ReviewCodeSessionData, ReviewComment } from './sessionSchemas.js';
+import { fingerprintComment } from './reviewBaseline.js';
+import { normalizeFilePattern } from './gitDiff.js';
+import { SARIF, SERVER_INFO } from '../constants.js';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+type SarifBaselineState = 'new' | 'unchanged' | 'updated' | 'absent';
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string; markdown: string };
+  locations?: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; endLine: number };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+  baselineState: SarifBaselineState;
+  suppressions?: Array<{ kind: 'external'; status: 'accepted' | 'underReview'; justification?: string }>;
+  properties: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        version: string;
+        rules: Array<{ id: string; name: string; shortDescription: { text: string }; defaultConfiguration: { level: SarifLevel } }>;
+      };
+    };
+    originalUriBaseIds: Record<string, { description: { text: string } }>;
+    results: SarifResult[];
+    properties: Record<string, unknown>;
+  }>;
+}
+
+const SEVERITY_LEVELS: Record<ReviewComment['severity'], SarifLevel> = {
+  critical: 'error',
+  important: 'warning',
+  suggestion: 'note',
+  question: 'note'
+};
+
+/** Placeholders the response parser uses for comments not tied to a file */
+const NON_FILE_PATTERNS = new Set(['General', 'Unknown']);
+
+type SarifRule = SarifLog['runs'][number]['tool']['driver']['rules'][number];
+
+/**
+ * Rule a comment is reported under: its rule-pack rule, or one rule per severity
+ */
+function getRuleId(comment: ReviewComment): string {
+  return comment.ruleId ?? `${SARIF.RULE_PREFIX}/${comment.severity}`;
+}
+
+/**
+ * Describes the rule of the first comment reported under it
+ */
+function describeRule(comment: ReviewComment): SarifRule {
+  const { severity, ruleId } = comment;
+  if (ruleId) {
+    return {
+      id: ruleId,
+      name: ruleId,
+      shortDescription: { text: `Review rule ${ruleId}` },
+      defaultConfiguration: { level: SEVERITY_LEVELS[severity] }
+    };
+  }
+  return {
+    id: getRuleId(comment),
+    name: `Review${severity.charAt(0).toUpperCase()}${severity.slice(1)}`,
+    shortDescription: { text: `${severity} finding from AI code review` },
+    defaultConfiguration: { level: SEVERITY_LEVELS[severity] }
+  };
+}
+
+function getBaselineState(comment: ReviewComment, latestRound: number): SarifBaselineState {
+  if (comment.status === 'accepted' || comment.status === 'modified') {
+    return comment.verification?.outcome === 'regressed' ? 'updated' : 'absent';
+  }
+  if (comment.possiblyResolved) {
+    return 'absent';
+  }
+  return comment.roundGenerated === latestRound ? 'new' : 'unchanged';
+}
+
+function getSuppressions(comment: ReviewComment): SarifResult['suppressions'] {
+  if (comment.status === 'rejected') {
+    return [{ kind: 'external', status: 'accepted', ...(comment.resolution ? { justification: comment.resolution } : {}) }];
+  }
+  if (comment.status === 'deferred') {
+    return [{ kind: 'external', status: 'underReview', ...(comment.resolution ? { justification: comment.resolution } : {}) }];
+  }
+  return undefined;
+}
+
+function toResult(comment: ReviewComment, latestRound: number): SarifResult {
+  const uri = normalizeFilePattern(comment.filePattern);
+  const result: SarifResult = {
+    ruleId: getRuleId(comment),
+    level: SEVERITY_LEVELS[comment.severity],
+    message: { text: comment.comment.split('\n')[0].trim(), markdown: comment.comment },
+    partialFingerprints: { [SARIF.FINGERPRINT_KEY]: fingerprintComment(comment) },
+    baselineState: getBaselineState(comment, latestRound),
+    properties: {
+      commentId: comment.id,
+      severity: comment.severity,
+      status: comment.status,
+      roundGenerated: comment.roundGenerated,
+      ...(comment.reviewers ? { reviewers: comment.reviewers } : {}),
+      ...(comment.verification ? { verification: comment.verification.outcome } : {}),
+      ...(comment.possiblyResolved ? { possiblyResolved: true } : {})
+    }
+  };
+
+  if (!NON_FILE_PATTERNS.has(comment.filePattern)) {
+    result.locations = [{
+      physicalLocation: {
+        artifactLocation: { uri, uriBaseId: SARIF.SRCROOT },
+        ...(comment.lineRange ? { region: { startLine: comment.lineRange.start, endLine: comment.lineRange.end } } : {})
+      }
+    }];
+  }
+
+  const suppressions = getSuppressions(comment);
+  if (suppressions) {
+    result.suppressions = suppressions;
+  }
+  return result;
+}
+
+/**
+ * Builds a SARIF 2.1.0 log from all comments of a review session
+ * @param session The review session to export
+ * @returns SARIF log object
+ */
+export function buildSarifLog(session: ReviewCodeSessionData): SarifLog {
+  const latestRound = session.rounds[session.rounds.length - 1]?.roundNumber ?? session.totalRounds;
+  const results = session.allComments.map(comment => toResult(comment, latestRound));
+
+  const rules = new Map<string, SarifRule>();
+  for (const comment of session.allComments) {
+    if (!rules.has(getRuleId(comment))) {
+      rules.set(getRuleId(comment), describeRule(comment));
+    }
+  }
+
+  return {
+    $schema: SARIF.SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: SERVER_INFO.NAME,
+          informationUri: SARIF.INFORMATION_URI,
+          version: SERVER_INFO.VERSION,
+          rules: [...rules.values()]
+        }
+      },
+      originalUriBaseIds: {
+        [SARIF.SRCROOT]: { description: { text: 'Root of the reviewed repository' } }
+      },
+      results,
+      properties: {
+        sessionId: session.sessionId,
+        branch: session.currentGitState.branch,
+        commit: session.currentGitState.commitHash,
+        rounds: session.totalRounds,
+        ...(session.pullRequest ? { pullRequest: session.pullRequest } : {})
+      }
+    }]
+  };
+}
+
+/**
+ * Serializes a review session as SARIF JSON
+ */
+export function formatSarif(session: ReviewCodeSessionData): string {
+  return JSON.stringify(buildSarifLog(session), null, 2);
+}
@@ -0,0 +1,199 @@
+/**
+ * Server configuration file
+ *
+ * Optional JSON file with server-wide settings, read once at startup.
+ * Location: $LLM_CLI_BRIDGE_CONFIG, or ~/.ai-cli-mcp/config.json
+ *
+ * @example
+ * ```json
+ * {
+ *   "backends": [
+ *     {
+ *       "name": "aider",
+ *       "command": "aider",
+ *       "args": ["--no-auto-commits", "--yes"],
+ *       "modelFlag": "--model",
+ *       "prompt": { "mode": "flag", "flag": "--message" },
+ *       "output": { "format": "text" }
+ *     }
+ *   ],
+ *   "fallback": {
+ *     "triggers": ["quota", "auth", "binary-missing"],
+ *     "chains": {
+ *       "gemini": [
+ *         { "backend": "gemini", "model": "gemini-3-flash" },
+ *         { "backend": "codex", "model": "gpt-5.4-mini" }
+ *       ]
+ *     }
+ *   },
+ *   "timeouts": {
+ *     "default": { "wallClockMs": 900000, "idleMs": 300000 },
+ *     "backends": { "local": { "idleMs": 60000 } },
+ *     "tools": { "review-code": { "wallClockMs": 1200000 } }
+ *   },
+ *   "concurrency": {
+ *     "default": { "maxConcurrent": 2, "maxQueued": 20 },
+ *     "backends": { "local": { "maxConcurrent": 1 } }
+ *   },
+ *   "budgets": {
+ *     "policy": "downgrade",
+ *     "maxPromptTokens": 200000,
+ *     "sessionTokens": 1000000,
+ *     "dailyTokens": { "codex": 5000000 }
+ *   }
+ * }
+ * ```
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { z } from 'zod';
+import { Logger } from './logger.js';
+import { SERVER_CONFIG, MODELS, CODEX_MODELS, CLAUDE_MODELS } from '../constants.js';
+import { genericBackendDefinitionSchema } from '../backends/generic.js';
+import { BACKEND_FAILURE_KINDS } from '../backends/failures.js';
+
+const fallbackStepSchema = z.object({
+  backend: z.string().min(1),
+  /** Model to request; omitted = the backend's default */
+  model: z.string().optional(),
+});
+
+/** Built-in chains, used for backends the config declares no chain for (e.g. Gemini Pro → Flash on quota errors) */
+const DEFAULT_FALLBACK_CHAINS: Record<string, Array<z.infer<typeof fallbackStepSchema>>> = {
+  gemini: [{ backend: 'gemini', model: MODELS.FLASH }],
+};
+
+/**
+ * Fills in the built-in chains of backends without a configured chain
+ * A configured chain replaces the built-in one; an empty chain disables fallback for that backend.
+ */
+function mergeFallbackChains(
+  chains: Record<string, Array<z.infer<typeof fallbackStepSchema>>>
+): Record<string, Array<z.infer<typeof fallbackStepSchema>>> {
+  return { ...DEFAULT_FALLBACK_CHAINS, ...chains };
+}
+
+const fallbackSchema = z.object({
+  /** Failure kinds that move on to the next step (others fail immediately) */
+  triggers: z.array(z.enum(BACKEND_FAILURE_KINDS)).default(['quota']),
+  /** Steps tried after the requested backend fails, keyed by the requested backend */
+  chains: z.record(z.array(fallbackStepSchema)).default({}).transform(mergeFallbackChains),
+});
+
+const timeoutLimitsSchema = z.object({
+  /** Maximum total run time of one backend execution (0 = no limit) */
+  wallClockMs: z.number().int().nonnegative().optional(),
+  /** Maximum time without any output (0 = no limit) */
+  idleMs: z.number().int().nonnegative().optional(),
+});
+
+const timeoutsSchema = z.object({
+  /** Applies when neither the backend nor the tool sets a limit */
+  default: timeoutLimitsSchema.default({}),
+  /** Limits per backend name */
+  backends: z.record(timeoutLimitsSchema).default({}),
+  /** Limits per tool name; the stricter of tool and backend limits wins */
+  tools: z.record(timeoutLimitsSchema).default({}),
+});
+
+const concurrencyLimitsSchema = z.object({
+  /** Executions of one backend running at once */
+  maxConcurrent: z.number().int().positive().optional(),
+  /** Requests waiting in the FIFO queue before new ones are rejected */
+  maxQueued: z.number().int().nonnegative().optional(),
+});
+
+const concurrencySchema = z.object({
+  /** Applies to backends without their own entry */
+  default: concurrencyLimitsSchema.default({}),
+  /** Limits per backend name */
+  backends: z.record(concurrencyLimitsSchema).default({}),
+});
+
+const budgetsSchema = z.object({
+  /** reject: fail the request; downgrade: retry the budget with the backend's cheaper model */
+  policy: z.enum(['reject', 'downgrade']).default('reject'),
+  /** Maximum estimated prompt tokens per call */
+  maxPromptTokens: z.number().int().positive().optional(),
+  /** Maximum tokens per session, summed over its rounds */
+  sessionTokens: z.number().int().positive().optional(),
+  /** Maximum tokens per day, per backend name */
+  dailyTokens: z.record(z.number().int().positive()).default({}),
+  /** Cheaper model used by the downgrade policy, per backend (must be one of the backend's models) */
+  downgradeModels: z.record(z.string().min(1)).default({
+    gemini: MODELS.FLASH,
+    codex: CODEX_MODELS.GPT_5_4_MINI,
+    claude: CLAUDE_MODELS.HAIKU,
+  }),
+});
+
+const serverConfigSchema = z.object({
+  /** Generic CLI backends, available alongside the built-in ones */
+  backends: z.array(genericBackendDefinitionSchema).default([]),
+  /** Cross-backend fallback chains */
+  fallback: fallbackSchema.default({}),
+  /** Wall-clock and idle-output timeouts for backend executions */
+  timeouts: timeoutsSchema.default({}),
+  /** Per-backend concurrency pools */
+  concurrency: concurrencySchema.default({}),
+  /** Token budgets per call, session and day */
+  budgets: budgetsSchema.default({}),
+});
+
+export type ServerConfig = z.infer<typeof serverConfigSchema>;
+export type FallbackConfig = z.infer<typeof fallbackSchema>;
+export type FallbackStep = z.infer<typeof fallbackStepSchema>;
+export type TimeoutConfig = z.infer<typeof timeoutsSchema>;
+export type ConcurrencyConfig = z.infer<typeof concurrencySchema>;
+export type BudgetConfig = z.infer<typeof budgetsSchema>;
+
+let cachedConfig: ServerConfig | null = null;
+
+/**
+ * Resolves the config file path (env override first, then the home default)
+ */
+export function getServerConfigPath(): string {
+  return process.env[SERVER_CONFIG.ENV_PATH] || path.join(os.homedir(), SERVER_CONFIG.DEFAULT_PATH);
+}
+
+/**
+ * Parses and validates raw config JSON
+ * @throws Error with the failing fields when the config is invalid
+ */
+export function parseServerConfig(raw: unknown): ServerConfig {
+  const result = serverConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    throw new Error(`Invalid server config: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Loads the server config (cached after the first call).
+ * A missing file yields the defaults; an invalid file is logged and ignored
+ * so a bad edit never prevents the server from starting.
+ */
+export function getServerConfig(): ServerConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = getServerConfigPath();
+  cachedConfig = parseServerConfig({});
+
+  if (!existsSync(configPath)) {
+    return cachedConfig;
+  }
+
+  try {
+    cachedConfig = parseServerConfig(JSON.parse(readFileSync(configPath, 'utf-8')));
+    Logger.debug(`Loaded server config from ${configPath}`);
+  } catch (error) {
+    Logger.error(`Ignoring server config ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return cachedConfig;
+}
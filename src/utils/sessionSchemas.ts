@@ -1,5 +1,30 @@
 import { SessionData } from './sessionManager.js';
 import { GitState } from './gitStateDetector.js';
+import type { BackendType, NativeSessionHandles, FallbackAttempt, TokenUsage } from '../backends/types.js';
+
+/**
+ * Fingerprint of the code a review comment was made on, used to find it again after edits
+ */
+export interface CommentAnchor {
+  /** The lines the comment covers, as they read when the comment was made */
+  snippet: string[];
+  /** Lines just before the snippet */
+  before: string[];
+  /** Lines just after the snippet */
+  after: string[];
+}
+
+/**
+ * Outcome of checking an accepted comment against the code after the fix
+ */
+export interface CommentVerification {
+  outcome: 'verified' | 'unverified' | 'regressed';
+  /** The reviewer's evidence */
+  notes?: string;
+  /** Round in which the verification ran */
+  roundNumber: number;
+  timestamp: number;
+}
 
 /**
  * Review comment structure shared across review-code tooling.
@@ -14,6 +39,30 @@ export interface ReviewComment {
   roundGenerated: number;
   status: 'pending' | 'accepted' | 'rejected' | 'modified' | 'deferred';
   resolution?: string;
+  /** Reviewers that raised this finding (multi-reviewer rounds only) */
+  reviewers?: BackendType[];
+  /** Code fingerprint used to re-locate the comment after edits */
+  anchor?: CommentAnchor;
+  /** Line range before the comment was last re-located */
+  previousLineRange?: { start: number; end: number };
+  /** The anchored code was not found in the current file contents */
+  possiblyResolved?: boolean;
+  /** Whether the fix of an accepted comment was confirmed */
+  verification?: CommentVerification;
+  /** Rule that produced the finding (rule-pack reviews), e.g. "react-hooks/exhaustive-deps" */
+  ruleId?: string;
+}
+
+/**
+ * How the review responses of a round were parsed (JSON output mode)
+ */
+export interface ReviewParseStats {
+  /** Responses that failed strict JSON validation */
+  failures: number;
+  /** Failed responses fixed by the repair round-trip */
+  repaired: number;
+  /** Failed responses parsed as markdown after the repair failed too */
+  markdownFallbacks: number;
 }
 
 /**
@@ -27,13 +76,31 @@ export interface ReviewRound {
   response: string;
   commentsGenerated: ReviewComment[];
   gitState: GitState;
+  /** Which backend produced this round */
+  backend?: BackendType;
+  /** Backends that answered a multi-reviewer round */
+  reviewers?: BackendType[];
+  /** Changes reviewed by a diff-scoped round (e.g. "main..HEAD") */
+  diffTarget?: string;
+  /** Number of backend requests the round's files were split into (when more than one) */
+  batches?: number;
+  /** Batches whose request failed; their files were not reviewed */
+  failedBatches?: number;
+  /** Parsed comments dropped because the suppression baseline covers them */
+  suppressedCount?: number;
+  /** Parse failures of JSON-mode responses (when any) */
+  parseStats?: ReviewParseStats;
+  /** Attempts made when the round fell back to other backends/models */
+  fallbackPath?: FallbackAttempt[];
+  /** Token counts for this round */
+  usage?: TokenUsage;
 }
 
 /**
  * Ask Session Data
  * Tracks multi-turn Q&A conversations with context across backends
  */
-export interface AskSessionData extends SessionData {
+export interface AskSessionData extends SessionData, NativeSessionHandles {
   /** History of all conversation rounds */
   conversationHistory: Array<{
     roundNumber: number;
@@ -41,9 +108,14 @@ export interface AskSessionData extends SessionData {
     userPrompt: string;
     response: string;
     model: string;
+    /** Total tokens of this round (same as usage.totalTokens) */
     tokenCount?: number;
     /** Which backend was used for this round */
-    backend?: 'gemini' | 'codex';
+    backend?: BackendType;
+    /** Attempts made when the round fell back to other backends/models */
+    fallbackPath?: FallbackAttempt[];
+    /** Token counts for this round */
+    usage?: TokenUsage;
   }>;
   /** Total number of rounds in this conversation */
   totalRounds: number;
@@ -54,17 +126,15 @@ export interface AskSessionData extends SessionData {
     primaryTopic?: string;
     tags?: string[];
   };
-  /** Codex thread ID for native session resume (only set when using Codex backend) */
-  codexThreadId?: string;
   /** Last backend used (for continuing with same backend) */
-  lastBackend?: 'gemini' | 'codex';
+  lastBackend?: BackendType;
 }
 
 /**
  * Brainstorm Session Data
  * Tracks iterative ideation with ideas and feedback
  */
-export interface BrainstormSessionData extends SessionData {
+export interface BrainstormSessionData extends SessionData, NativeSessionHandles {
   /** Original brainstorming challenge */
   challenge: string;
   /** Methodology used (divergent, scamper, design-thinking, etc.) */
@@ -91,7 +161,11 @@ export interface BrainstormSessionData extends SessionData {
       notes?: string;
     }>;
     /** Which backend was used for this round */
-    backend?: 'gemini' | 'codex';
+    backend?: BackendType;
+    /** Attempts made when the round fell back to other backends/models */
+    fallbackPath?: FallbackAttempt[];
+    /** Token counts for this round */
+    usage?: TokenUsage;
   }>;
 
   /** Total ideas generated across all rounds */
@@ -107,10 +181,8 @@ export interface BrainstormSessionData extends SessionData {
     reason: string;
   }>;
 
-  /** Codex thread ID for native session resume (only set when using Codex backend) */
-  codexThreadId?: string;
   /** Last backend used (for continuing with same backend) */
-  lastBackend?: 'gemini' | 'codex';
+  lastBackend?: BackendType;
 }
 
 /**
@@ -118,7 +190,7 @@ export interface BrainstormSessionData extends SessionData {
  * Enhanced version of existing review session with shared infrastructure
  * Maintains backward compatibility while integrating with new SessionManager
  */
-export interface ReviewCodeSessionData extends SessionData {
+export interface ReviewCodeSessionData extends SessionData, NativeSessionHandles {
   /** Initial git state when review started */
   gitState: GitState;
   /** Current git state (updated each round) */
@@ -136,14 +208,16 @@ export interface ReviewCodeSessionData extends SessionData {
   focusFiles?: string[];
   /** Review scope */
   reviewScope?: 'full' | 'changes-only' | 'focused';
+  /** Pull-request reviews: the branch merged into and the merge-base the session is keyed on */
+  pullRequest?: { targetBranch: string; mergeBase: string };
   /** Total number of review rounds */
   totalRounds: number;
-  /** Current session state */
+  /** Current session state (a completed session takes no new rounds until reopened) */
   sessionState: 'active' | 'paused' | 'completed';
-  /** Codex thread ID for native session resume (only set when using Codex backend) */
-  codexThreadId?: string;
+  /** When the session was completed */
+  completedAt?: number;
   /** Last backend used (for continuing with same backend) */
-  lastBackend?: 'gemini' | 'codex';
+  lastBackend?: BackendType;
 }
 
 // Backward compatibility alias
@@ -0,0 +1,194 @@
+/**
+ * Structured Review Parser - JSON review output validated against a Zod schema
+ *
+ * In JSON mode the review prompt asks for a single object matching reviewOutputSchema.
+ * A response that does not validate gets one repair round-trip (the backend is shown
+ * the validation errors and its own answer); if the repaired answer fails too, the
+ * original response goes through the markdown parser as a last resort.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { TokenUsage } from '../backends/types.js';
+import type { ReviewComment, ReviewParseStats } from './sessionSchemas.js';
+import { generateCommentId, parseReviewResponse, validateComments } from './reviewResponseParser.js';
+import { Logger } from './logger.js';
+import { isAbortError } from './cancellation.js';
+import { isBudgetError } from './budgetGuard.js';
+
+const reviewFindingSchema = z.object({
+  severity: z.enum(['critical', 'important', 'suggestion', 'question']),
+  file: z.string().min(1).describe('Path of the file, relative to the repository root'),
+  lines: z
+    .object({ start: z.number().int().positive(), end: z.number().int().positive() })
+    .strict()
+    .nullable()
+    .describe('Line range in the current version of the file, or null when not tied to lines'),
+  issue: z.string().min(1).describe('Brief title'),
+  details: z.string().min(1).describe('Explanation'),
+  recommendation: z.string().min(1).describe('Suggested fix or action'),
+  rule: z.string().min(1).optional().describe('Id of the rule the issue falls under, when rule packs are listed')
+}).strict();
+
+export const reviewOutputSchema = z.object({
+  comments: z.array(reviewFindingSchema).describe('One entry per issue; empty when nothing was found')
+}).strict();
+
+export type ReviewOutput = z.infer<typeof reviewOutputSchema>;
+
+/** Outcome of parsing one response strictly */
+export type StrictParseResult =
+  | { success: true; comments: ReviewComment[] }
+  | { success: false; error: string };
+
+/** Comments of one response plus how they were obtained */
+export interface StructuredParseResult {
+  comments: ReviewComment[];
+  stats: ReviewParseStats;
+  /** Usage of the repair request, when one was made */
+  usage?: TokenUsage;
+}
+
+/**
+ * Adds up the parse statistics of several responses
+ * @returns Totals, or undefined when no response was parsed in JSON mode
+ */
+export function sumParseStats(stats: Array<ReviewParseStats | undefined>): ReviewParseStats | undefined {
+  const present = stats.filter((entry): entry is ReviewParseStats => !!entry);
+  if (present.length === 0) {
+    return undefined;
+  }
+  return present.reduce((total, entry) => ({
+    failures: total.failures + entry.failures,
+    repaired: total.repaired + entry.repaired,
+    markdownFallbacks: total.markdownFallbacks + entry.markdownFallbacks
+  }), { failures: 0, repaired: 0, markdownFallbacks: 0 });
+}
+
+/**
+ * JSON schema of the review output, embedded in the prompt
+ */
+export function getReviewOutputJsonSchema(): string {
+  const { $schema: _ignored, ...schema } = zodToJsonSchema(reviewOutputSchema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return JSON.stringify(schema, null, 2);
+}
+
+/**
+ * Takes the JSON document out of a response: the whole text, or the content of
+ * a ```json fence when the model wrapped it in one
+ */
+function extractJson(responseText: string): string {
+  const trimmed = responseText.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n```$/i);
+  return fenced ? fenced[1] : trimmed;
+}
+
+/**
+ * Parses a JSON review response, rejecting anything that does not match the schema
+ * @param responseText Raw backend response
+ * @param roundNumber The current review round number
+ * @returns Parsed comments, or the JSON/validation error
+ */
+export function parseJsonReviewResponse(responseText: string, roundNumber: number): StrictParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(responseText));
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const result = reviewOutputSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join(', ');
+    return { success: false, error: `Schema mismatch: ${issues}` };
+  }
+
+  const invertedRange = result.data.comments.findIndex(finding => finding.lines && finding.lines.end < finding.lines.start);
+  if (invertedRange !== -1) {
+    return { success: false, error: `Schema mismatch: comments.${invertedRange}.lines: end is before start` };
+  }
+
+  return {
+    success: true,
+    comments: result.data.comments.map(finding => ({
+      id: generateCommentId(),
+      filePattern: finding.file.trim(),
+      lineRange: finding.lines ?? undefined,
+      severity: finding.severity,
+      comment: `${finding.issue.trim()}\n\n${finding.details.trim()}\n\n**Recommendation:** ${finding.recommendation.trim()}`,
+      roundGenerated: roundNumber,
+      status: 'pending',
+      ...(finding.rule ? { ruleId: finding.rule.trim() } : {})
+    }))
+  };
+}
+
+/**
+ * Builds the prompt asking the backend to fix a response that failed validation
+ * @param responseText The response that failed
+ * @param error Why it failed
+ * @returns Formatted prompt string
+ */
+export function buildRepairPrompt(responseText: string, error: string): string {
+  return `# OUTPUT REPAIR
+
+Your code review response below could not be parsed.
+Error: ${error}
+
+Return the same findings as a single JSON object matching this schema. Do not add, drop or
+change findings, and do not write anything outside the JSON object.
+
+\`\`\`json
+${getReviewOutputJsonSchema()}
+\`\`\`
+
+## Response To Repair
+${responseText}
+`;
+}
+
+/**
+ * Parses a JSON-mode review response: strict parse, then one repair round-trip,
+ * then the markdown parser on the original response (also when the repair request fails,
+ * unless it was cancelled or refused by the budgets, which refuses the round)
+ * @param responseText Raw backend response
+ * @param roundNumber The current review round number
+ * @param repair Sends a repair prompt to the backend that produced the response
+ * @returns Comments with parse statistics
+ */
+export async function parseStructuredReview(
+  responseText: string,
+  roundNumber: number,
+  repair: (prompt: string) => Promise<{ response: string; usage?: TokenUsage }>
+): Promise<StructuredParseResult> {
+  const parsed = parseJsonReviewResponse(responseText, roundNumber);
+  if (parsed.success) {
+    return { comments: validateComments(parsed.comments), stats: { failures: 0, repaired: 0, markdownFallbacks: 0 } };
+  }
+
+  Logger.debug(`Review response failed strict parsing: ${parsed.error}`);
+  let repairResult: { response: string; usage?: TokenUsage } | undefined;
+  try {
+    repairResult = await repair(buildRepairPrompt(responseText, parsed.error));
+    const repaired = parseJsonReviewResponse(repairResult.response, roundNumber);
+    if (repaired.success) {
+      return {
+        comments: validateComments(repaired.comments),
+        stats: { failures: 1, repaired: 1, markdownFallbacks: 0 },
+        usage: repairResult.usage
+      };
+    }
+    Logger.debug(`Repaired response failed strict parsing too (${repaired.error}), falling back to markdown`);
+  } catch (error) {
+    if (isAbortError(error) || isBudgetError(error)) {
+      throw error;
+    }
+    Logger.error(`Review output repair failed, falling back to markdown: ${error}`);
+  }
+
+  return {
+    comments: validateComments(parseReviewResponse(responseText, roundNumber)),
+    stats: { failures: 1, repaired: 0, markdownFallbacks: 1 },
+    usage: repairResult?.usage
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Timeout Manager - Hard deadlines for backend executions
+ *
+ * Two limits apply to every execution:
+ * - wall-clock: total run time
+ * - idle: time since the last output chunk (stdout or stderr)
+ *
+ * Limits come from the server config (default, per backend, per tool; the
+ * stricter of tool and backend wins) with EXECUTION_TIMEOUTS as fallback.
+ * When a limit is hit the caller kills the child (SIGTERM, then SIGKILL) and
+ * rejects with an ExecutionTimeoutError carrying the partial output.
+ */
+
+import { Logger } from './logger.js';
+import { EXECUTION_TIMEOUTS } from '../constants.js';
+import type { TimeoutConfig } from './serverConfig.js';
+
+export type TimeoutKind = 'wall-clock' | 'idle';
+
+/** Limits in milliseconds; 0 disables a limit, undefined defers to the next level */
+export interface TimeoutLimits {
+  wallClockMs?: number;
+  idleMs?: number;
+}
+
+/**
+ * Thrown when an execution exceeds one of its limits
+ */
+export class ExecutionTimeoutError extends Error {
+  constructor(
+    /** Which limit was hit */
+    readonly kind: TimeoutKind,
+    /** The limit in milliseconds */
+    readonly limitMs: number,
+    /** Output captured before the process was killed */
+    readonly partialOutput: string,
+    /** What was running, e.g. "Gemini" */
+    readonly label: string
+  ) {
+    super(formatTimeoutMessage(kind, limitMs, partialOutput, label));
+    this.name = 'ExecutionTimeoutError';
+  }
+}
+
+function formatTimeoutMessage(kind: TimeoutKind, limitMs: number, partialOutput: string, label: string): string {
+  const seconds = Math.round(limitMs / 1000);
+  const limitText = kind === 'idle'
+    ? `idle timeout (${seconds}s without output)`
+    : `wall-clock timeout (${seconds}s)`;
+  const trimmed = partialOutput.trim();
+  if (!trimmed) {
+    return `${label} timed out: exceeded the ${limitText}. No output was captured.`;
+  }
+
+  const tail = trimmed.length > EXECUTION_TIMEOUTS.PARTIAL_OUTPUT_CHARS
+    ? `...${trimmed.slice(-EXECUTION_TIMEOUTS.PARTIAL_OUTPUT_CHARS)}`
+    : trimmed;
+  return `${label} timed out: exceeded the ${limitText}. Partial output (${trimmed.length} chars):\n${tail}`;
+}
+
+let timeoutConfig: TimeoutConfig = { default: {}, backends: {}, tools: {} };
+
+/**
+ * Installs the timeouts section of the server config (called by the backend registry at startup)
+ */
+export function configureTimeouts(config: TimeoutConfig): void {
+  timeoutConfig = config;
+}
+
+/**
+ * Tool-level limits from the server config, passed to backends via BackendConfig.timeouts
+ */
+export function getToolTimeouts(toolName: string): TimeoutLimits | undefined {
+  return timeoutConfig.tools[toolName];
+}
+
+/**
+ * Resolves the effective limits for one backend execution
+ * @param backendName Backend being executed
+ * @param toolLimits Limits requested by the calling tool
+ */
+export function resolveTimeouts(backendName: string, toolLimits?: TimeoutLimits): Required<TimeoutLimits> {
+  const backendLimits = timeoutConfig.backends[backendName];
+
+  const resolve = (key: keyof TimeoutLimits, builtinDefault: number): number => {
+    const configured = [toolLimits?.[key], backendLimits?.[key]].filter((value): value is number => value !== undefined);
+    if (configured.length === 0) {
+      return timeoutConfig.default[key] ?? builtinDefault;
+    }
+    // Stricter limit wins; 0 (disabled) only applies when every level disables it
+    const enabled = configured.filter(value => value > 0);
+    return enabled.length > 0 ? Math.min(...enabled) : 0;
+  };
+
+  return {
+    wallClockMs: resolve('wallClockMs', EXECUTION_TIMEOUTS.WALL_CLOCK_MS),
+    idleMs: resolve('idleMs', EXECUTION_TIMEOUTS.IDLE_MS),
+  };
+}
+
+/** Handle returned by startWatchdog */
+export interface Watchdog {
+  /** Record activity (resets the idle timer) */
+  touch: () => void;
+  /** Stop all timers (call when the execution ends) */
+  clear: () => void;
+}
+
+/**
+ * Starts wall-clock and idle timers for an execution
+ * @param limits Effective limits (see resolveTimeouts)
+ * @param options.label Name used in the error message
+ * @param options.getPartialOutput Returns the output captured so far
+ * @param options.onTimeout Called once with the error; must stop the execution
+ */
+export function startWatchdog(
+  limits: Required<TimeoutLimits>,
+  options: {
+    label: string;
+    getPartialOutput: () => string;
+    onTimeout: (error: ExecutionTimeoutError) => void;
+  }
+): Watchdog {
+  let wallClockTimer: NodeJS.Timeout | undefined;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let isDone = false;
+
+  const fire = (kind: TimeoutKind, limitMs: number) => {
+    if (isDone) return;
+    clear();
+    Logger.warn(`${options.label} exceeded its ${kind} timeout of ${limitMs}ms, stopping it`);
+    options.onTimeout(new ExecutionTimeoutError(kind, limitMs, options.getPartialOutput(), options.label));
+  };
+
+  const clear = () => {
+    isDone = true;
+    if (wallClockTimer) clearTimeout(wallClockTimer);
+    if (idleTimer) clearTimeout(idleTimer);
+  };
+
+  const touch = () => {
+    if (isDone || limits.idleMs <= 0) return;
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => fire('idle', limits.idleMs), limits.idleMs);
+  };
+
+  if (limits.wallClockMs > 0) {
+    wallClockTimer = setTimeout(() => fire('wall-clock', limits.wallClockMs), limits.wallClockMs);
+  }
+  touch();
+
+  return { touch, clear };
+}
@@ -0,0 +1,179 @@
+/**
+ * Token Usage - Per-call counts, estimates and daily totals
+ *
+ * Backends report the counts their CLI exposes (Codex turn.completed usage,
+ * Claude result usage, OpenAI-compatible usage chunks) and fall back to an
+ * estimate from text length otherwise. Sessions store the usage of each round;
+ * daily totals per backend are kept in a small ledger file in the user's home.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Logger } from './logger.js';
+import { USAGE } from '../constants.js';
+import type { TokenUsage } from '../backends/types.js';
+
+/**
+ * Rough token estimate for text the CLI did not count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / USAGE.CHARS_PER_TOKEN);
+}
+
+/**
+ * Builds a usage record from reported counts
+ */
+export function createUsage(
+  counts: { promptTokens: number; completionTokens: number; reasoningTokens?: number; costUsd?: number },
+  estimated = false
+): TokenUsage {
+  return {
+    promptTokens: counts.promptTokens,
+    completionTokens: counts.completionTokens,
+    ...(counts.reasoningTokens ? { reasoningTokens: counts.reasoningTokens } : {}),
+    totalTokens: counts.promptTokens + counts.completionTokens,
+    ...(counts.costUsd !== undefined ? { costUsd: counts.costUsd } : {}),
+    estimated,
+  };
+}
+
+/**
+ * Estimates usage from the prompt sent and the response received
+ */
+export function estimateUsage(prompt: string, response: string): TokenUsage {
+  return createUsage({ promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(response) }, true);
+}
+
+/**
+ * Sums usage records; the sum is estimated if any part was
+ * @returns undefined when no record is given
+ */
+export function sumUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = usages.filter((usage): usage is TokenUsage => usage !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const costs = present.filter(usage => usage.costUsd !== undefined);
+  return createUsage(
+    {
+      promptTokens: present.reduce((sum, usage) => sum + usage.promptTokens, 0),
+      completionTokens: present.reduce((sum, usage) => sum + usage.completionTokens, 0),
+      reasoningTokens: present.reduce((sum, usage) => sum + (usage.reasoningTokens ?? 0), 0),
+      costUsd: costs.length > 0 ? costs.reduce((sum, usage) => sum + usage.costUsd!, 0) : undefined,
+    },
+    present.some(usage => usage.estimated)
+  );
+}
+
+/**
+ * Formats usage on one line, e.g. "1,200 prompt + 350 completion (120 reasoning) = 1,550 tokens, $0.0042"
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const number = (value: number) => value.toLocaleString('en-US');
+  let text = `${number(usage.promptTokens)} prompt + ${number(usage.completionTokens)} completion`;
+  if (usage.reasoningTokens) {
+    text += ` (${number(usage.reasoningTokens)} reasoning)`;
+  }
+  text += ` = ${number(usage.totalTokens)} tokens`;
+  if (usage.costUsd !== undefined) {
+    text += `, $${usage.costUsd.toFixed(4)}`;
+  }
+  return usage.estimated ? `${text} (estimated)` : text;
+}
+
+/**
+ * Formats the usage footer appended to tool responses
+ */
+export function formatUsageFooter(options: {
+  usage?: TokenUsage;
+  sessionUsage?: TokenUsage;
+  dailyUsage?: TokenUsage;
+  backend: string;
+}): string {
+  const lines: string[] = [];
+  if (options.usage) {
+    lines.push(`📊 Tokens: ${formatUsage(options.usage)}`);
+  }
+  if (options.sessionUsage) {
+    lines.push(`📈 Session total: ${formatUsage(options.sessionUsage)}`);
+  }
+  if (options.dailyUsage) {
+    lines.push(`📅 Today (${options.backend}): ${formatUsage(options.dailyUsage)}`);
+  }
+  return lines.length > 0 ? `\n\n---\n${lines.join('\n')}` : '';
+}
+
+/** Daily totals: date (YYYY-MM-DD, local time) → backend → usage */
+type UsageLedger = Record<string, Record<string, TokenUsage>>;
+
+let ledgerWrite: Promise<void> = Promise.resolve();
+
+function getLedgerPath(): string {
+  return path.join(os.homedir(), USAGE.LEDGER_PATH);
+}
+
+/**
+ * Local calendar date used as the ledger key
+ */
+export function toDateKey(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Reads the ledger from disk on every call: other server processes write to the same file
+ */
+async function loadLedger(): Promise<UsageLedger> {
+  try {
+    return JSON.parse(await fs.readFile(getLedgerPath(), 'utf-8')) as UsageLedger;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Adds one execution's usage to today's total for its backend.
+ * Never throws: accounting must not fail a request that already succeeded.
+ */
+export async function recordDailyUsage(backend: string, usage: TokenUsage | undefined, date: Date = new Date()): Promise<void> {
+  if (!usage) return;
+
+  // Writes are chained so concurrent executions do not lose each other's counts, and each one
+  // re-reads the file so totals written meanwhile by other processes are kept
+  ledgerWrite = ledgerWrite.then(async () => {
+    const ledger = await loadLedger();
+    const key = toDateKey(date);
+    const day = ledger[key] ?? (ledger[key] = {});
+    day[backend] = sumUsage([day[backend], usage])!;
+
+    // Drop days past the retention window
+    const cutoff = toDateKey(new Date(date.getTime() - USAGE.RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    for (const existing of Object.keys(ledger)) {
+      if (existing < cutoff) {
+        delete ledger[existing];
+      }
+    }
+
+    // Write-then-rename so a concurrent reader never sees a half-written file
+    const ledgerPath = getLedgerPath();
+    const tempPath = `${ledgerPath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(ledger, null, 2), 'utf-8');
+    await fs.rename(tempPath, ledgerPath);
+  }).catch(error => {
+    Logger.error(`Failed to record token usage: ${error instanceof Error ? error.message : String(error)}`);
+  });
+
+  await ledgerWrite;
+}
+
+/**
+ * Gets a day's total for one backend, or across all backends when none is given
+ */
+export async function getDailyUsage(backend?: string, date: Date = new Date()): Promise<TokenUsage | undefined> {
+  await ledgerWrite;
+  const day = (await loadLedger())[toDateKey(date)] ?? {};
+  return backend ? day[backend] : sumUsage(Object.values(day));
+}
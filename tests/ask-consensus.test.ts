@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Keep the server config, usage ledger and sessions of the real home out of the tests
+const home = vi.hoisted(() => ({ dir: '' }));
+vi.mock('os', async () => {
+  const actual = await vi.importActual<typeof import('os')>('os');
+  const homedir = () => home.dir || actual.homedir();
+  return { ...actual, default: { ...actual, homedir }, homedir };
+});
+
+describe('askTool consensus mode', () => {
+  beforeEach(() => {
+    home.dir = mkdtempSync(join(tmpdir(), 'ask-consensus-'));
+    vi.stubEnv('LLM_CLI_BRIDGE_CONFIG', '');
+  });
+
+  afterEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    vi.unmock('../src/backends/index.js');
+    vi.unmock('../src/utils/budgetGuard.js');
+    rmSync(home.dir, { recursive: true, force: true });
+    home.dir = '';
+  });
+
+  async function loadAskTool(execute: (name: string, prompt: string, config: any) => Promise<any>) {
+    vi.doMock('../src/backends/index.js', () => ({
+      getBackend: vi.fn(async (name: string) => ({
+        name,
+        getModels: () => [],
+        execute: vi.fn((prompt: string, config: any) => execute(name, prompt, config)),
+      })),
+    }));
+    const { askTool } = await import('../src/tools/ask.tool.ts');
+    return askTool;
+  }
+
+  it('asks every participant and synthesizes their answers', async () => {
+    const calls: Array<{ name: string; prompt: string; model?: string }> = [];
+    const askTool = await loadAskTool(async (name, prompt, config) => {
+      calls.push({ name, prompt, model: config.model });
+      if (prompt.startsWith('# CONSENSUS SYNTHESIS')) {
+        return { response: '### Agreement\nBoth say yes', backend: name };
+      }
+      return { response: `${name} says yes`, backend: name, model: config.model };
+    });
+
+    const output = await askTool.execute({
+      prompt: 'Is this safe?',
+      consensus: [{ backend: 'gemini', model: 'gemini-3-flash' }, { backend: 'codex' }],
+    });
+
+    expect(calls).toHaveLength(3);
+    expect(calls[2].name).toBe('gemini');
+    expect(calls[2].prompt).toContain('## Answer 1: Gemini (gemini-3-flash)');
+    expect(calls[2].prompt).toContain('codex says yes');
+    expect(output).toContain('# Consensus (2 answers)');
+    expect(output).toContain('## Synthesis (Gemini)\n\n### Agreement\nBoth say yes');
+    expect(output).toContain('## Answer 2: Codex (gpt-5.4)');
+  });
+
+  it('returns the remaining answers when a participant fails', async () => {
+    const askTool = await loadAskTool(async (name, prompt) => {
+      if (name === 'codex') {
+        throw new Error('quota exhausted');
+      }
+      return { response: `${name}: ${prompt.slice(0, 20)}`, backend: name };
+    });
+
+    const output = await askTool.execute({
+      prompt: 'Is this safe?',
+      consensus: [{ backend: 'gemini' }, { backend: 'codex' }],
+    });
+
+    expect(output).toContain('# Consensus (1 answer)');
+    expect(output).toContain('Only one answer arrived');
+    expect(output).toContain('## Failed\n\n- Codex: quota exhausted');
+  });
+
+  it('fails when no participant answers', async () => {
+    const askTool = await loadAskTool(async () => {
+      throw new Error('offline');
+    });
+
+    await expect(askTool.execute({
+      prompt: 'Is this safe?',
+      consensus: [{ backend: 'gemini' }, { backend: 'codex' }],
+    })).rejects.toThrow('Consensus failed: no participant answered (Gemini: offline; Codex: offline)');
+  });
+
+  it('rejects model with consensus and caps the participants', async () => {
+    const askTool = await loadAskTool(async name => ({ response: 'ok', backend: name }));
+
+    await expect(askTool.execute({
+      prompt: 'Is this safe?',
+      model: 'gemini-3-flash',
+      consensus: [{ backend: 'gemini' }, { backend: 'codex' }],
+    })).rejects.toThrow('model cannot be combined with consensus');
+    await expect(askTool.execute({
+      prompt: 'Is this safe?',
+      consensus: Array.from({ length: 6 }, () => ({ backend: 'gemini' })),
+    })).rejects.toThrow('consensus accepts at most 5 participants');
+  });
+
+  it('reserves the parallel participants and the answers against the budgets', async () => {
+    const requests: any[] = [];
+    vi.doMock('../src/utils/budgetGuard.js', () => ({
+      configureBudgets: vi.fn(),
+      enforceBudgets: vi.fn(async (request: any) => {
+        requests.push(request);
+        return request.model;
+      }),
+    }));
+    const askTool = await loadAskTool(async (name, prompt) => ({
+      response: 'ok',
+      backend: name,
+      usage: prompt.startsWith('# CONSENSUS SYNTHESIS')
+        ? undefined
+        : { promptTokens: 100, completionTokens: 10, totalTokens: 110 },
+    }));
+
+    await askTool.execute({
+      prompt: 'x'.repeat(40),
+      consensus: [{ backend: 'gemini' }, { backend: 'codex' }, { backend: 'claude' }],
+    });
+
+    expect(requests.slice(0, 3).map(request => request.reservedTokens)).toEqual([0, 10, 20]);
+    expect(requests[3].sessionUsage?.totalTokens).toBe(330);
+  });
+});
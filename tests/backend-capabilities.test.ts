@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { validateBackendOptions, resolveModel } from '../src/backends/capabilities.ts';
+import { GeminiBackend } from '../src/backends/gemini.ts';
+import { CodexBackend } from '../src/backends/codex.ts';
+import { OpenAICompatibleBackend } from '../src/backends/openaiCompatible.ts';
+
+describe('backend capability validation', () => {
+  const gemini = new GeminiBackend().getCapabilities();
+  const codex = new CodexBackend().getCapabilities();
+  const local = new OpenAICompatibleBackend({ baseUrl: 'http://localhost:1', defaultModel: 'llama3.1' }).getCapabilities();
+
+  it('rejects reasoningEffort on backends without it and names supporting backends', () => {
+    expect(() => validateBackendOptions('gemini', gemini, { reasoningEffort: 'high' }))
+      .toThrow("reasoningEffort is not supported by the 'gemini' backend. Supported by: codex");
+    expect(() => validateBackendOptions('codex', codex, { reasoningEffort: 'high' })).not.toThrow();
+  });
+
+  it('rejects sandbox options the backend cannot honor', () => {
+    expect(() => validateBackendOptions('gemini', gemini, { sandboxMode: 'workspace-write' }))
+      .toThrow(/sandboxMode is not supported by the 'gemini' backend/);
+    expect(() => validateBackendOptions('local', local, { sandbox: true }))
+      .toThrow(/sandbox is not supported by the 'local' backend/);
+    expect(() => validateBackendOptions('local', local, { sandbox: false, allowedTools: [] })).not.toThrow();
+  });
+
+  it('applies review defaults only when the backend declares one', () => {
+    expect(resolveModel(gemini, undefined, 'review')).toBe('gemini-2.5-flash');
+    expect(resolveModel(gemini, 'gemini-3.1-pro', 'review')).toBe('gemini-3.1-pro');
+    expect(resolveModel(codex, undefined, 'review')).toBeUndefined();
+    expect(resolveModel(gemini, undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { FallbackExecutor } from '../src/backends/fallback.ts';
+import { classifyBackendFailure } from '../src/backends/failures.ts';
+import { CodexBackend } from '../src/backends/codex.ts';
+import { executeWithResume } from '../src/backends/sessionHandles.ts';
+import type { BackendExecutor, BackendCapabilities } from '../src/backends/types.ts';
+
+const capabilities = (overrides: Partial<BackendCapabilities> = {}): BackendCapabilities => ({
+  fileRefs: false,
+  sandbox: false,
+  sandboxModes: [],
+  reasoningEffort: [],
+  allowedTools: false,
+  nativeResume: false,
+  jsonOutput: false,
+  maxContextTokens: 100_000,
+  ...overrides,
+});
+
+function fakeBackend(name: string, execute: BackendExecutor['execute'], caps = capabilities()): BackendExecutor {
+  return {
+    name,
+    execute: vi.fn(execute),
+    isAvailable: vi.fn().mockResolvedValue(true),
+    getModels: () => [],
+    getCapabilities: () => caps,
+    supportsFileRefs: () => false,
+    getFileRefSyntax: () => '',
+  };
+}
+
+describe('failure classification', () => {
+  it('maps backend errors to failure kinds', () => {
+    expect(classifyBackendFailure(new Error("Gemini command failed with exit code 1: Quota exceeded for quota metric 'x'"))).toBe('quota');
+    expect(classifyBackendFailure(new Error('Failed to spawn codex command: spawn codex ENOENT'))).toBe('binary-missing');
+    expect(classifyBackendFailure(new Error('Local model request failed with HTTP 401: Unauthorized'))).toBe('auth');
+    expect(classifyBackendFailure(new Error('Claude command failed with exit code 2: boom'))).toBe('exit');
+    expect(classifyBackendFailure(new Error("Invalid model name: model cannot start with '-'"))).toBeUndefined();
+  });
+});
+
+describe('FallbackExecutor', () => {
+  it('walks the chain across backends and records the path', async () => {
+    const gemini = fakeBackend('gemini', async (_prompt, config) => {
+      throw new Error(`Gemini command failed with exit code 1: RESOURCE_EXHAUSTED for ${config.model}`);
+    }, capabilities({ defaultModel: 'gemini-3.1-pro' }));
+    const codex = fakeBackend('codex', async (_prompt, config) => ({
+      response: 'ok',
+      backend: 'codex',
+      model: config.model,
+    }), capabilities({ reasoningEffort: ['high'] }));
+
+    const executor = new FallbackExecutor(
+      gemini,
+      [{ backend: gemini, model: 'gemini-3-flash' }, { backend: codex, model: 'gpt-5.4-mini' }],
+      ['quota']
+    );
+    const progress: string[] = [];
+    const result = await executor.execute('hi', { provider: 'gemini', allowedTools: ['x'] }, line => progress.push(line));
+
+    expect(result.backend).toBe('codex');
+    expect(result.fallbackPath?.map(attempt => [attempt.backend, attempt.model, attempt.failure])).toEqual([
+      ['gemini', 'gemini-3.1-pro', 'quota'],
+      ['gemini', 'gemini-3-flash', 'quota'],
+      ['codex', 'gpt-5.4-mini', undefined],
+    ]);
+    // Options the fallback backend cannot honor are dropped
+    expect(codex.execute).toHaveBeenCalledWith('hi', expect.objectContaining({ provider: 'codex', allowedTools: undefined }), expect.any(Function));
+    expect(progress.some(line => line.includes('falling back to codex (gpt-5.4-mini)'))).toBe(true);
+  });
+
+  it('replays the history in a fresh session when a step cannot resume the native one', async () => {
+    const gemini = fakeBackend('gemini', async () => {
+      throw new Error('Gemini command failed with exit code 1: RESOURCE_EXHAUSTED');
+    });
+    const codex = fakeBackend('codex', async () => ({ response: 'ok', backend: 'codex' }));
+    const executor = new FallbackExecutor(gemini, [{ backend: codex, model: 'gpt-5.4-mini' }], ['quota']);
+
+    await executeWithResume(
+      executor,
+      { provider: 'gemini', geminiSessionId: 'gemini-session', codexThreadId: 'old-thread' },
+      replayHistory => replayHistory ? 'history + question' : 'question'
+    );
+
+    expect(gemini.execute).toHaveBeenCalledWith('question', expect.objectContaining({ geminiSessionId: 'gemini-session' }), undefined);
+    const [prompt, config] = vi.mocked(codex.execute).mock.calls[0];
+    expect(prompt).toBe('history + question');
+    expect(config).toMatchObject({ geminiSessionId: undefined, codexThreadId: undefined, replayPrompt: undefined });
+  });
+
+  it('rethrows failures that are not configured triggers', async () => {
+    const gemini = fakeBackend('gemini', async () => {
+      throw new Error('Gemini command failed with exit code 1: syntax error');
+    });
+    const codex = fakeBackend('codex', async () => ({ response: 'ok', backend: 'codex' }));
+
+    const executor = new FallbackExecutor(gemini, [{ backend: codex }], ['quota']);
+    await expect(executor.execute('hi', { provider: 'gemini' })).rejects.toThrow('syntax error');
+    expect(codex.execute).not.toHaveBeenCalled();
+  });
+
+  it('keeps a Gemini sandbox request read-only on a Codex step', async () => {
+    const gemini = fakeBackend('gemini', async () => {
+      throw new Error('Gemini command failed with exit code 1: RESOURCE_EXHAUSTED');
+    }, capabilities({ sandbox: true }));
+    const codex = new CodexBackend();
+    let codexArgs: string[] = [];
+    vi.spyOn(codex, 'isAvailable').mockResolvedValue(true);
+    vi.spyOn(codex, 'execute').mockImplementation(async (_prompt, config) => {
+      codexArgs = (codex as any).buildArgs(config);
+      return { response: 'ok', backend: 'codex' };
+    });
+
+    const executor = new FallbackExecutor(gemini, [{ backend: codex }], ['quota']);
+    await executor.execute('hi', { provider: 'gemini', sandbox: true });
+
+    expect(codexArgs[codexArgs.indexOf('-s') + 1]).toBe('read-only');
+    expect(codexArgs).not.toContain('workspace-write');
+  });
+});
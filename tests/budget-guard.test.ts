@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { configureBudgets, enforceBudgets, isBudgetError } from '../src/utils/budgetGuard.ts';
+import { createUsage } from '../src/utils/tokenUsage.ts';
+import type { BackendExecutor } from '../src/backends/types.ts';
+
+const codex = {
+  name: 'codex',
+  getModels: () => ['gpt-5.4', 'gpt-5.4-mini'],
+} as unknown as BackendExecutor;
+
+const configure = (overrides: Record<string, unknown>) => configureBudgets({
+  policy: 'reject',
+  dailyTokens: {},
+  downgradeModels: { codex: 'gpt-5.4-mini' },
+  ...overrides,
+});
+
+afterEach(() => configure({}));
+
+describe('enforceBudgets', () => {
+  it('rejects a prompt above the per-call limit and explains why', async () => {
+    configure({ maxPromptTokens: 10 });
+    const progress: string[] = [];
+
+    await expect(enforceBudgets({ backend: codex, prompt: 'x'.repeat(100) }, line => progress.push(line)))
+      .rejects.toThrow('Budget exceeded: the prompt is ~25 tokens, above the per-call limit of 10');
+    expect(progress[0]).toMatch(/^💰 Budget exceeded/);
+  });
+
+  it('downgrades to the cheaper model when the session cap would be passed', async () => {
+    configure({ policy: 'downgrade', sessionTokens: 1000 });
+    const progress: string[] = [];
+
+    const model = await enforceBudgets({
+      backend: codex,
+      model: 'gpt-5.4',
+      prompt: 'hello',
+      sessionUsage: createUsage({ promptTokens: 900, completionTokens: 99 }),
+    }, line => progress.push(line));
+
+    expect(model).toBe('gpt-5.4-mini');
+    expect(progress).toEqual([
+      '💰 Budget: the session has used 999 tokens and this request (~2) would pass the session cap of 1,000. Downgrading codex from gpt-5.4 to gpt-5.4-mini.',
+    ]);
+  });
+
+  it('rejects when the cheaper model is already in use', async () => {
+    configure({ policy: 'downgrade', sessionTokens: 1000 });
+
+    await expect(enforceBudgets({
+      backend: codex,
+      model: 'gpt-5.4-mini',
+      prompt: 'hello',
+      sessionUsage: createUsage({ promptTokens: 1000, completionTokens: 0 }),
+    })).rejects.toThrow('No cheaper codex model is available');
+  });
+
+  it('refuses the cheaper model too once the session cap is used up', async () => {
+    configure({ policy: 'downgrade', sessionTokens: 1000 });
+
+    const refusal = await enforceBudgets({
+      backend: codex,
+      model: 'gpt-5.4',
+      prompt: 'hello',
+      sessionUsage: createUsage({ promptTokens: 1000, completionTokens: 0 }),
+    }).catch(error => error);
+
+    expect(isBudgetError(refusal)).toBe(true);
+    expect(refusal.message).toContain('The cap is used up, so the cheaper model is refused too.');
+  });
+
+  it('counts tokens reserved by running requests towards the session cap', async () => {
+    configure({ sessionTokens: 1000 });
+    const request = {
+      backend: codex,
+      prompt: 'hello',
+      sessionUsage: createUsage({ promptTokens: 500, completionTokens: 0 }),
+    };
+
+    await expect(enforceBudgets(request)).resolves.toBeUndefined();
+    const refusal = await enforceBudgets({ ...request, reservedTokens: 499 }).catch(error => error);
+    expect(isBudgetError(refusal)).toBe(true);
+  });
+});
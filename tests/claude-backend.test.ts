@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ClaudeBackend } from '../src/backends/claude.ts';
+
+describe('ClaudeBackend command args', () => {
+  it('runs in print mode with stream-json output and the default model', () => {
+    const backend = new ClaudeBackend();
+    const args = (backend as any).buildArgs({
+      provider: 'claude',
+    });
+
+    expect(args[0]).toBe('-p');
+    expect(args).toContain('--model');
+    expect(args[args.indexOf('--model') + 1]).toBe('sonnet');
+    expect(args[args.indexOf('--output-format') + 1]).toBe('stream-json');
+    expect(args).toContain('--verbose');
+    expect(args).not.toContain('--permission-mode');
+    expect(args).not.toContain('--resume');
+  });
+
+  it('uses --resume and keeps the session model when claudeSessionId is provided', () => {
+    const backend = new ClaudeBackend();
+    const sessionId = '6f1c2a9e-3b0d-4c55-9a51-0d2f7e8b1c44';
+    const args = (backend as any).buildArgs({
+      provider: 'claude',
+      claudeSessionId: sessionId,
+    });
+
+    expect(args[args.indexOf('--resume') + 1]).toBe(sessionId);
+    expect(args).not.toContain('--model');
+  });
+
+  it('maps sandbox modes to permission modes', () => {
+    const backend = new ClaudeBackend();
+    const writeArgs = (backend as any).buildArgs({ provider: 'claude', sandbox: true });
+    const fullArgs = (backend as any).buildArgs({ provider: 'claude', sandboxMode: 'danger-full-access' });
+
+    expect(writeArgs[writeArgs.indexOf('--permission-mode') + 1]).toBe('acceptEdits');
+    expect(fullArgs[fullArgs.indexOf('--permission-mode') + 1]).toBe('bypassPermissions');
+  });
+});
+
+describe('ClaudeBackend stream-json parsing', () => {
+  it('extracts session id, model and final result', () => {
+    const backend = new ClaudeBackend();
+    const jsonl = [
+      '{"type":"system","subtype":"init","session_id":"sess-123","model":"claude-sonnet-test"}',
+      '{"type":"assistant","message":{"content":[{"type":"text","text":"partial"}]},"session_id":"sess-123"}',
+      '{"type":"result","subtype":"success","is_error":false,"result":"FINAL_OK","session_id":"sess-123"}',
+    ].join('\n');
+
+    const parsed = (backend as any).parseJsonOutput(jsonl);
+    expect(parsed.sessionId).toBe('sess-123');
+    expect(parsed.model).toBe('claude-sonnet-test');
+    expect(parsed.response).toBe('FINAL_OK');
+    expect(parsed.isError).toBe(false);
+  });
+
+  it('flags error results', () => {
+    const backend = new ClaudeBackend();
+    const jsonl = '{"type":"result","subtype":"error_max_turns","is_error":true,"result":"","session_id":"s"}';
+
+    const parsed = (backend as any).parseJsonOutput(jsonl);
+    expect(parsed.isError).toBe(true);
+  });
+});
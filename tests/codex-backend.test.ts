@@ -63,4 +63,22 @@ describe('CodexBackend JSON parsing', () => {
     expect(parsed.threadId).toBe('thread-123');
     expect(parsed.response).toBe('FIRST_OK\nSECOND_OK');
   });
+
+  it('sums token usage from turn.completed events', () => {
+    const backend = new CodexBackend();
+    const jsonl = [
+      '{"type":"item.completed","item":{"id":"a","type":"agent_message","text":"OK"}}',
+      '{"type":"turn.completed","usage":{"input_tokens":1200,"cached_input_tokens":800,"output_tokens":350,"reasoning_output_tokens":120}}',
+      '{"type":"turn.completed","usage":{"input_tokens":300,"output_tokens":50}}',
+    ].join('\n');
+
+    const parsed = (backend as any).parseJsonOutput(jsonl);
+    expect(parsed.usage).toEqual({
+      promptTokens: 1500,
+      completionTokens: 400,
+      reasoningTokens: 120,
+      totalTokens: 1900,
+      estimated: false,
+    });
+  });
 });
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { anchorComments, createAnchor, locateAnchor, relocateComments } from '../src/utils/commentAnchoring.ts';
+import type { ReviewComment } from '../src/utils/sessionSchemas.ts';
+
+const SOURCE = [
+  'import { db } from "./db";',
+  '',
+  'export function find(id: string) {',
+  '  const query = `SELECT * FROM users WHERE id = ${id}`;',
+  '  return db.run(query);',
+  '}',
+  '',
+  'export function list() {',
+  '  return db.run("SELECT * FROM users");',
+  '}',
+];
+
+describe('locateAnchor', () => {
+  it('finds the snippet after lines were inserted above it', () => {
+    const anchor = createAnchor(SOURCE, { start: 4, end: 5 })!;
+    const edited = ['// header', '// more header', ...SOURCE];
+
+    expect(locateAnchor(edited, anchor, { start: 4, end: 5 })).toEqual({ start: 6, end: 7 });
+  });
+
+  it('ignores indentation changes and prefers the match with matching context', () => {
+    const anchor = createAnchor(SOURCE, { start: 9, end: 9 })!;
+    const edited = ['function other() {', '  return db.run("SELECT * FROM users");', '}', '', ...SOURCE.map(line => `    ${line}`)];
+
+    expect(locateAnchor(edited, anchor, { start: 9, end: 9 })).toEqual({ start: 13, end: 13 });
+  });
+
+  it('returns undefined when the code is gone', () => {
+    const anchor = createAnchor(SOURCE, { start: 4, end: 4 })!;
+    const fixed = SOURCE.map(line => line.replace('${id}', '?'));
+
+    expect(locateAnchor(fixed, anchor, { start: 4, end: 4 })).toBeUndefined();
+  });
+});
+
+describe('relocateComments', () => {
+  let dir: string;
+  const comment = (id: string, start: number, end: number): ReviewComment => ({
+    id,
+    filePattern: 'src/users.ts',
+    lineRange: { start, end },
+    severity: 'critical',
+    comment: 'SQL injection',
+    roundGenerated: 1,
+    status: 'pending',
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'anchors-'));
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src/users.ts'), SOURCE.join('\n'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('moves comments whose code moved and flags those whose code vanished', async () => {
+    const comments = [comment('moved', 4, 4), comment('fixed', 9, 9), { ...comment('accepted', 9, 9), status: 'accepted' as const }];
+    await anchorComments(comments, dir);
+    expect(comments[0].anchor?.snippet).toEqual([SOURCE[3]]);
+
+    const edited = ['// added', ...SOURCE].map(line => line.replace('"SELECT * FROM users"', '"SELECT id FROM users"'));
+    writeFileSync(join(dir, 'src/users.ts'), edited.join('\n'));
+
+    const summary = await relocateComments(comments, dir);
+
+    expect(summary).toEqual({ moved: 1, possiblyResolved: 1 });
+    expect(comments[0]).toMatchObject({ lineRange: { start: 5, end: 5 }, previousLineRange: { start: 4, end: 4 } });
+    expect(comments[1].possiblyResolved).toBe(true);
+    expect(comments[2].possiblyResolved).toBeUndefined();
+  });
+
+  it('does not read files outside the working directory', async () => {
+    const outside = { ...comment('outside', 1, 1), filePattern: '../../etc/passwd' };
+    await anchorComments([outside], dir);
+
+    expect(outside.anchor).toBeUndefined();
+  });
+
+  it.skipIf(process.platform === 'win32')('does not follow symlinks that point outside the working directory', async () => {
+    const secrets = mkdtempSync(join(tmpdir(), 'secrets-'));
+    writeFileSync(join(secrets, 'key.ts'), SOURCE.join('\n'));
+    symlinkSync(join(secrets, 'key.ts'), join(dir, 'src/link.ts'));
+    const linked = { ...comment('linked', 1, 1), filePattern: 'src/link.ts' };
+
+    try {
+      await anchorComments([linked], dir);
+      expect(linked.anchor).toBeUndefined();
+    } finally {
+      rmSync(secrets, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ConcurrencyPool, QueueStatus } from '../src/utils/concurrencyPool.ts';
+
+describe('ConcurrencyPool', () => {
+  it('grants slots in FIFO order and reports queue positions', async () => {
+    const pool = new ConcurrencyPool('codex', { maxConcurrent: 1, maxQueued: 5 });
+    const order: string[] = [];
+    const positions: Record<string, number[]> = { second: [], third: [] };
+    const track = (name: string) => (status: QueueStatus) => positions[name].push(status.position);
+
+    const releaseFirst = await pool.acquire();
+    const second = pool.acquire({ onQueueUpdate: track('second') }).then(release => { order.push('second'); return release; });
+    const third = pool.acquire({ onQueueUpdate: track('third') }).then(release => { order.push('third'); return release; });
+
+    releaseFirst();
+    const releaseSecond = await second;
+    releaseSecond();
+    (await third)();
+
+    expect(order).toEqual(['second', 'third']);
+    expect(positions.second).toEqual([1, 1]);
+    expect(positions.third).toEqual([2, 1]);
+  });
+
+  it('rejects new requests once the queue is full', async () => {
+    const pool = new ConcurrencyPool('gemini', { maxConcurrent: 1, maxQueued: 1 });
+    await pool.acquire();
+    void pool.acquire();
+
+    await expect(pool.acquire()).rejects.toThrow("Backend 'gemini' is busy: 1 running and 1 queued");
+  });
+
+  it('drops a cancelled request from the queue', async () => {
+    const pool = new ConcurrencyPool('claude', { maxConcurrent: 1, maxQueued: 5 });
+    const releaseFirst = await pool.acquire();
+    const controller = new AbortController();
+    const cancelled = pool.acquire({ signal: controller.signal });
+    const thirdPositions: number[] = [];
+    const third = pool.acquire({ onQueueUpdate: status => thirdPositions.push(status.position) });
+
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    releaseFirst();
+    (await third)();
+
+    expect(thirdPositions).toEqual([2, 1]);
+  });
+});
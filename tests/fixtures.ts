@@ -0,0 +1,44 @@
+import type { ReviewCodeSessionData, ReviewComment } from '../src/utils/sessionSchemas.ts';
+
+/** Git state of a clean feature branch checkout */
+export const gitState = {
+  branch: 'feature',
+  commitHash: '1a2b3c4d5e6f',
+  workingTreeClean: true,
+  hasUncommittedChanges: false,
+  timestamp: 0,
+};
+
+/**
+ * A pending finding on src/users.ts:10-12; overrides replace any field
+ */
+export const reviewComment = (overrides: Partial<ReviewComment> = {}): ReviewComment => ({
+  id: 'cmt-1',
+  filePattern: 'src/users.ts',
+  lineRange: { start: 10, end: 12 },
+  severity: 'important',
+  comment: 'Missing validation\n\nDetails',
+  roundGenerated: 1,
+  status: 'pending',
+  ...overrides,
+});
+
+/**
+ * An active review session holding the comments; overrides replace any field
+ */
+export const reviewSession = (
+  comments: ReviewComment[],
+  overrides: Partial<ReviewCodeSessionData> = {}
+): ReviewCodeSessionData => ({
+  sessionId: 'review-feature-1a2b3c4d',
+  createdAt: 0,
+  lastAccessedAt: 0,
+  gitState,
+  currentGitState: gitState,
+  rounds: [],
+  allComments: comments,
+  filesTracked: [],
+  totalRounds: 0,
+  sessionState: 'active',
+  ...overrides,
+});
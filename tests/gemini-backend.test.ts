@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GeminiBackend } from '../src/backends/gemini.ts';
+import { executeWithResume } from '../src/backends/sessionHandles.ts';
+import type { BackendExecutor } from '../src/backends/types.ts';
+
+describe('GeminiBackend command args', () => {
+  it('requests stream-json output', () => {
+    const backend = new GeminiBackend();
+    const args = (backend as any).buildArgs('hello', { provider: 'gemini', model: 'gemini-3-flash' });
+
+    expect(args.slice(0, 2)).toEqual(['--output-format', 'stream-json']);
+    expect(args).toContain('gemini-3-flash');
+    expect(args[args.length - 1]).toBe('hello');
+  });
+
+  it('resumes a stored session with --resume', () => {
+    const backend = new GeminiBackend();
+    const args = (backend as any).buildArgs('hello', { provider: 'gemini', geminiSessionId: 'abc-123' });
+
+    const resumeIndex = args.indexOf('--resume');
+    expect(resumeIndex).toBeGreaterThan(-1);
+    expect(args[resumeIndex + 1]).toBe('abc-123');
+  });
+});
+
+describe('Gemini native resume', () => {
+  it('replays history in a new session when the stored session is gone', async () => {
+    const execute = vi.fn()
+      .mockRejectedValueOnce(new Error('Gemini command failed with exit code 1: Error resuming session: session abc-123 not found'))
+      .mockResolvedValueOnce({ response: 'ok', backend: 'gemini', geminiSessionId: 'new-456' });
+    const backend = { name: 'gemini', execute } as unknown as BackendExecutor;
+    const progress: string[] = [];
+
+    const result = await executeWithResume(
+      backend,
+      { provider: 'gemini', geminiSessionId: 'abc-123' },
+      replayHistory => (replayHistory ? 'history + question' : 'question'),
+      line => progress.push(line)
+    );
+
+    expect(result.geminiSessionId).toBe('new-456');
+    expect(execute.mock.calls[0].slice(0, 2)).toEqual([
+      'question',
+      { provider: 'gemini', geminiSessionId: 'abc-123', replayPrompt: 'history + question' },
+    ]);
+    expect(execute.mock.calls[1].slice(0, 2)).toEqual(['history + question', { provider: 'gemini', geminiSessionId: undefined }]);
+    expect(progress[0]).toContain('replaying history');
+  });
+});
+
+describe('GeminiBackend JSON parsing', () => {
+  it('extracts model, streamed answer, tool calls and token stats from stream-json', () => {
+    const backend = new GeminiBackend();
+    const jsonl = [
+      '{"type":"init","session_id":"s-1","model":"gemini-3-flash-preview"}',
+      '{"type":"message","role":"user","content":"hello"}',
+      '{"type":"tool_use","tool_name":"read_file","tool_id":"t-1","parameters":{"path":"a.ts"}}',
+      '{"type":"tool_result","tool_id":"t-1","status":"success","output":"..."}',
+      '{"type":"message","role":"assistant","content":"Hello ","delta":true}',
+      '{"type":"message","role":"assistant","content":"world","delta":true}',
+      '{"type":"result","status":"success","stats":{"total_tokens":150,"input_tokens":120,"output_tokens":30}}',
+    ].join('\n');
+
+    const parsed = (backend as any).parseJsonOutput(jsonl);
+
+    expect(parsed.sessionId).toBe('s-1');
+    expect(parsed.model).toBe('gemini-3-flash-preview');
+    expect(parsed.response).toBe('Hello world');
+    expect(parsed.toolCalls).toEqual([{ name: 'read_file', id: 't-1', args: { path: 'a.ts' }, status: 'success' }]);
+    expect(parsed.usage).toMatchObject({ promptTokens: 120, completionTokens: 30, totalTokens: 150, estimated: false });
+  });
+
+  it('reads the single-object json format and per-model stats', () => {
+    const backend = new GeminiBackend();
+    const json = JSON.stringify({
+      response: 'Done.',
+      stats: { models: { 'gemini-2.5-pro': { tokens: { prompt: 1000, candidates: 200, thoughts: 50, total: 1250 } } } },
+    });
+
+    const parsed = (backend as any).parseJsonOutput(json);
+
+    expect(parsed.response).toBe('Done.');
+    expect(parsed.model).toBe('gemini-2.5-pro');
+    expect(parsed.usage).toMatchObject({ promptTokens: 1000, completionTokens: 250, reasoningTokens: 50, totalTokens: 1250 });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { GenericCliBackend, genericBackendDefinitionSchema, readJsonPath } from '../src/backends/generic.ts';
+import { parseServerConfig } from '../src/utils/serverConfig.ts';
+
+function createBackend(definition: Record<string, unknown>) {
+  return new GenericCliBackend(genericBackendDefinitionSchema.parse(definition));
+}
+
+describe('GenericCliBackend command args', () => {
+  it('adds model, resume and prompt flags from the definition', () => {
+    const backend = createBackend({
+      name: 'mycli',
+      command: 'mycli',
+      args: ['run', '--quiet'],
+      modelFlag: '--model',
+      defaultModel: 'small',
+      prompt: { mode: 'flag', flag: '--prompt' },
+      session: { idPattern: 'session=(\\S+)', resumeFlag: '--resume' },
+    });
+
+    const args = (backend as any).buildArgs('hello', {
+      provider: 'mycli',
+      cliSessionIds: { mycli: 'abc123', other: 'ignored' },
+    });
+
+    expect(args).toEqual(['run', '--quiet', '--model', 'small', '--resume', 'abc123', '--prompt', 'hello']);
+  });
+
+  it('never passes a prompt that reads as an option', () => {
+    const separate = createBackend({ name: 'flagcli', command: 'flagcli', prompt: { mode: 'flag', flag: '--prompt' } });
+    const joined = createBackend({ name: 'joincli', command: 'joincli', prompt: { mode: 'flag', flag: '--prompt', joinFlag: true } });
+
+    expect(() => (separate as any).buildArgs('--help', { provider: 'flagcli' })).toThrow("cannot start with '-'");
+    expect((joined as any).buildArgs('--help', { provider: 'joincli' })).toEqual(['--prompt=--help']);
+  });
+
+  it('keeps the prompt out of argv in stdin mode', () => {
+    const backend = createBackend({ name: 'stdincli', command: 'stdincli' });
+    const args = (backend as any).buildArgs('secret prompt', { provider: 'stdincli' });
+
+    expect(args).not.toContain('secret prompt');
+  });
+});
+
+describe('GenericCliBackend output parsing', () => {
+  it('reads JSONL responses and session ids from configured paths', () => {
+    const backend = createBackend({
+      name: 'jsoncli',
+      command: 'jsoncli',
+      output: { format: 'jsonl', responsePath: 'item.text', eventType: 'message' },
+      session: { idPath: 'session_id', resumeFlag: '--resume' },
+    });
+
+    const stdout = [
+      '{"type":"start","session_id":"sess-42"}',
+      '{"type":"message","item":{"text":"FIRST"}}',
+      '{"type":"debug","item":{"text":"skip"}}',
+      '{"type":"message","item":{"text":"SECOND"}}',
+    ].join('\n');
+
+    const parsed = (backend as any).parseOutput(stdout, '');
+    expect(parsed).toEqual({ response: 'FIRST\nSECOND', sessionId: 'sess-42' });
+  });
+
+  it('runs the configured command and returns the session handle', async () => {
+    const backend = createBackend({
+      name: 'nodecli',
+      command: process.execPath,
+      args: ['-e', "process.stdin.on('data', d => process.stdout.write('echo:' + d)); process.stderr.write('session=xyz789\\n')"],
+      session: { idPattern: 'session=(\\S+)', resumeFlag: '--resume' },
+    });
+
+    const result = await backend.execute('ping', { provider: 'nodecli' });
+    expect(result.response).toBe('echo:ping');
+    expect(result.backend).toBe('nodecli');
+    expect(result.cliSessionIds).toEqual({ nodecli: 'xyz789' });
+  });
+
+  it('reads nested paths including array indexes', () => {
+    expect(readJsonPath({ a: { b: [{ c: 'ok' }] } }, 'a.b.0.c')).toBe('ok');
+    expect(readJsonPath({ a: null }, 'a.b')).toBeUndefined();
+  });
+});
+
+describe('parseServerConfig', () => {
+  it('rejects jsonl output without a response path', () => {
+    expect(() =>
+      parseServerConfig({ backends: [{ name: 'bad', command: 'bad', output: { format: 'jsonl' } }] })
+    ).toThrow('output.responsePath is required');
+  });
+
+  it('defaults to no generic backends', () => {
+    expect(parseServerConfig({}).backends).toEqual([]);
+  });
+
+  it('uses the built-in Gemini quota step only when no gemini chain is configured', () => {
+    const configured = parseServerConfig({
+      fallback: { chains: { gemini: [{ backend: 'codex', model: 'gpt-5.4-mini' }] } },
+    }).fallback.chains;
+    const others = parseServerConfig({ fallback: { chains: { claude: [{ backend: 'codex' }] } } }).fallback.chains;
+
+    expect(configured.gemini).toEqual([{ backend: 'codex', model: 'gpt-5.4-mini' }]);
+    expect(others.gemini).toEqual([{ backend: 'gemini', model: 'gemini-2.5-flash' }]);
+    expect(others.claude).toEqual([{ backend: 'codex' }]);
+  });
+});
+
+describe('GenericCliBackend cancellation', () => {
+  it.skipIf(process.platform === 'win32')('kills the process tree when the signal aborts', async () => {
+    const backend = createBackend({
+      name: 'slowcli',
+      command: 'sh',
+      // The background sleep checks that the whole process group is killed
+      args: ['-c', 'sleep 30 & echo started; wait'],
+    });
+    const controller = new AbortController();
+    const started = Date.now();
+
+    const pending = backend.execute('ignored', { provider: 'slowcli', signal: controller.signal }, () => controller.abort());
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(Date.now() - started).toBeLessThan(5000);
+  });
+});
+
+describe('GenericCliBackend timeouts', () => {
+  it.skipIf(process.platform === 'win32')('stops an idle process and reports its partial output', async () => {
+    const backend = createBackend({
+      name: 'idlecli',
+      command: 'sh',
+      args: ['-c', 'echo partial answer; sleep 30'],
+    });
+
+    const pending = backend.execute('ignored', { provider: 'idlecli', timeouts: { idleMs: 300 } });
+
+    await expect(pending).rejects.toMatchObject({
+      name: 'ExecutionTimeoutError',
+      kind: 'idle',
+      limitMs: 300,
+      partialOutput: expect.stringContaining('partial answer'),
+    });
+  });
+});
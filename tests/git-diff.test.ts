@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { execFileSync } from 'node:child_process';
+import {
+  parseDiffTarget,
+  parseUnifiedDiff,
+  formatDiffForPrompt,
+  isOnChangedLines,
+  getRepoPrefix,
+  toRepoPath
+} from '../src/utils/gitDiff.ts';
+
+const DIFF = [
+  'diff --git a/src/a.ts b/src/a.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -10,4 +10,5 @@ export function a() {',
+  '   const x = 1;',
+  '-  const y = 2;',
+  '+  const y = 3;',
+  '+  const z = 4;',
+  '   return x;',
+  ' }',
+  '@@ -40,3 +41,2 @@',
+  '   one();',
+  '-  two();',
+  '   three();',
+  'diff --git a/docs/logo.png b/docs/logo.png',
+  'Binary files a/docs/logo.png and b/docs/logo.png differ',
+  'diff --git a/src/new.ts b/src/new.ts',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1,2 @@',
+  '+export const n = 1;',
+  '+export const m = 2;',
+].join('\n');
+
+describe('parseDiffTarget', () => {
+  it('accepts refs, ranges and the staged/working-tree keywords', () => {
+    expect(parseDiffTarget('main')).toEqual({ kind: 'range', base: 'main', head: undefined });
+    expect(parseDiffTarget('main..feature/x')).toEqual({ kind: 'range', base: 'main', head: 'feature/x' });
+    expect(parseDiffTarget('staged')).toEqual({ kind: 'staged' });
+    expect(parseDiffTarget('working-tree')).toEqual({ kind: 'working-tree' });
+  });
+
+  it('rejects refs that git would read as options', () => {
+    expect(() => parseDiffTarget('--output=/tmp/x')).toThrow("Invalid diff '--output=/tmp/x'");
+    expect(() => parseDiffTarget('main..')).toThrow('Invalid diff');
+  });
+});
+
+describe('parseUnifiedDiff', () => {
+  it('tracks changed line ranges of the new file version and skips binary files', () => {
+    const files = parseUnifiedDiff(DIFF);
+
+    expect(files.map(file => file.path)).toEqual(['src/a.ts', 'src/new.ts']);
+    expect(files[0]).toMatchObject({
+      additions: 2,
+      deletions: 2,
+      changedLines: [{ start: 11, end: 12 }, { start: 42, end: 42 }],
+    });
+    expect(files[1].changedLines).toEqual([{ start: 1, end: 2 }]);
+  });
+
+  it('numbers prompt lines with their position in the new file', () => {
+    const prompt = formatDiffForPrompt(parseUnifiedDiff(DIFF));
+
+    expect(prompt).toContain('### src/a.ts (+2/-2)');
+    expect(prompt).toContain('   11 +  const y = 3;');
+    expect(prompt).toContain('      -  const y = 2;');
+    expect(prompt).toContain('   13    return x;');
+  });
+});
+
+describe('isOnChangedLines', () => {
+  const files = parseUnifiedDiff(DIFF);
+  const comment = (filePattern: string, start?: number, end = start) => ({
+    id: 'cmt-1',
+    filePattern,
+    lineRange: start === undefined ? undefined : { start, end: end! },
+    severity: 'important' as const,
+    comment: 'Issue',
+    roundGenerated: 1,
+    status: 'pending' as const,
+  });
+
+  it('keeps comments overlapping changed lines only', () => {
+    expect(isOnChangedLines(comment('src/a.ts', 12), files)).toBe(true);
+    expect(isOnChangedLines(comment('./src/a.ts', 8, 11), files)).toBe(true);
+    expect(isOnChangedLines(comment('src/a.ts', 13), files)).toBe(false);
+    expect(isOnChangedLines(comment('src/other.ts', 12), files)).toBe(false);
+    expect(isOnChangedLines(comment('General'), files)).toBe(true);
+  });
+});
+
+describe('toRepoPath', () => {
+  it('turns paths relative to a subdirectory into the repo-root paths of the diff', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'repo-path-'));
+    try {
+      execFileSync('git', ['init', dir], { stdio: 'pipe' });
+      const subdirectory = join(dir, 'packages', 'api');
+      mkdirSync(subdirectory, { recursive: true });
+      const prefix = await getRepoPrefix(subdirectory);
+
+      expect(prefix).toBe('packages/api/');
+      expect(toRepoPath('@./src/a.ts', prefix)).toBe('packages/api/src/a.ts');
+      expect(toRepoPath('../web/b.ts', prefix)).toBe('packages/web/b.ts');
+      expect(toRepoPath('../../../outside.ts', prefix)).toBe('../../../outside.ts');
+      expect(toRepoPath('src/a.ts', await getRepoPrefix(dir))).toBe('src/a.ts');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
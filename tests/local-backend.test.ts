@@ -0,0 +1,93 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { OpenAICompatibleBackend } from '../src/backends/openaiCompatible.ts';
+import { classifyBackendFailure } from '../src/backends/failures.ts';
+
+function startServer(handler: Parameters<typeof createServer>[1]): Promise<{ server: Server; baseUrl: string }> {
+  return new Promise((resolve) => {
+    const server = createServer(handler);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1` });
+    });
+  });
+}
+
+describe('OpenAICompatibleBackend', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  it('streams deltas into onProgress and reports the served model', async () => {
+    let requestBody: any;
+    const started = await startServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        requestBody = JSON.parse(raw);
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write('data: {"model":"qwen2.5:7b","choices":[{"delta":{"content":"Hel"}}]}\n\n');
+        res.write('data: {"model":"qwen2.5:7b","choices":[{"delta":{"content":"lo"}}]}\n\n');
+        res.end('data: [DONE]\n\n');
+      });
+    });
+    server = started.server;
+
+    const backend = new OpenAICompatibleBackend({ baseUrl: started.baseUrl, defaultModel: 'qwen2.5' });
+    const progress: string[] = [];
+    const result = await backend.execute('Say hello', { provider: 'local' }, (chunk) => progress.push(chunk));
+
+    expect(requestBody.model).toBe('qwen2.5');
+    expect(requestBody.stream).toBe(true);
+    expect(requestBody.messages[0]).toEqual({ role: 'user', content: 'Say hello' });
+    expect(progress).toEqual(['Hel', 'lo']);
+    expect(result).toMatchObject({ response: 'Hello', backend: 'local', model: 'qwen2.5:7b' });
+  });
+
+  it('discovers models through /models when checking availability', async () => {
+    const started = await startServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ data: [{ id: 'llama3.1' }, { id: 'mistral' }] }));
+    });
+    server = started.server;
+
+    const backend = new OpenAICompatibleBackend({ baseUrl: started.baseUrl, defaultModel: 'llama3.1' });
+
+    expect(await backend.isAvailable()).toBe(true);
+    expect(backend.getModels()).toEqual(['llama3.1', 'mistral']);
+  });
+
+  it('surfaces HTTP errors from the server', async () => {
+    const started = await startServer((req, res) => {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end('{"error":"model not found"}');
+    });
+    server = started.server;
+
+    const backend = new OpenAICompatibleBackend({ baseUrl: started.baseUrl, defaultModel: 'missing' });
+
+    await expect(backend.execute('hi', { provider: 'local' })).rejects.toThrow('HTTP 404');
+  });
+
+  it('fails instead of returning a response cut off at the output limit', async () => {
+    const chunk = `data: ${JSON.stringify({ choices: [{ delta: { content: 'x'.repeat(1024 * 1024) } }] })}\n\n`;
+    const started = await startServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      for (let index = 0; index < 11; index++) {
+        res.write(chunk);
+      }
+      res.end('data: [DONE]\n\n');
+    });
+    server = started.server;
+
+    const backend = new OpenAICompatibleBackend({ baseUrl: started.baseUrl, defaultModel: 'big' });
+    const failure = await backend.execute('hi', { provider: 'local' }).catch(error => error);
+
+    expect(failure.message).toBe('Local model response exceeded the 10MB output limit');
+    expect(classifyBackendFailure(failure)).toBe('exit');
+  });
+});
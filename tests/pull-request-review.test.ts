@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getMergeBase, generatePullRequestSessionId } from '../src/utils/gitStateDetector.ts';
+import { getDiff, parseUnifiedDiff } from '../src/utils/gitDiff.ts';
+import { planDiffBatches } from '../src/utils/reviewBatcher.ts';
+
+describe('planDiffBatches', () => {
+  const fileOfSize = (path: string, lines: number) => parseUnifiedDiff([
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -1,0 +1,${lines} @@`,
+    ...Array.from({ length: lines }, (_, i) => `+const value${i} = ${i}; // padding to make the line longer`),
+  ].join('\n'))[0];
+
+  it('keeps everything in one batch when it fits', () => {
+    const files = [fileOfSize('a.ts', 10), fileOfSize('b.ts', 10)];
+    expect(planDiffBatches(files, 1_000_000)).toEqual([files]);
+  });
+
+  it('splits files across batches sized to the context window', () => {
+    const files = [fileOfSize('a.ts', 40), fileOfSize('b.ts', 40), fileOfSize('c.ts', 40), fileOfSize('huge.ts', 400)];
+    const batches = planDiffBatches(files, 2_000, 100);
+
+    expect(batches.map(batch => batch.map(file => file.path))).toEqual([['a.ts'], ['b.ts'], ['c.ts'], ['huge.ts']]);
+  });
+});
+
+describe('pull-request git helpers', () => {
+  let repo: string;
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8' }).trim();
+
+  beforeAll(() => {
+    repo = mkdtempSync(join(tmpdir(), 'pr-review-'));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'dev@example.com');
+    git('config', 'user.name', 'Dev');
+    writeFileSync(join(repo, 'a.ts'), 'export const a = 1;\n');
+    git('add', '.');
+    git('commit', '-qm', 'base');
+    git('checkout', '-qb', 'feature');
+    writeFileSync(join(repo, 'a.ts'), 'export const a = 2;\n');
+    writeFileSync(join(repo, 'b.ts'), 'export const b = 1;\n');
+    git('add', '.');
+    git('commit', '-qm', 'feature');
+    git('checkout', '-q', 'main');
+    writeFileSync(join(repo, 'c.ts'), 'export const c = 1;\n');
+    git('add', '.');
+    git('commit', '-qm', 'main moves on');
+    git('checkout', '-q', 'feature');
+  });
+
+  afterAll(() => {
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('diffs only the branch changes since the merge-base', async () => {
+    const mergeBase = await getMergeBase('main', repo);
+    const files = await getDiff({ kind: 'range', base: mergeBase, head: 'HEAD' }, repo);
+
+    expect(mergeBase).toBe(git('rev-list', '--max-parents=0', 'HEAD'));
+    expect(files.map(file => file.path)).toEqual(['a.ts', 'b.ts']);
+    expect(files[0].changedLines).toEqual([{ start: 1, end: 1 }]);
+  });
+
+  it('keys the session on branch and merge-base', async () => {
+    const mergeBase = await getMergeBase('main', repo);
+    const sessionId = generatePullRequestSessionId(
+      { branch: 'feature/x', commitHash: git('rev-parse', 'HEAD'), workingTreeClean: true, hasUncommittedChanges: false, timestamp: 1 },
+      mergeBase
+    );
+
+    expect(sessionId).toBe(`review-pr-feature-x-${mergeBase.slice(0, 8)}`);
+  });
+
+  it('rejects unknown target branches', async () => {
+    await expect(getMergeBase('does-not-exist', repo)).rejects.toThrow("No merge-base between 'does-not-exist' and HEAD");
+    await expect(getMergeBase('--all', repo)).rejects.toThrow("Invalid target branch '--all'");
+  });
+});
@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildVerificationPrompt, parseVerificationResponse } from '../src/utils/resolutionVerifier.ts';
+import { reviewComment } from './fixtures.ts';
+
+const comment = (id: string, filePattern: string, lineRange?: { start: number; end: number }) => reviewComment({
+  id,
+  filePattern,
+  lineRange,
+  severity: 'critical',
+  comment: 'SQL injection\n\nThe id is interpolated into the query.',
+  status: 'accepted',
+  resolution: 'Switched to a parameterized query',
+});
+
+describe('buildVerificationPrompt', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'verify-'));
+    writeFileSync(join(dir, 'users.ts'), Array.from({ length: 60 }, (_, i) => `line ${i + 1}`).join('\n'));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('includes each comment with the numbered current code around its lines', async () => {
+    const prompt = await buildVerificationPrompt([comment('cmt-a', 'users.ts', { start: 30, end: 31 })], dir);
+
+    expect(prompt).toContain('### Comment cmt-a');
+    expect(prompt).toContain('**Developer notes:** Switched to a parameterized query');
+    expect(prompt).toContain('   15  line 15');
+    expect(prompt).toContain('   46  line 46');
+    expect(prompt).not.toContain('line 14\n');
+    expect(prompt).not.toContain('   47  line 47');
+  });
+
+  it('falls back to an @ reference when the file cannot be read', async () => {
+    const prompt = await buildVerificationPrompt([comment('cmt-b', 'missing.ts', { start: 1, end: 1 })], dir);
+
+    expect(prompt).toContain('**Current code:**\n@missing.ts');
+  });
+});
+
+describe('parseVerificationResponse', () => {
+  it('records an outcome per comment and defaults unmentioned ones to unverified', () => {
+    const comments = [comment('cmt-a', 'a.ts'), comment('cmt-b', 'b.ts'), comment('cmt-c', 'c.ts')];
+    const outcomes = parseVerificationResponse(`
+**[VERIFICATION: verified]**
+**Comment:** cmt-a
+**Notes:** The query now uses placeholders.
+
+**[VERIFICATION: REGRESSED]**
+**Comment:** \`cmt-b\`
+**Notes:** The fix drops input validation.
+
+**[VERIFICATION: verified]**
+**Comment:** cmt-unknown
+**Notes:** Not one of ours.
+`, comments, 2);
+
+    expect(outcomes.get('cmt-a')).toMatchObject({ outcome: 'verified', notes: 'The query now uses placeholders.', roundNumber: 2 });
+    expect(outcomes.get('cmt-b')).toMatchObject({ outcome: 'regressed', notes: 'The fix drops input validation.' });
+    expect(outcomes.get('cmt-c')).toMatchObject({ outcome: 'unverified', notes: 'Not assessed by the reviewer.' });
+    expect(outcomes.has('cmt-unknown')).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  addToBaseline,
+  filterSuppressed,
+  fingerprintComment,
+  getBaselinePath,
+  loadBaseline,
+  saveBaseline
+} from '../src/utils/reviewBaseline.ts';
+import type { ReviewComment } from '../src/utils/sessionSchemas.ts';
+import { reviewComment } from './fixtures.ts';
+
+const comment = (filePattern: string, issue: string, status: ReviewComment['status'] = 'pending') => reviewComment({
+  id: `cmt-${filePattern}-${issue}`,
+  filePattern,
+  lineRange: { start: 3, end: 3 },
+  comment: `${issue}\n\nDetails\n\n**Recommendation:** Fix it`,
+  status,
+  resolution: status === 'rejected' ? 'Validated upstream' : undefined,
+});
+
+describe('review baseline', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'baseline-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fingerprints findings by issue title, ignoring numbers and punctuation', () => {
+    expect(fingerprintComment(comment('a.ts', 'Missing validation on line 12!')))
+      .toBe(fingerprintComment(comment('b.ts', 'missing validation on line 40')));
+    expect(fingerprintComment(comment('a.ts', 'Missing validation')))
+      .not.toBe(fingerprintComment(comment('a.ts', 'SQL injection')));
+  });
+
+  it('tells the same issue apart under different rules', () => {
+    const fingerprint = (ruleId?: string) => fingerprintComment({ ...comment('a.ts', 'Missing validation'), ruleId });
+
+    expect(fingerprint('security/input-validation')).not.toBe(fingerprint('api/input-validation'));
+    expect(fingerprint('security/input-validation')).not.toBe(fingerprint());
+  });
+
+  it('round-trips rejected comments through the baseline file', async () => {
+    const baseline = await loadBaseline(dir);
+    expect(baseline).toEqual({ version: 1, suppressions: [] });
+
+    const added = addToBaseline(baseline, [comment('./src/users.ts', 'Missing validation', 'rejected')]);
+    expect(added).toMatchObject([{ pathGlob: 'src/users.ts', issue: 'Missing validation', reason: 'Validated upstream' }]);
+    expect(addToBaseline(baseline, [comment('src/users.ts', 'Missing validation', 'rejected')])).toEqual([]);
+
+    await saveBaseline(baseline, dir);
+    expect(JSON.parse(readFileSync(join(dir, '.review-baseline.json'), 'utf8')).suppressions).toHaveLength(1);
+    expect(await loadBaseline(dir)).toEqual(baseline);
+  });
+
+  it('keeps the baseline at the repository root when run from a subdirectory', async () => {
+    execFileSync('git', ['init', dir], { stdio: 'pipe' });
+    const subdirectory = join(dir, 'packages', 'api');
+    mkdirSync(subdirectory, { recursive: true });
+
+    const baseline = await loadBaseline(subdirectory);
+    addToBaseline(baseline, [comment('src/users.ts', 'Missing validation', 'rejected')]);
+    await saveBaseline(baseline, subdirectory);
+
+    expect(await getBaselinePath(subdirectory)).toBe(await getBaselinePath(dir));
+    expect(JSON.parse(readFileSync(join(dir, '.review-baseline.json'), 'utf8')).suppressions).toHaveLength(1);
+  });
+
+  it('filters comments matching a fingerprint and path glob', async () => {
+    const fingerprint = fingerprintComment(comment('x', 'Missing validation'));
+    writeFileSync(join(dir, '.review-baseline.json'), JSON.stringify({
+      version: 1,
+      suppressions: [{ fingerprint, pathGlob: 'src/legacy/**/*.ts' }],
+    }));
+    const baseline = await loadBaseline(dir);
+
+    const { kept, suppressed } = filterSuppressed([
+      comment('src/legacy/a.ts', 'Missing validation'),
+      comment('src/legacy/deep/b.ts', 'Missing validation'),
+      comment('src/new/a.ts', 'Missing validation'),
+      comment('src/legacy/a.ts', 'SQL injection'),
+    ], baseline);
+
+    expect(suppressed.map(c => c.filePattern)).toEqual(['src/legacy/a.ts', 'src/legacy/deep/b.ts']);
+    expect(kept.map(c => c.filePattern)).toEqual(['src/new/a.ts', 'src/legacy/a.ts']);
+  });
+
+  it('reports an invalid baseline file', async () => {
+    writeFileSync(join(dir, '.review-baseline.json'), JSON.stringify({ suppressions: [{ pathGlob: 'src/**' }] }));
+
+    await expect(loadBaseline(dir)).rejects.toThrow('Invalid review baseline');
+  });
+});
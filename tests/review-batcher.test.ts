@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseUnifiedDiff } from '../src/utils/gitDiff.ts';
+import { planDiffBatches, planFileBatches } from '../src/utils/reviewBatcher.ts';
+
+const fileOfSize = (path: string, lines: number) => parseUnifiedDiff([
+  `diff --git a/${path} b/${path}`,
+  `--- a/${path}`,
+  `+++ b/${path}`,
+  `@@ -1,0 +1,${lines} @@`,
+  ...Array.from({ length: lines }, (_, i) => `+const value${i} = ${i}; // padding to make the line longer`),
+].join('\n'))[0];
+
+describe('review batching planner', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'batcher-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a directory together when it fits a batch of its own', () => {
+    const files = [fileOfSize('api/a.ts', 10), fileOfSize('ui/b.ts', 10), fileOfSize('ui/c.ts', 10), fileOfSize('api/d.ts', 10)];
+    // Budget of ~2.5 files: the api group fills a batch, ui moves to the next one
+    const batches = planDiffBatches(files, 2 * 420);
+
+    expect(batches.map(batch => batch.map(file => file.path))).toEqual([['api/a.ts', 'api/d.ts'], ['ui/b.ts', 'ui/c.ts']]);
+  });
+
+  it('caps the number of files per batch', () => {
+    const files = Array.from({ length: 20 }, (_, i) => fileOfSize(`src/f${i}.ts`, 1));
+    const batches = planDiffBatches(files, 1_000_000);
+
+    expect(batches.map(batch => batch.length)).toEqual([8, 8, 4]);
+  });
+
+  it('sizes file batches from the files on disk', async () => {
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src', 'big.ts'), 'x'.repeat(4200));
+    writeFileSync(join(dir, 'src', 'small.ts'), 'x'.repeat(40));
+    writeFileSync(join(dir, 'README.md'), 'x'.repeat(400));
+
+    const batches = await planFileBatches(['src/big.ts', 'README.md', 'src/small.ts', 'lib/**/*.ts'], dir, 2 * 1100);
+
+    expect(batches).toEqual([['src/big.ts', 'src/small.ts'], ['README.md', 'lib/**/*.ts']]);
+  });
+});
@@ -63,6 +63,18 @@ describe('buildReviewPrompt severity handling', () => {
     expect(prompt).toContain('Only report **critical** and **important** issues.');
     expect(prompt).not.toContain('Only report **critical** issues.');
   });
+
+  it('asks for schema-validated JSON in json response format', () => {
+    const prompt = buildReviewPrompt({
+      ...baseConfig,
+      severity: 'all',
+      responseFormat: 'json',
+    });
+
+    expect(prompt).toContain('"recommendation"');
+    expect(prompt).toContain('{"comments": []}');
+    expect(prompt).not.toContain('**[SEVERITY:');
+  });
 });
 
 describe('reviewCodeTool Gemini defaults', () => {
@@ -157,3 +169,310 @@ describe('reviewCodeTool Gemini defaults', () => {
     });
   });
 });
+
+describe('reviewCodeTool session lifecycle', () => {
+  afterEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    vi.unmock('../src/backends/index.js');
+    vi.unmock('../src/utils/gitStateDetector.js');
+    vi.unmock('../src/utils/gitDiff.js');
+    vi.unmock('../src/utils/reviewSessionManager.js');
+    vi.unmock('../src/utils/reviewPromptBuilder.js');
+    vi.unmock('../src/utils/reviewResponseParser.js');
+    vi.unmock('../src/utils/reviewFormatter.js');
+  });
+
+  it('refuses review rounds on a completed session until it is reopened', async () => {
+    const gitState = {
+      branch: 'main',
+      commitHash: '1234567890abcdef1234567890abcdef12345678',
+      workingTreeClean: true,
+      hasUncommittedChanges: false,
+      timestamp: 123,
+    };
+    let stored: any = {
+      sessionId: 'review-main-12345678',
+      createdAt: 1,
+      lastAccessedAt: 1,
+      gitState,
+      currentGitState: gitState,
+      rounds: [],
+      allComments: [],
+      filesTracked: ['src/index.ts'],
+      totalRounds: 1,
+      sessionState: 'completed',
+      completedAt: 2,
+    };
+    const executeMock = vi.fn().mockResolvedValue({ response: 'No issues found.', backend: 'gemini' });
+    const getDiffMock = vi.fn().mockResolvedValue([]);
+
+    vi.doMock('../src/utils/gitStateDetector.js', () => ({
+      getCurrentGitState: vi.fn().mockResolvedValue(gitState),
+      generateSessionId: vi.fn().mockReturnValue('review-main-12345678'),
+      generatePullRequestSessionId: vi.fn().mockReturnValue('review-main-12345678'),
+      getMergeBase: vi.fn().mockResolvedValue('abcdef1234567890abcdef1234567890abcdef12'),
+      detectSessionContinuation: vi.fn().mockReturnValue({ canContinue: true }),
+    }));
+    vi.doMock('../src/utils/gitDiff.js', async () => ({
+      ...(await vi.importActual<object>('../src/utils/gitDiff.ts')),
+      getDiff: getDiffMock,
+    }));
+    vi.doMock('../src/backends/index.js', () => ({
+      getBackend: vi.fn().mockResolvedValue({ name: 'gemini', execute: executeMock }),
+    }));
+    vi.doMock('../src/utils/reviewSessionManager.js', () => ({
+      loadReviewSession: vi.fn(async () => structuredClone(stored)),
+      saveReviewSession: vi.fn(async (session: unknown) => {
+        stored = structuredClone(session);
+      }),
+      createNewSession: vi.fn(),
+    }));
+    vi.doMock('../src/utils/reviewPromptBuilder.js', () => ({
+      buildReviewPrompt: vi.fn().mockReturnValue('review prompt'),
+      extractFilesFromPrompt: vi.fn().mockReturnValue(['src/index.ts']),
+    }));
+    vi.doMock('../src/utils/reviewResponseParser.js', () => ({
+      parseReviewResponse: vi.fn().mockReturnValue([]),
+      validateComments: vi.fn((comments: unknown[]) => comments),
+    }));
+    vi.doMock('../src/utils/reviewFormatter.js', () => ({
+      formatReviewResponse: vi.fn().mockReturnValue('FORMATTED_REVIEW'),
+      formatSessionNotFound: vi.fn().mockReturnValue('SESSION_NOT_FOUND'),
+      formatGitStateWarning: vi.fn().mockReturnValue('GIT_WARNING'),
+      formatCompletionReport: vi.fn().mockReturnValue('COMPLETION_REPORT'),
+    }));
+
+    const { reviewCodeTool } = await import('../src/tools/review-code.tool.ts');
+    const reviewArgs = {
+      prompt: 'Review again',
+      backend: 'gemini',
+      files: ['src/index.ts'],
+      includeHistory: false,
+      reviewType: 'general',
+      severity: 'all',
+    };
+
+    await expect(reviewCodeTool.execute(reviewArgs)).rejects.toThrow("Review session 'review-main-12345678' is completed");
+    expect(executeMock).not.toHaveBeenCalled();
+
+    // A pull-request session is addressed with targetBranch; its (empty) diff is not computed for lifecycle actions
+    const reopened = await reviewCodeTool.execute({ action: 'reopen', targetBranch: 'main' });
+    expect(reopened).toContain('# Review Session Reopened');
+    expect(getDiffMock).not.toHaveBeenCalled();
+    expect(stored.sessionState).toBe('active');
+    expect(stored.completedAt).toBeUndefined();
+
+    expect(await reviewCodeTool.execute(reviewArgs)).toBe('FORMATTED_REVIEW');
+    expect(executeMock).toHaveBeenCalledTimes(1);
+    expect(stored.totalRounds).toBe(2);
+
+    expect(await reviewCodeTool.execute({ action: 'complete' })).toBe('COMPLETION_REPORT');
+    expect(stored.sessionState).toBe('completed');
+  });
+});
+
+describe('reviewCodeTool JSON repair', () => {
+  afterEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    vi.unmock('../src/backends/index.js');
+    vi.unmock('../src/utils/budgetGuard.js');
+    vi.unmock('../src/utils/gitStateDetector.js');
+    vi.unmock('../src/utils/reviewSessionManager.js');
+    vi.unmock('../src/utils/reviewPromptBuilder.js');
+    vi.unmock('../src/utils/reviewResponseParser.js');
+    vi.unmock('../src/utils/reviewFormatter.js');
+  });
+
+  it('sends the repair request through the budgets with the review options', async () => {
+    const gitState = {
+      branch: 'main',
+      commitHash: '1234567890abcdef1234567890abcdef12345678',
+      workingTreeClean: true,
+      hasUncommittedChanges: false,
+      timestamp: 123,
+    };
+    const usage = { promptTokens: 100, completionTokens: 10, totalTokens: 110, estimated: false };
+    const executeMock = vi.fn()
+      .mockResolvedValueOnce({ response: 'not json', backend: 'claude', usage })
+      .mockResolvedValueOnce({ response: '{"comments": []}', backend: 'claude' });
+    const enforceBudgetsMock = vi.fn(async (request: { model?: string }) => request.model);
+
+    vi.doMock('../src/utils/gitStateDetector.js', () => ({
+      getCurrentGitState: vi.fn().mockResolvedValue(gitState),
+      generateSessionId: vi.fn().mockReturnValue('review-main-12345678'),
+      detectSessionContinuation: vi.fn().mockReturnValue({ canContinue: true }),
+    }));
+    vi.doMock('../src/backends/index.js', () => ({
+      getBackend: vi.fn().mockResolvedValue({ name: 'claude', execute: executeMock }),
+    }));
+    vi.doMock('../src/utils/budgetGuard.js', () => ({ configureBudgets: vi.fn(), enforceBudgets: enforceBudgetsMock }));
+    vi.doMock('../src/utils/reviewSessionManager.js', () => ({
+      loadReviewSession: vi.fn().mockResolvedValue(null),
+      saveReviewSession: vi.fn().mockResolvedValue(undefined),
+      createNewSession: vi.fn((sessionId: string, currentGitState: any, files?: string[]) => ({
+        sessionId,
+        createdAt: 1,
+        lastAccessedAt: 1,
+        gitState: currentGitState,
+        currentGitState,
+        rounds: [],
+        allComments: [],
+        filesTracked: files ?? [],
+        totalRounds: 0,
+        sessionState: 'active',
+      })),
+    }));
+    vi.doMock('../src/utils/reviewPromptBuilder.js', () => ({
+      buildReviewPrompt: vi.fn().mockReturnValue('review prompt'),
+      extractFilesFromPrompt: vi.fn().mockReturnValue(['src/index.ts']),
+    }));
+    vi.doMock('../src/utils/reviewResponseParser.js', () => ({
+      parseReviewResponse: vi.fn().mockReturnValue([]),
+      validateComments: vi.fn((comments: unknown[]) => comments),
+    }));
+    vi.doMock('../src/utils/reviewFormatter.js', () => ({
+      formatReviewResponse: vi.fn().mockReturnValue('FORMATTED_REVIEW'),
+      formatSessionNotFound: vi.fn().mockReturnValue('SESSION_NOT_FOUND'),
+      formatGitStateWarning: vi.fn().mockReturnValue('GIT_WARNING'),
+    }));
+
+    const { reviewCodeTool } = await import('../src/tools/review-code.tool.ts');
+    const result = await reviewCodeTool.execute({
+      prompt: 'Review',
+      backend: 'claude',
+      files: ['src/index.ts'],
+      includeHistory: false,
+      reviewType: 'general',
+      severity: 'all',
+      responseFormat: 'json',
+      allowedTools: ['Read'],
+    });
+
+    expect(result).toBe('FORMATTED_REVIEW');
+    expect(executeMock).toHaveBeenCalledTimes(2);
+    expect(executeMock.mock.calls[1][0]).toContain('# OUTPUT REPAIR');
+    expect(executeMock.mock.calls[1][1]).toMatchObject({ allowedTools: ['Read'] });
+    expect(enforceBudgetsMock).toHaveBeenCalledTimes(2);
+    expect(enforceBudgetsMock.mock.calls[1][0]).toMatchObject({ sessionUsage: { totalTokens: 110 } });
+  });
+});
+
+describe('reviewCodeTool batch budgets', () => {
+  afterEach(() => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    vi.unmock('../src/backends/index.js');
+    vi.unmock('../src/utils/budgetGuard.js');
+    vi.unmock('../src/utils/gitStateDetector.js');
+    vi.unmock('../src/utils/reviewSessionManager.js');
+    vi.unmock('../src/utils/reviewPromptBuilder.js');
+    vi.unmock('../src/utils/reviewResponseParser.js');
+    vi.unmock('../src/utils/reviewFormatter.js');
+  });
+
+  async function loadTool(
+    enforceBudgetsMock: (request: { model?: string; reservedTokens?: number }) => Promise<string | undefined>,
+    saveReviewSessionMock = vi.fn().mockResolvedValue(undefined)
+  ) {
+    const gitState = {
+      branch: 'main',
+      commitHash: '1234567890abcdef1234567890abcdef12345678',
+      workingTreeClean: true,
+      hasUncommittedChanges: false,
+      timestamp: 123,
+    };
+    const executeMock = vi.fn().mockResolvedValue({ response: 'No issues found.', backend: 'gemini' });
+
+    vi.doMock('../src/utils/gitStateDetector.js', () => ({
+      getCurrentGitState: vi.fn().mockResolvedValue(gitState),
+      generateSessionId: vi.fn().mockReturnValue('review-main-12345678'),
+      detectSessionContinuation: vi.fn().mockReturnValue({ canContinue: true }),
+    }));
+    vi.doMock('../src/backends/index.js', () => ({
+      getBackend: vi.fn().mockResolvedValue({ name: 'gemini', execute: executeMock }),
+    }));
+    vi.doMock('../src/utils/budgetGuard.js', async () => ({
+      ...(await vi.importActual<object>('../src/utils/budgetGuard.ts')),
+      enforceBudgets: enforceBudgetsMock,
+    }));
+    vi.doMock('../src/utils/reviewSessionManager.js', () => ({
+      loadReviewSession: vi.fn().mockResolvedValue(null),
+      saveReviewSession: saveReviewSessionMock,
+      createNewSession: vi.fn((sessionId: string, currentGitState: any, files?: string[]) => ({
+        sessionId,
+        createdAt: 1,
+        lastAccessedAt: 1,
+        gitState: currentGitState,
+        currentGitState,
+        rounds: [],
+        allComments: [],
+        filesTracked: files ?? [],
+        totalRounds: 0,
+        sessionState: 'active',
+      })),
+    }));
+    vi.doMock('../src/utils/reviewPromptBuilder.js', () => ({
+      buildReviewPrompt: vi.fn().mockReturnValue('review prompt'),
+      extractFilesFromPrompt: vi.fn().mockReturnValue([]),
+    }));
+    vi.doMock('../src/utils/reviewResponseParser.js', () => ({
+      parseReviewResponse: vi.fn().mockReturnValue([]),
+      validateComments: vi.fn((comments: unknown[]) => comments),
+    }));
+    vi.doMock('../src/utils/reviewFormatter.js', () => ({
+      formatReviewResponse: vi.fn().mockReturnValue('FORMATTED_REVIEW'),
+      formatSessionNotFound: vi.fn().mockReturnValue('SESSION_NOT_FOUND'),
+      formatGitStateWarning: vi.fn().mockReturnValue('GIT_WARNING'),
+    }));
+
+    const { reviewCodeTool } = await import('../src/tools/review-code.tool.ts');
+    return reviewCodeTool;
+  }
+
+  it('refuses the round when one batch is over budget, reserving earlier batches', async () => {
+    const enforceBudgetsMock = vi.fn(async (request: { model?: string; reservedTokens?: number }) => {
+      if (request.reservedTokens) {
+        const error = new Error('Budget exceeded: the session cap would be passed.');
+        error.name = 'BudgetExceededError';
+        throw error;
+      }
+      return request.model;
+    });
+    const saveReviewSessionMock = vi.fn().mockResolvedValue(undefined);
+    const reviewCodeTool = await loadTool(enforceBudgetsMock, saveReviewSessionMock);
+    // More files than one batch holds: two batches
+    const files = Array.from({ length: 9 }, (_, index) => `src/file${index}.ts`);
+
+    await expect(reviewCodeTool.execute({
+      prompt: 'Review',
+      backend: 'gemini',
+      files,
+      includeHistory: false,
+      reviewType: 'general',
+      severity: 'all',
+    })).rejects.toThrow('Budget exceeded');
+
+    expect(enforceBudgetsMock.mock.calls.map(([request]) => request.reservedTokens)).toEqual([0, 4]);
+    expect(saveReviewSessionMock).not.toHaveBeenCalled();
+  });
+  it('reserves the reviewers started before each one in the same batch', async () => {
+    const enforceBudgetsMock = vi.fn(async (request: { model?: string; reservedTokens?: number }) => request.model);
+    const reviewCodeTool = await loadTool(enforceBudgetsMock);
+
+    await reviewCodeTool.execute({
+      prompt: 'Review',
+      reviewers: ['gemini', 'codex'],
+      files: ['src/file0.ts'],
+      includeHistory: false,
+      reviewType: 'general',
+      severity: 'all',
+    });
+
+    expect(enforceBudgetsMock.mock.calls.map(([request]) => request.reservedTokens)).toEqual([0, 4]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { mergeReviewerComments } from '../src/utils/reviewMerger.ts';
+import { formatReviewResponse } from '../src/utils/reviewFormatter.ts';
+import type { ReviewComment } from '../src/utils/sessionSchemas.ts';
+import { gitState, reviewComment, reviewSession } from './fixtures.ts';
+
+function comment(id: string, filePattern: string, lines: [number, number] | undefined, severity: ReviewComment['severity'], text: string): ReviewComment {
+  return reviewComment({ id, filePattern, lineRange: lines ? { start: lines[0], end: lines[1] } : undefined, severity, comment: text });
+}
+
+describe('mergeReviewerComments', () => {
+  it('merges overlapping findings and records every reviewer', () => {
+    const merged = mergeReviewerComments([
+      {
+        reviewer: 'gemini',
+        comments: [
+          comment('g1', 'src/a.ts', [10, 12], 'important', 'SQL injection'),
+          comment('g2', 'src/b.ts', [1, 1], 'suggestion', 'Rename'),
+        ],
+      },
+      {
+        reviewer: 'codex',
+        comments: [
+          comment('c1', './src/a.ts', [12, 15], 'critical', 'Unescaped query\n\nDetails'),
+          comment('c2', 'src/a.ts', [40, 41], 'question', 'Why retry?'),
+          comment('c3', 'General', undefined, 'question', 'Overall'),
+        ],
+      },
+    ]);
+
+    expect(merged).toHaveLength(4);
+    expect(merged[0]).toMatchObject({
+      id: 'g1',
+      severity: 'critical',
+      lineRange: { start: 10, end: 15 },
+      reviewers: ['gemini', 'codex'],
+    });
+    expect(merged[0].comment).toBe('SQL injection\n\n**Codex also noted:** Unescaped query');
+    expect(merged.map(c => c.reviewers)).toEqual([['gemini', 'codex'], ['gemini'], ['codex'], ['codex']]);
+  });
+
+  it('never merges two comments of the same reviewer', () => {
+    const merged = mergeReviewerComments([
+      {
+        reviewer: 'gemini',
+        comments: [
+          comment('g1', 'src/a.ts', [1, 5], 'important', 'One'),
+          comment('g2', 'src/a.ts', [3, 4], 'important', 'Two'),
+        ],
+      },
+    ]);
+
+    expect(merged).toHaveLength(2);
+  });
+
+  it('ranks findings raised by every reviewer first within a severity', () => {
+    const comments = [
+      { ...comment('g1', 'src/a.ts', [1, 1], 'important', 'Only Gemini'), reviewers: ['gemini'] },
+      { ...comment('c2', 'src/b.ts', [5, 5], 'important', 'Only Codex'), reviewers: ['codex'] },
+      { ...comment('c1', 'src/a.ts', [20, 20], 'important', 'Both'), reviewers: ['codex', 'gemini', 'claude'] },
+    ] as ReviewComment[];
+
+    const round = {
+      roundNumber: 1,
+      timestamp: 1,
+      filesReviewed: ['src/a.ts', 'src/b.ts'],
+      userPrompt: 'Review',
+      response: '',
+      commentsGenerated: comments,
+      gitState,
+      backend: 'gemini',
+      reviewers: ['gemini', 'codex', 'claude'],
+    };
+    const output = formatReviewResponse({
+      session: reviewSession(comments, { rounds: [round], totalRounds: 1 }),
+      currentRound: round,
+      newComments: comments,
+      showHistory: false,
+    });
+
+    expect(output).toContain('**Reviewers:** Gemini, Codex, Claude');
+    expect(output).toContain('- 🤝 Raised by all 3 reviewers: 1');
+    const fileA = output.slice(output.indexOf('### src/a.ts'), output.indexOf('### src/b.ts'));
+    expect(fileA.indexOf('Both')).toBeLessThan(fileA.indexOf('Only Gemini'));
+    expect(fileA).toContain('#### 🟠 Issue 1 🤝');
+    expect(fileA).toContain('**Raised by:** Codex, Gemini, Claude (all reviewers)');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseUnifiedDiff } from '../src/utils/gitDiff.ts';
+import { exportPayloadsTool } from '../src/tools/export-payloads.tool.ts';
+import { buildGitHubReviewPayload, buildGitLabDiscussions, findDiffPosition } from '../src/utils/reviewPayloadExporter.ts';
+import type { ReviewComment } from '../src/utils/sessionSchemas.ts';
+import { reviewComment } from './fixtures.ts';
+
+// Line 11 was replaced by two lines (11-12) and line 30 added; everything else is context
+const files = parseUnifiedDiff([
+  'diff --git a/src/old.ts b/src/users.ts',
+  'similarity index 90%',
+  'rename from src/old.ts',
+  'rename to src/users.ts',
+  '--- a/src/old.ts',
+  '+++ b/src/users.ts',
+  '@@ -9,5 +9,6 @@ export function load() {',
+  ' const a = 1;',
+  ' const b = 2;',
+  '-const c = 3;',
+  '+const c = 4;',
+  '+const d = 5;',
+  ' const e = 6;',
+  ' const f = 7;',
+  '@@ -28,2 +29,3 @@',
+  ' const x = 1;',
+  '+const y = 2;',
+  ' const z = 3;',
+].join('\n'));
+
+const refs = { baseSha: 'base', startSha: 'start', headSha: 'head' };
+
+const comment = (id: string, lineRange: ReviewComment['lineRange'], status: ReviewComment['status'] = 'pending') =>
+  reviewComment({ id, filePattern: './src/users.ts', lineRange, comment: `Issue ${id}`, status });
+
+describe('review payload export', () => {
+  it('positions comments on diff lines', () => {
+    expect(findDiffPosition(comment('added', { start: 11, end: 12 }), files))
+      .toEqual({ path: 'src/users.ts', oldPath: 'src/old.ts', line: 12, startLine: 11 });
+    expect(findDiffPosition(comment('context', { start: 13, end: 13 }), files))
+      .toEqual({ path: 'src/users.ts', oldPath: 'src/old.ts', line: 13, oldLine: 12 });
+    // Range leaving the hunk is placed on its last visible line, without a start in another hunk
+    expect(findDiffPosition(comment('span', { start: 14, end: 20 }), files))
+      .toEqual({ path: 'src/users.ts', oldPath: 'src/old.ts', line: 14, oldLine: 13 });
+    expect(findDiffPosition(comment('outside', { start: 50, end: 52 }), files)).toBeUndefined();
+  });
+
+  it('builds GitHub and GitLab payloads from open comments', () => {
+    const comments = [
+      comment('added', { start: 30, end: 30 }),
+      comment('outside', { start: 50, end: 52 }),
+      comment('done', { start: 11, end: 11 }, 'accepted'),
+    ];
+
+    const github = buildGitHubReviewPayload(comments, files, refs, 'Summary');
+    expect(github).toMatchObject({
+      commit_id: 'head',
+      event: 'COMMENT',
+      comments: [{ path: 'src/users.ts', line: 30, side: 'RIGHT' }],
+    });
+    expect(github.body).toContain('Summary');
+    expect(github.body).toContain('Issue outside');
+    expect(github.body).not.toContain('Issue done');
+
+    const gitlab = buildGitLabDiscussions(comments, files, refs);
+    expect(gitlab).toHaveLength(2);
+    expect(gitlab[0].position).toEqual({
+      position_type: 'text',
+      base_sha: 'base',
+      start_sha: 'start',
+      head_sha: 'head',
+      old_path: 'src/old.ts',
+      new_path: 'src/users.ts',
+      new_line: 30,
+    });
+    expect(gitlab[1].position).toBeUndefined();
+  });
+});
+
+describe('export-review-payloads tool', () => {
+  it('rejects output directories outside the working directory', async () => {
+    for (const outputDir of ['../payloads', '/tmp/payloads']) {
+      await expect(exportPayloadsTool.execute({ sessionId: 'review-pr-feature-1a2b3c4d', outputDir, cwd: '/repo' }))
+        .rejects.toThrow('outputDir must be inside');
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { assignRuleIds, loadRulePacks, selectRulePacks } from '../src/utils/reviewRulePacks.ts';
+import { buildReviewPrompt } from '../src/utils/reviewPromptBuilder.ts';
+import { parseReviewResponse } from '../src/utils/reviewResponseParser.ts';
+import type { ReviewCodeSessionData, ReviewComment } from '../src/utils/sessionSchemas.ts';
+
+const reactHooks = {
+  name: 'react-hooks',
+  instructions: 'Check components and custom hooks.',
+  rules: [{ id: 'exhaustive-deps', description: 'Effects list every value they read' }],
+  examples: [{ rule: 'exhaustive-deps', issue: 'useEffect misses userId', code: 'useEffect(() => load(userId), []);' }],
+};
+
+const gitState = { branch: 'main', commitHash: '1234567890abcdef', workingTreeClean: true, hasUncommittedChanges: false, timestamp: 1 };
+
+describe('review rule packs', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rule-packs-'));
+    mkdirSync(join(dir, '.review-rules'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads packs and rejects unknown review types and invalid files', async () => {
+    writeFileSync(join(dir, '.review-rules', 'react-hooks.json'), JSON.stringify(reactHooks));
+    const packs = await loadRulePacks(dir);
+
+    expect(selectRulePacks(['security', 'react-hooks'], packs).map(pack => pack.name)).toEqual(['react-hooks']);
+    expect(() => selectRulePacks(['sql-injection'], packs)).toThrow(/Unknown review type 'sql-injection'.*react-hooks/);
+
+    writeFileSync(join(dir, '.review-rules', 'broken.json'), JSON.stringify({ name: 'Broken Pack' }));
+    await expect(loadRulePacks(dir)).rejects.toThrow(/broken\.json: name: .*instructions: Required/);
+  });
+
+  it('combines built-in types and packs in the prompt and tags findings', () => {
+    const packs = [{ ...reactHooks, examples: reactHooks.examples.map(example => ({ ...example, severity: 'important' as const })) }];
+    const prompt = buildReviewPrompt({
+      userPrompt: 'Review',
+      session: { sessionId: 's', createdAt: 1, lastAccessedAt: 1, gitState, currentGitState: gitState, rounds: [], allComments: [], filesTracked: [], totalRounds: 0, sessionState: 'active' } as ReviewCodeSessionData,
+      reviewType: 'security, react-hooks',
+      severity: 'all',
+      includeHistory: false,
+      currentGitState: gitState,
+      rulePacks: packs,
+    });
+
+    expect(prompt).toContain('Review Type: security, react-hooks');
+    expect(prompt).toContain('### security\nFocus on:');
+    expect(prompt).toContain('- `react-hooks/exhaustive-deps`: Effects list every value they read');
+    expect(prompt).toContain('useEffect(() => load(userId), []);');
+    expect(prompt).toContain('**Rule:** {rule id}');
+
+    const [parsed] = parseReviewResponse(`**[SEVERITY: important]**
+**File:** src/App.tsx
+**Lines:** 12
+**Issue:** Missing dependency
+**Details:** userId is read but not listed.
+**Recommendation:** Add userId.
+**Rule:** exhaustive-deps
+
+---`, 1);
+    expect(parsed.comment).toMatch(/Add userId\.$/);
+
+    const unknown: ReviewComment = { ...parsed, id: 'other', ruleId: 'made-up' };
+    assignRuleIds([parsed, unknown], ['security', 'react-hooks'], packs);
+    expect(parsed.ruleId).toBe('react-hooks/exhaustive-deps');
+    expect(unknown.ruleId).toBeUndefined();
+
+    assignRuleIds([unknown], ['react-hooks'], packs);
+    expect(unknown.ruleId).toBe('react-hooks');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { computeSessionStats } from '../src/utils/reviewSessionStats.ts';
+import { formatCompletionReport } from '../src/utils/reviewFormatter.ts';
+import type { ReviewCodeSessionData, ReviewComment } from '../src/utils/sessionSchemas.ts';
+import { reviewComment as comment, reviewSession } from './fixtures.ts';
+
+const session = (comments: ReviewComment[]) => reviewSession(comments, {
+  rounds: [
+    { roundNumber: 1, backend: 'gemini', usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 } },
+    { roundNumber: 2, backend: 'gemini', reviewers: ['gemini', 'codex'] },
+  ] as ReviewCodeSessionData['rounds'],
+  filesTracked: ['src/users.ts'],
+  totalRounds: 2,
+  sessionState: 'completed',
+  completedAt: 90 * 60 * 1000,
+});
+
+const verification = (outcome: 'verified' | 'unverified' | 'regressed') => ({ outcome, roundNumber: 2, timestamp: 0 });
+
+describe('review session stats', () => {
+  const comments = [
+    comment({ id: 'c1', severity: 'critical', status: 'accepted', verification: verification('verified') }),
+    comment({ id: 'c2', severity: 'critical', status: 'accepted', verification: verification('regressed'), comment: 'SQL injection\n\nDetails' }),
+    comment({ id: 'c3', severity: 'critical', status: 'pending', comment: 'Token leaked in logs' }),
+    comment({ id: 'c4', severity: 'critical', status: 'rejected' }),
+    comment({ id: 'c5', severity: 'suggestion', status: 'modified' }),
+    comment({ id: 'c6', severity: 'question', status: 'deferred' }),
+  ];
+
+  it('computes decision ratios, unresolved critical issues and usage', () => {
+    const stats = computeSessionStats(session(comments));
+
+    expect(stats.byStatus).toEqual({ pending: 1, accepted: 2, modified: 1, rejected: 1, deferred: 1 });
+    expect(stats.bySeverity).toEqual({ critical: 4, important: 0, suggestion: 1, question: 1 });
+    expect(stats.acceptedRatio).toBe(0.75);
+    expect(stats.rejectedRatio).toBe(0.25);
+    expect(stats.verification).toEqual({ verified: 1, unverified: 0, regressed: 1 });
+    expect(stats.unresolvedCritical.map(c => c.id)).toEqual(['c2', 'c3']);
+    expect(stats.backends).toEqual(['gemini', 'codex']);
+    expect(stats.usage?.totalTokens).toBe(120);
+    expect(stats.durationMs).toBe(90 * 60 * 1000);
+  });
+
+  it('leaves ratios undefined when nothing was decided', () => {
+    const stats = computeSessionStats(session([comment({ status: 'pending' })]));
+
+    expect(stats.acceptedRatio).toBeUndefined();
+    expect(stats.rejectedRatio).toBeUndefined();
+  });
+
+  it('lists unresolved critical issues in the completion report', () => {
+    const report = formatCompletionReport(session(comments));
+
+    expect(report).toContain('# Code Review Complete');
+    expect(report).toContain('**Rounds:** 2 over 1 h 30 min');
+    expect(report).toContain('75% of decided');
+    expect(report).toContain('`c2` src/users.ts:10 - SQL injection (fix regressed)');
+    expect(report).toContain('`c3` src/users.ts:10 - Token leaked in logs (pending)');
+    expect(report).toContain('action: "reopen"');
+  });
+});
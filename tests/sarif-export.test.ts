@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildSarifLog } from '../src/utils/sarifExporter.ts';
+import { fingerprintComment } from '../src/utils/reviewBaseline.ts';
+import type { ReviewCodeSessionData, ReviewComment } from '../src/utils/sessionSchemas.ts';
+import { reviewComment, reviewSession } from './fixtures.ts';
+
+// Findings of the second round are new in the exported run
+const comment = (overrides: Partial<ReviewComment>) => reviewComment({ roundGenerated: 2, ...overrides });
+
+const session = (comments: ReviewComment[]) => reviewSession(comments, {
+  rounds: [{ roundNumber: 1 }, { roundNumber: 2 }] as ReviewCodeSessionData['rounds'],
+  totalRounds: 2,
+});
+
+describe('SARIF export', () => {
+  it('maps severity, location and fingerprint', () => {
+    const finding = comment({ severity: 'critical', filePattern: '@./src/users.ts' });
+    const log = buildSarifLog(session([finding, comment({ id: 'cmt-2', filePattern: 'General', lineRange: undefined, severity: 'question' })]));
+    const [run] = log.runs;
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['llm-review/critical', 'llm-review/question']);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'llm-review/critical',
+      level: 'error',
+      message: { text: 'Missing validation' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/users.ts' }, region: { startLine: 10, endLine: 12 } } }],
+      partialFingerprints: { 'reviewFinding/v1': fingerprintComment(finding) },
+    });
+    expect(run.results[1].level).toBe('note');
+    expect(buildSarifLog(session([comment({ ruleId: 'react-hooks/exhaustive-deps' })])).runs[0].tool.driver.rules)
+      .toMatchObject([{ id: 'react-hooks/exhaustive-deps', defaultConfiguration: { level: 'warning' } }]);
+    expect(run.results[1].locations).toBeUndefined();
+    expect(run.properties).toMatchObject({ sessionId: 'review-feature-1a2b3c4d', branch: 'feature', rounds: 2 });
+  });
+
+  it('maps comment status to baseline state and suppressions', () => {
+    const results = buildSarifLog(session([
+      comment({ id: 'new' }),
+      comment({ id: 'old', roundGenerated: 1 }),
+      comment({ id: 'fixed', status: 'accepted' }),
+      comment({ id: 'regressed', status: 'accepted', verification: { outcome: 'regressed', roundNumber: 2, timestamp: 0 } }),
+      comment({ id: 'rejected', status: 'rejected', resolution: 'Validated upstream' }),
+      comment({ id: 'deferred', status: 'deferred' }),
+    ])).runs[0].results;
+
+    expect(results.map(result => result.baselineState)).toEqual(['new', 'unchanged', 'absent', 'updated', 'new', 'new']);
+    expect(results[4].suppressions).toEqual([{ kind: 'external', status: 'accepted', justification: 'Validated upstream' }]);
+    expect(results[5].suppressions).toEqual([{ kind: 'external', status: 'underReview' }]);
+    expect(results[0].suppressions).toBeUndefined();
+  });
+});
+
+describe('export-review-sarif tool', () => {
+  afterEach(() => {
+    vi.resetModules();
+    vi.unmock('../src/utils/reviewSessionManager.js');
+  });
+
+  it('rejects output files outside the working directory', async () => {
+    vi.doMock('../src/utils/reviewSessionManager.js', () => ({
+      loadReviewSession: vi.fn().mockResolvedValue(session([comment({})])),
+    }));
+    const { exportSarifTool } = await import('../src/tools/export-sarif.tool.ts');
+
+    for (const outputFile of ['../escape.sarif', '/tmp/escape.sarif']) {
+      await expect(exportSarifTool.execute({ sessionId: 'review-feature-1a2b3c4d', outputFile, cwd: '/repo' }))
+        .rejects.toThrow('outputFile must be a file inside');
+    }
+  });
+});
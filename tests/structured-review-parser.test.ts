@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseJsonReviewResponse, parseStructuredReview } from '../src/utils/structuredReviewParser.ts';
+
+const finding = {
+  severity: 'important',
+  file: 'src/users.ts',
+  lines: { start: 4, end: 6 },
+  issue: 'Missing validation',
+  details: 'The id is used unchecked.',
+  recommendation: 'Validate the id.',
+};
+
+const markdown = `**[SEVERITY: critical]**
+**File:** src/db.ts
+**Lines:** 10
+**Issue:** SQL injection
+**Details:** Query is concatenated.
+**Recommendation:** Use parameters.`;
+
+describe('structured review parsing', () => {
+  it('parses schema-valid JSON, also inside a fence', () => {
+    const result = parseJsonReviewResponse(`\`\`\`json\n${JSON.stringify({ comments: [finding, { ...finding, lines: null }] })}\n\`\`\``, 2);
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.comments).toMatchObject([
+      { filePattern: 'src/users.ts', lineRange: { start: 4, end: 6 }, severity: 'important', roundGenerated: 2, status: 'pending' },
+      { lineRange: undefined },
+    ]);
+    expect(result.comments[0].comment).toBe('Missing validation\n\nThe id is used unchecked.\n\n**Recommendation:** Validate the id.');
+  });
+
+  it('rejects unknown keys, bad severities and inverted ranges', () => {
+    const parse = (value: unknown) => parseJsonReviewResponse(JSON.stringify(value), 1);
+
+    expect(parse({ comments: [{ ...finding, extra: true }] })).toMatchObject({ success: false, error: expect.stringContaining('comments.0') });
+    expect(parse({ comments: [{ ...finding, severity: 'minor' }] })).toMatchObject({ success: false, error: expect.stringContaining('comments.0.severity') });
+    expect(parse({ comments: [{ ...finding, lines: { start: 9, end: 3 } }] })).toMatchObject({ success: false });
+    expect(parseJsonReviewResponse('Looks good to me!', 1)).toMatchObject({ success: false, error: expect.stringContaining('Invalid JSON') });
+  });
+
+  it('repairs invalid output once before falling back to markdown', async () => {
+    const repair = vi.fn().mockResolvedValue({ response: JSON.stringify({ comments: [finding] }), usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } });
+    const repaired = await parseStructuredReview('{"comments": [{"severity": "important"}]}', 1, repair);
+
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(repair.mock.calls[0][0]).toContain('# OUTPUT REPAIR');
+    expect(repaired.comments).toHaveLength(1);
+    expect(repaired.stats).toEqual({ failures: 1, repaired: 1, markdownFallbacks: 0 });
+    expect(repaired.usage?.totalTokens).toBe(15);
+
+    const fallback = await parseStructuredReview(markdown, 1, vi.fn().mockResolvedValue({ response: 'still not json' }));
+    expect(fallback.stats).toEqual({ failures: 1, repaired: 0, markdownFallbacks: 1 });
+    expect(fallback.comments).toMatchObject([{ filePattern: 'src/db.ts', severity: 'critical', lineRange: { start: 10, end: 10 } }]);
+
+    const failedRepair = await parseStructuredReview(markdown, 1, vi.fn().mockRejectedValue(new Error('backend down')));
+    expect(failedRepair.stats.markdownFallbacks).toBe(1);
+    expect(failedRepair.comments).toHaveLength(1);
+  });
+
+  it('rethrows a budget refusal of the repair request', async () => {
+    const refusal = new Error('Budget exceeded: the session cap would be passed.');
+    refusal.name = 'BudgetExceededError';
+
+    await expect(parseStructuredReview(markdown, 1, vi.fn().mockRejectedValue(refusal))).rejects.toBe(refusal);
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  createUsage,
+  formatUsageFooter,
+  getDailyUsage,
+  recordDailyUsage,
+  sumUsage,
+} from '../src/utils/tokenUsage.ts';
+
+// Worker threads cannot change the HOME that os.homedir() reads, so the ledger's home is mocked
+const ledgerHome = vi.hoisted(() => ({ dir: '' }));
+vi.mock('os', async () => {
+  const actual = await vi.importActual<typeof import('os')>('os');
+  const homedir = () => ledgerHome.dir || actual.homedir();
+  return { ...actual, default: { ...actual, homedir }, homedir };
+});
+
+describe('usage arithmetic', () => {
+  it('sums counts and costs, and marks the sum estimated if any part was', () => {
+    const sum = sumUsage([
+      createUsage({ promptTokens: 100, completionTokens: 20, reasoningTokens: 5, costUsd: 0.01 }),
+      undefined,
+      createUsage({ promptTokens: 50, completionTokens: 10 }, true),
+    ]);
+
+    expect(sum).toEqual({
+      promptTokens: 150,
+      completionTokens: 30,
+      reasoningTokens: 5,
+      totalTokens: 180,
+      costUsd: 0.01,
+      estimated: true,
+    });
+    expect(sumUsage([undefined])).toBeUndefined();
+  });
+
+  it('formats the footer lines that have usage', () => {
+    const usage = createUsage({ promptTokens: 1200, completionTokens: 350 });
+
+    expect(formatUsageFooter({ backend: 'codex' })).toBe('');
+    expect(formatUsageFooter({ usage, dailyUsage: usage, backend: 'codex' })).toBe(
+      '\n\n---\n📊 Tokens: 1,200 prompt + 350 completion = 1,550 tokens\n' +
+      '📅 Today (codex): 1,200 prompt + 350 completion = 1,550 tokens'
+    );
+  });
+});
+
+describe('daily usage ledger', () => {
+  let home: string;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(path.join(os.tmpdir(), 'usage-ledger-'));
+    ledgerHome.dir = home;
+  });
+
+  afterEach(async () => {
+    ledgerHome.dir = '';
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  const ledgerPath = () => path.join(home, '.ai-cli-mcp', 'usage.json');
+  const day = new Date(2026, 9, 18, 12);
+
+  it('adds executions to the day total per backend', async () => {
+    await recordDailyUsage('codex', createUsage({ promptTokens: 100, completionTokens: 10 }), day);
+    await recordDailyUsage('codex', createUsage({ promptTokens: 50, completionTokens: 5 }), day);
+    await recordDailyUsage('gemini', createUsage({ promptTokens: 10, completionTokens: 1 }), day);
+
+    expect((await getDailyUsage('codex', day))?.totalTokens).toBe(165);
+    expect((await getDailyUsage(undefined, day))?.totalTokens).toBe(176);
+    expect(await getDailyUsage('codex', new Date(2026, 9, 19, 12))).toBeUndefined();
+  });
+
+  it('keeps totals written by other processes', async () => {
+    await recordDailyUsage('codex', createUsage({ promptTokens: 100, completionTokens: 0 }), day);
+
+    // Another server process adds its own usage to the shared file
+    const ledger = JSON.parse(await fs.readFile(ledgerPath(), 'utf-8'));
+    ledger['2026-10-18'].codex = createUsage({ promptTokens: 400, completionTokens: 0 });
+    ledger['2026-10-18'].claude = createUsage({ promptTokens: 70, completionTokens: 0 });
+    await fs.writeFile(ledgerPath(), JSON.stringify(ledger), 'utf-8');
+
+    await recordDailyUsage('codex', createUsage({ promptTokens: 1, completionTokens: 0 }), day);
+
+    expect((await getDailyUsage('codex', day))?.totalTokens).toBe(401);
+    expect((await getDailyUsage('claude', day))?.totalTokens).toBe(70);
+  });
+
+  it('drops days past the retention window', async () => {
+    await recordDailyUsage('codex', createUsage({ promptTokens: 1, completionTokens: 0 }), new Date(2026, 6, 1, 12));
+    await recordDailyUsage('codex', createUsage({ promptTokens: 1, completionTokens: 0 }), day);
+
+    expect(Object.keys(JSON.parse(await fs.readFile(ledgerPath(), 'utf-8')))).toEqual(['2026-10-18']);
+  });
+});